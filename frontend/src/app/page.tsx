@@ -1,7 +1,8 @@
 'use client';
 
-import {useState, useEffect, useRef, useCallback} from 'react';
-import {ChevronsRight} from 'lucide-react';
+import {useState, useEffect, useRef, useCallback, useMemo} from 'react';
+import {flushSync} from 'react-dom';
+import {ChevronsRight, Printer, Redo2, Undo2} from 'lucide-react';
 
 import {
   useDarkMode,
@@ -21,6 +22,10 @@ import {
   SystemControls,
   AlgorithmTable,
   StepByStepResults,
+  SafeSequencesPanel,
+  ResourceAllocationGraph,
+  RecoveryPanel,
+  AnalysisReport,
 } from '@/components/bankers-algorithm';
 
 import {LogoIcon} from '@/components/ui/LogoIcon';
@@ -41,20 +46,57 @@ export default function BankersAlgorithmPage() {
   // Use the consolidated Banker's Algorithm hook
   const {
     algorithmState,
+    calculator,
     isProcessingRequest,
     requestResult,
     stepNavigationState,
+    safeSequenceEnumeration,
+    availableIncrease,
+    algorithmMode,
+    deadlockedProcesses,
+    maxSafeRequest,
+    isMaxSafeRequestOff,
+    graphSystem,
+    waitForGraph,
+    safetyOptions,
+    taskProgress,
+    canUndo,
+    canRedo,
     checkSafety,
+    cancelAnalysis,
+    detectDeadlock,
+    changeAlgorithmMode,
+    changeSafetyOptions,
+    planRecovery,
+    applyRecoveryPlan,
     processResourceRequest,
+    processResourceRelease,
+    admitProcess,
+    retireProcess,
     updateAllocation,
     updateMax,
+    updateRequest,
     updateAvailable,
+    updateTotal,
+    updateProcessName,
+    updateResourceName,
     updateProcessCount,
     updateResourceCount,
+    pasteMatrixText,
     resetAlgorithm,
     handleStepChange,
     setRequestResult,
     randomizeData,
+    undo,
+    redo,
+    currentScenario,
+    loadScenario,
+    importScenarioFile,
+    importTextProblem,
+    linkedRequest,
+    updateDraftRequest,
+    selectRequestProcess,
+    copyScenarioLink,
   } = useBankersAlgorithm({
     onSuccess: showSuccess,
     onError: showError,
@@ -62,6 +104,55 @@ export default function BankersAlgorithmPage() {
     autoPreviewOnMount: true,
   });
 
+  // Main analysis action depends on the selected matrix view
+  const isDetectionMode = algorithmMode === 'detection';
+  const runAnalysis = isDetectionMode ? detectDeadlock : checkSafety;
+  const analysisLabel = isDetectionMode ? 'Detect Deadlock' : 'Check Safety';
+
+  // Randomize analyzes once the new data is rendered, so it needs the
+  // analysis of that render rather than the one it was clicked in
+  const runAnalysisRef = useRef(runAnalysis);
+  useEffect(() => {
+    runAnalysisRef.current = runAnalysis;
+  }, [runAnalysis]);
+
+  // Images are exported by the views they show; failures are reported here
+  const handleImageExportError = useCallback(
+    (error: Error) =>
+      showError(
+        'Image Not Exported',
+        `The PNG could not be rendered: ${error.message}`,
+      ),
+    [showError],
+  );
+
+  // System the shown trace starts from, for exporting the trace
+  const traceStartState = stepNavigationState.stepStates[0];
+  const traceSystem = useMemo(
+    () =>
+      traceStartState && {
+        available: traceStartState.available ?? traceStartState.work,
+        allocation: traceStartState.allocation,
+        need: traceStartState.need,
+        request: algorithmState.request,
+      },
+    [traceStartState, algorithmState.request],
+  );
+
+  // The report is only rendered for printing; printing the page prints it
+  const [isPrinting, setIsPrinting] = useState(false);
+  useEffect(() => {
+    // The report has to be in the page before the browser lays it out
+    const handleBeforePrint = () => flushSync(() => setIsPrinting(true));
+    const handleAfterPrint = () => setIsPrinting(false);
+    window.addEventListener('beforeprint', handleBeforePrint);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => {
+      window.removeEventListener('beforeprint', handleBeforePrint);
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, []);
+
   const sidebarRef = useRef<HTMLDivElement>(null);
   const mainContainerRef = useRef<HTMLDivElement>(null);
   const mainContentRef = useRef<HTMLDivElement>(null);
@@ -94,7 +185,9 @@ export default function BankersAlgorithmPage() {
   useKeyboardShortcuts({
     onToggleSidebar: toggleSidebar,
     onToggleTheme: toggleDarkMode,
-    onCheckSafety: checkSafety,
+    onCheckSafety: runAnalysis,
+    onUndo: undo,
+    onRedo: redo,
   });
 
   // Setup swipe gestures for mobile sidebar
@@ -162,6 +255,24 @@ export default function BankersAlgorithmPage() {
 
   return (
     <>
+      {/* Printed Report */}
+      {isPrinting && (
+        <AnalysisReport
+          calculator={calculator}
+          scenario={currentScenario}
+          mode={algorithmMode}
+          steps={algorithmState.algorithmSteps}
+          safeSequence={algorithmState.safeSequence}
+          isSafe={algorithmState.isSafe}
+          finish={
+            stepNavigationState.stepStates[
+              stepNavigationState.stepStates.length - 1
+            ]?.finish ?? algorithmState.finish
+          }
+          deadlockedProcesses={deadlockedProcesses}
+        />
+      )}
+
       {/* Browser Compatibility Warning */}
       <BrowserCompatibilityWarning onDismiss={() => {}} />
 
@@ -170,7 +281,7 @@ export default function BankersAlgorithmPage() {
 
       <div
         ref={mainContainerRef}
-        className="swipe-container flex h-screen overflow-hidden bg-gray-50 text-gray-900 dark:text-gray-50 transition-all duration-300"
+        className="swipe-container print:hidden flex h-screen overflow-hidden bg-gray-50 text-gray-900 dark:text-gray-50 transition-all duration-300"
         style={{backgroundColor: 'var(--page-bg, #f9fafb)'}}
       >
         {/* Mobile Sidebar Overlay */}
@@ -222,11 +333,34 @@ export default function BankersAlgorithmPage() {
                 processCount={algorithmState.processCount}
                 resourceCount={algorithmState.resourceCount}
                 available={algorithmState.available}
+                total={algorithmState.total}
                 need={algorithmState.need}
+                allocation={algorithmState.allocation}
+                maxSafeRequest={maxSafeRequest}
+                isMaxSafeRequestOff={isMaxSafeRequestOff}
+                processNames={algorithmState.processNames}
+                resourceNames={algorithmState.resourceNames}
                 onProcessCountChange={updateProcessCount}
                 onResourceCountChange={updateResourceCount}
                 onAvailableChange={updateAvailable}
-                onRequestSubmit={processResourceRequest}
+                onTotalChange={updateTotal}
+                onResourceNameChange={updateResourceName}
+                onRequestSubmit={
+                  isDetectionMode ? undefined : processResourceRequest
+                }
+                onReleaseSubmit={
+                  isDetectionMode ? undefined : processResourceRelease
+                }
+                onAdmitProcess={isDetectionMode ? undefined : admitProcess}
+                onRetireProcess={isDetectionMode ? undefined : retireProcess}
+                scenario={currentScenario}
+                onLoadScenario={loadScenario}
+                onImportScenario={importScenarioFile}
+                onImportTextProblem={importTextProblem}
+                onCopyScenarioLink={copyScenarioLink}
+                presetRequest={linkedRequest}
+                onRequestChange={updateDraftRequest}
+                onRequestProcessSelect={selectRequestProcess}
                 isProcessingRequest={isProcessingRequest}
                 isCalculating={algorithmState.isCalculating}
                 isCollapsed={false}
@@ -325,11 +459,34 @@ export default function BankersAlgorithmPage() {
               processCount={algorithmState.processCount}
               resourceCount={algorithmState.resourceCount}
               available={algorithmState.available}
+              total={algorithmState.total}
               need={algorithmState.need}
+              allocation={algorithmState.allocation}
+              maxSafeRequest={maxSafeRequest}
+              isMaxSafeRequestOff={isMaxSafeRequestOff}
+              processNames={algorithmState.processNames}
+              resourceNames={algorithmState.resourceNames}
               onProcessCountChange={updateProcessCount}
               onResourceCountChange={updateResourceCount}
               onAvailableChange={updateAvailable}
-              onRequestSubmit={processResourceRequest}
+              onTotalChange={updateTotal}
+              onResourceNameChange={updateResourceName}
+              onRequestSubmit={
+                isDetectionMode ? undefined : processResourceRequest
+              }
+              onReleaseSubmit={
+                isDetectionMode ? undefined : processResourceRelease
+              }
+              onAdmitProcess={isDetectionMode ? undefined : admitProcess}
+              onRetireProcess={isDetectionMode ? undefined : retireProcess}
+              scenario={currentScenario}
+              onLoadScenario={loadScenario}
+              onImportScenario={importScenarioFile}
+              onImportTextProblem={importTextProblem}
+              onCopyScenarioLink={copyScenarioLink}
+              presetRequest={linkedRequest}
+              onRequestChange={updateDraftRequest}
+              onRequestProcessSelect={selectRequestProcess}
               isProcessingRequest={isProcessingRequest}
               isCalculating={algorithmState.isCalculating}
               isCollapsed={isDesktopSidebarCollapsed}
@@ -444,10 +601,10 @@ export default function BankersAlgorithmPage() {
                     <button
                       onClick={() => {
                         randomizeData();
-                        setTimeout(() => checkSafety(), 100);
+                        setTimeout(() => runAnalysisRef.current(), 100);
                       }}
                       className="btn-hover w-10 h-10 rounded-full transition-colors flex items-center justify-center focus:outline-none group"
-                      title="Randomize Data & Check Safety"
+                      title={`Randomize Data & ${analysisLabel}`}
                     >
                       <svg
                         width="18"
@@ -468,13 +625,39 @@ export default function BankersAlgorithmPage() {
                         ></path>
                       </svg>
                     </button>
+                    <button
+                      onClick={undo}
+                      disabled={!canUndo}
+                      className="btn-hover w-10 h-10 rounded-full transition-colors flex items-center justify-center focus:outline-none disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Undo"
+                      aria-label="Undo"
+                    >
+                      <Undo2 className="size-[18px] text-fg-tertiary dark:text-white" />
+                    </button>
+                    <button
+                      onClick={redo}
+                      disabled={!canRedo}
+                      className="btn-hover w-10 h-10 rounded-full transition-colors flex items-center justify-center focus:outline-none disabled:opacity-40 disabled:cursor-not-allowed"
+                      title="Redo"
+                      aria-label="Redo"
+                    >
+                      <Redo2 className="size-[18px] text-fg-tertiary dark:text-white" />
+                    </button>
+                    <button
+                      onClick={() => window.print()}
+                      className="btn-hover w-10 h-10 rounded-full transition-colors flex items-center justify-center focus:outline-none"
+                      title="Print Report"
+                      aria-label="Print Report"
+                    >
+                      <Printer className="size-[18px] text-fg-tertiary dark:text-white" />
+                    </button>
                   </h1>
                 </div>
 
                 <div className="flex items-center space-x-3 flex-shrink-0">
                   {/* Action Buttons */}
                   <button
-                    onClick={checkSafety}
+                    onClick={runAnalysis}
                     disabled={
                       algorithmState.isCalculating || isProcessingRequest
                     }
@@ -501,7 +684,7 @@ export default function BankersAlgorithmPage() {
                     <span className="text-sm">
                       {algorithmState.isCalculating
                         ? 'Analyzing...'
-                        : 'Check Safety'}
+                        : analysisLabel}
                     </span>
                   </button>
 
@@ -574,12 +757,23 @@ export default function BankersAlgorithmPage() {
                 currentStepIndex={stepNavigationState.currentStepIndex}
                 onAllocationChange={updateAllocation}
                 onMaxChange={updateMax}
+                request={algorithmState.request}
+                mode={algorithmMode}
+                onModeChange={changeAlgorithmMode}
+                onRequestChange={updateRequest}
+                processNames={algorithmState.processNames}
+                resourceNames={algorithmState.resourceNames}
+                onProcessNameChange={updateProcessName}
+                onMatrixTextPaste={pasteMatrixText}
+                available={algorithmState.available}
+                isDarkMode={isDarkMode}
+                onImageExportError={handleImageExportError}
               />
 
               {/* Mobile Action Buttons */}
               <div className="sm:hidden flex flex-col gap-3">
                 <button
-                  onClick={checkSafety}
+                  onClick={runAnalysis}
                   disabled={algorithmState.isCalculating || isProcessingRequest}
                   className="w-full px-6 py-3 bg-black dark:bg-white hover:bg-gray-800 dark:hover:bg-gray-100 disabled:bg-gray-400 disabled:cursor-not-allowed text-white dark:text-black rounded-full font-medium transition-colors duration-200 flex items-center justify-center space-x-2 touch-manipulation min-h-[48px]"
                 >
@@ -604,7 +798,7 @@ export default function BankersAlgorithmPage() {
                   <span className="text-sm">
                     {algorithmState.isCalculating
                       ? 'Calculating...'
-                      : 'Check Safety'}
+                      : analysisLabel}
                   </span>
                 </button>
 
@@ -639,6 +833,22 @@ export default function BankersAlgorithmPage() {
                 </div>
               </div>
 
+              {/* Resource-Allocation and Wait-For Graphs */}
+              <ResourceAllocationGraph
+                processCount={algorithmState.processCount}
+                resourceCount={algorithmState.resourceCount}
+                allocation={graphSystem.allocation}
+                demand={graphSystem.demand}
+                available={graphSystem.available}
+                finish={graphSystem.finish}
+                waitForGraph={waitForGraph}
+                mode={algorithmMode}
+                processNames={algorithmState.processNames}
+                resourceNames={algorithmState.resourceNames}
+                isDarkMode={isDarkMode}
+                onImageExportError={handleImageExportError}
+              />
+
               {/* Step-by-Step Results */}
               <StepByStepResults
                 steps={algorithmState.algorithmSteps}
@@ -652,6 +862,42 @@ export default function BankersAlgorithmPage() {
                 requestResult={requestResult}
                 onStepChange={handleStepChange}
                 currentStepIndex={stepNavigationState.currentStepIndex}
+                mode={algorithmMode}
+                deadlockedProcesses={deadlockedProcesses}
+                availableIncrease={availableIncrease}
+                processCount={algorithmState.processCount}
+                processNames={algorithmState.processNames}
+                resourceNames={algorithmState.resourceNames}
+                safetyOptions={safetyOptions}
+                onSafetyOptionsChange={changeSafetyOptions}
+                progress={taskProgress}
+                onCancel={cancelAnalysis}
+                traceSystem={traceSystem}
+                isDarkMode={isDarkMode}
+                onImageExportError={handleImageExportError}
+              />
+
+              {/* Recovery for unsafe or deadlocked systems */}
+              {algorithmState.isSafe === false &&
+                (!requestResult.isRequest || requestResult.wasGranted) &&
+                !algorithmState.isCalculating &&
+                !isProcessingRequest && (
+                  <RecoveryPanel
+                    processCount={algorithmState.processCount}
+                    processNames={algorithmState.processNames}
+                    resourceNames={algorithmState.resourceNames}
+                    mode={algorithmMode}
+                    onPlan={planRecovery}
+                    onApply={applyRecoveryPlan}
+                  />
+                )}
+
+              {/* All Safe Sequences */}
+              <SafeSequencesPanel
+                enumeration={safeSequenceEnumeration}
+                isCalculating={algorithmState.isCalculating}
+                isProcessingRequest={isProcessingRequest}
+                processNames={algorithmState.processNames}
               />
             </div>
 
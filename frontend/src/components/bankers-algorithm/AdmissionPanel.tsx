@@ -0,0 +1,194 @@
+'use client';
+
+import React, {useState, useEffect} from 'react';
+import {
+  defaultProcessName,
+  getProcessName,
+  getResourceName,
+} from '@/lib/system-labels';
+import {CONTROL_CONFIGS} from './constants';
+
+interface AdmissionPanelProps {
+  processCount: number;
+  resourceCount: number;
+  total: number[];
+  allocation: number[][];
+  processNames?: string[];
+  resourceNames?: string[];
+  onAdmit: (maxClaim: number[]) => void;
+  onRetire: (processId: number) => void;
+  isProcessing: boolean;
+  disabled?: boolean;
+}
+
+export const AdmissionPanel: React.FC<AdmissionPanelProps> = ({
+  processCount,
+  resourceCount,
+  total,
+  allocation,
+  processNames,
+  resourceNames,
+  onAdmit,
+  onRetire,
+  isProcessing,
+  disabled = false,
+}) => {
+  const isDisabled = disabled || isProcessing;
+  const [operation, setOperation] = useState<'admit' | 'retire'>('admit');
+  const [maxClaim, setMaxClaim] = useState<number[]>(() =>
+    Array(resourceCount).fill(0),
+  );
+  const [retiredProcess, setRetiredProcess] = useState(0);
+
+  useEffect(() => {
+    setMaxClaim((prev) =>
+      Array.from({length: resourceCount}, (_, j) => prev[j] ?? 0),
+    );
+  }, [resourceCount]);
+
+  useEffect(() => {
+    if (retiredProcess >= processCount) {
+      setRetiredProcess(processCount - 1);
+    }
+  }, [processCount, retiredProcess]);
+
+  const isAtProcessLimit = processCount >= CONTROL_CONFIGS.process.maxValue;
+  const isAtMinimum = processCount <= CONTROL_CONFIGS.process.minValue;
+
+  const handleSubmit = () => {
+    if (operation === 'admit') {
+      onAdmit([...maxClaim]);
+    } else {
+      onRetire(retiredProcess);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+          Admission Control
+        </h3>
+        <div
+          className="inline-flex p-0.5 rounded-full"
+          style={{backgroundColor: 'var(--need-bg, #f9fafb)'}}
+          role="tablist"
+          aria-label="Admission operation"
+        >
+          {(
+            [
+              ['admit', 'Admit'],
+              ['retire', 'Retire'],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              role="tab"
+              aria-selected={operation === value}
+              onClick={() => setOperation(value)}
+              disabled={isDisabled}
+              className={`px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                operation === value
+                  ? 'bg-white dark:bg-gray-700 shadow-sm text-gray-900 dark:text-gray-100'
+                  : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {operation === 'admit' ? (
+        <div className="grid grid-cols-3 gap-3">
+          {maxClaim.map((value, index) => (
+            <div key={index} className="space-y-1">
+              <label
+                htmlFor={`max-claim-${index}`}
+                className="text-sm font-medium text-center block"
+                style={{color: 'var(--text-secondary, #6b7280)'}}
+              >
+                {getResourceName(resourceNames, index)}
+                <span
+                  className={`ml-1 text-xs font-normal ${
+                    value > (total[index] ?? 0)
+                      ? 'text-red-500 dark:text-red-400'
+                      : ''
+                  }`}
+                  title="Total units of this resource"
+                >
+                  ≤ {total[index] ?? 0}
+                </span>
+              </label>
+              <input
+                id={`max-claim-${index}`}
+                type="text"
+                inputMode="numeric"
+                value={value.toString()}
+                onChange={(e) => {
+                  const parsed = parseInt(
+                    e.target.value.replace(/[^0-9]/g, ''),
+                  );
+                  setMaxClaim((prev) =>
+                    prev.map((current, j) =>
+                      j === index ? (isNaN(parsed) ? 0 : parsed) : current,
+                    ),
+                  );
+                }}
+                disabled={isDisabled}
+                className="w-full h-10 px-3 text-center text-sm border rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation font-medium"
+                style={{
+                  backgroundColor: 'var(--input-bg, #ffffff)',
+                  borderColor: 'var(--input-border, #e1e1e1)',
+                  color: 'var(--foreground)',
+                }}
+                aria-label={`Max claim of resource ${getResourceName(resourceNames, index)}`}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {Array.from({length: processCount}, (_, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => setRetiredProcess(i)}
+              disabled={isDisabled}
+              aria-pressed={retiredProcess === i}
+              title={`Holds (${(allocation[i] ?? []).join(', ')})`}
+              className={`px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                retiredProcess === i
+                  ? 'bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900'
+                  : 'text-gray-700 dark:text-gray-300'
+              }`}
+              style={
+                retiredProcess === i
+                  ? undefined
+                  : {backgroundColor: 'var(--button-bg, #f3f4f6)'}
+              }
+            >
+              {getProcessName(processNames, i)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={
+          isDisabled || (operation === 'admit' ? isAtProcessLimit : isAtMinimum)
+        }
+        className="w-full px-4 py-2.5 text-sm font-medium text-white bg-gray-900 dark:bg-gray-100 dark:text-gray-900 hover:bg-gray-800 dark:hover:bg-gray-200 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-full transition-colors duration-200 touch-manipulation"
+      >
+        {isProcessing
+          ? 'Processing...'
+          : operation === 'admit'
+            ? `Admit ${defaultProcessName(processCount)}`
+            : `Retire ${getProcessName(processNames, retiredProcess)}`}
+      </button>
+    </div>
+  );
+};
@@ -1,8 +1,57 @@
 'use client';
 
-import React, {useRef, useCallback} from 'react';
-import {AlgorithmStep} from '@/types/bankers-algorithm';
+import React, {useRef, useCallback, useMemo, useState} from 'react';
+import {Download, Upload} from 'lucide-react';
+import {
+  AlgorithmMode,
+  AlgorithmStep,
+  EditableMatrix,
+} from '@/types/bankers-algorithm';
+import {getVisibleRange, sliceRange, VisibleRange} from '@/lib/virtual-window';
+import {defaultProcessName, getResourceName} from '@/lib/system-labels';
+import {
+  CSV_FILE_EXTENSION,
+  CSV_FILE_TYPE,
+  formatMatrixCsv,
+  isMultiCellText,
+} from '@/lib/matrix-text';
+import {getTraceEventProcess} from '@/lib/trace-events';
+import {renderTableImage} from '@/lib/image-export';
+import {downloadFile} from '@/utils/download';
 import {AnimatedFinishBadge} from './AnimatedFinishBadge';
+import {ImageExportButtons} from './ImageExportButtons';
+import {NameInput} from './NameInput';
+
+type MatrixGroup = EditableMatrix | 'need';
+
+const MATRIX_LABELS: Record<MatrixGroup, string> = {
+  allocation: 'Allocation',
+  max: 'Max',
+  need: 'Need',
+  request: 'Request',
+};
+
+// Fixed cell sizes, so the rows and columns in view follow from the scroll
+// position alone
+const ROW_HEIGHT = 64;
+const GROUP_HEADER_HEIGHT = 44;
+const LABEL_HEADER_HEIGHT = 32;
+const HEADER_HEIGHT = GROUP_HEADER_HEIGHT + LABEL_HEADER_HEIGHT;
+const PROCESS_COLUMN_WIDTH = 112;
+const FINISH_COLUMN_WIDTH = 112;
+const RESOURCE_COLUMN_WIDTH = 80;
+
+// Extra rows and columns rendered past each edge of the viewport
+const ROW_OVERSCAN = 4;
+const COLUMN_OVERSCAN = 2;
+
+// Assumed viewport until the scroll container has been measured
+const DEFAULT_VIEWPORT = {width: 1024, height: 640};
+
+// Row dividers drawn inside the cells so every row is exactly ROW_HEIGHT
+const cellStyle: React.CSSProperties = {
+  boxShadow: 'inset 0 -1px 0 var(--table-border)',
+};
 
 interface AlgorithmTableProps {
   processCount: number;
@@ -21,8 +70,333 @@ interface AlgorithmTableProps {
     value: number,
   ) => void;
   onMaxChange: (process: number, resource: number, value: number) => void;
+  request?: number[][];
+  mode?: AlgorithmMode;
+  onModeChange?: (mode: AlgorithmMode) => void;
+  onRequestChange?: (process: number, resource: number, value: number) => void;
+  processNames?: string[];
+  resourceNames?: string[];
+  onProcessNameChange?: (process: number, name: string) => void;
+  // Fills a matrix from CSV or copied spreadsheet cells, from a cell or whole
+  onMatrixTextPaste?: (
+    matrix: EditableMatrix,
+    text: string,
+    at?: {process: number; resource: number},
+  ) => boolean;
+  // Exporting the table as an image needs Available and the theme
+  available?: number[];
+  isDarkMode?: boolean;
+  onImageExportError?: (error: Error) => void;
+}
+
+// Resource columns of one matrix that are in view, and the spacer widths
+// standing in for the rest
+interface GroupColumns {
+  group: MatrixGroup;
+  resources: number[];
+  leadingWidth: number;
+  trailingWidth: number;
+}
+
+function getGroupColumns(
+  groups: MatrixGroup[],
+  columnRange: VisibleRange,
+  resourceCount: number,
+): GroupColumns[] {
+  return groups.map((group, g) => {
+    const range = sliceRange(columnRange, g * resourceCount, resourceCount);
+    const resources = Array.from(
+      {length: range.end - range.start},
+      (_, k) => range.start + k,
+    );
+
+    // A group out of view collapses into one spacer
+    return resources.length > 0
+      ? {
+          group,
+          resources,
+          leadingWidth: range.start * RESOURCE_COLUMN_WIDTH,
+          trailingWidth: (resourceCount - range.end) * RESOURCE_COLUMN_WIDTH,
+        }
+      : {
+          group,
+          resources,
+          leadingWidth: resourceCount * RESOURCE_COLUMN_WIDTH,
+          trailingWidth: 0,
+        };
+  });
 }
 
+// Rendered cells of a group, spacers included
+const groupSpan = ({resources, leadingWidth, trailingWidth}: GroupColumns) =>
+  resources.length + (leadingWidth > 0 ? 1 : 0) + (trailingWidth > 0 ? 1 : 0);
+
+interface AlgorithmTableRowProps {
+  processIndex: number;
+  // Custom name, '' when the default label applies
+  processName: string;
+  resourceNames?: string[];
+  groupColumns: GroupColumns[];
+  allocationRow: number[];
+  maxRow: number[];
+  needRow: number[];
+  requestRow?: number[];
+  finished: boolean;
+  isHighlighted: boolean;
+  isDisabled: boolean;
+  algorithmSteps: AlgorithmStep[];
+  isCalculating: boolean;
+  currentStepIndex?: number;
+  onCellChange: (
+    type: EditableMatrix,
+    process: number,
+    resource: number,
+    value: number,
+  ) => void;
+  onSpinStart: (
+    type: EditableMatrix,
+    process: number,
+    resource: number,
+    increment: boolean,
+  ) => void;
+  onSpinStop: () => void;
+  onNameChange?: (process: number, name: string) => void;
+  onPaste?: AlgorithmTableProps['onMatrixTextPaste'];
+}
+
+/**
+ * One process row. Matrix rows are passed individually and compared by
+ * reference, so editing a cell only re-renders the row it belongs to.
+ */
+const AlgorithmTableRow = React.memo(function AlgorithmTableRow({
+  processIndex,
+  processName,
+  resourceNames,
+  groupColumns,
+  allocationRow,
+  maxRow,
+  needRow,
+  requestRow,
+  finished,
+  isHighlighted,
+  isDisabled,
+  algorithmSteps,
+  isCalculating,
+  currentStepIndex,
+  onCellChange,
+  onSpinStart,
+  onSpinStop,
+  onNameChange,
+  onPaste,
+}: AlgorithmTableRowProps) {
+  const defaultName = defaultProcessName(processIndex);
+
+  const rows: Record<EditableMatrix, number[] | undefined> = {
+    allocation: allocationRow,
+    max: maxRow,
+    request: requestRow,
+  };
+
+  // Sticky cells need an opaque background to cover scrolled cells
+  const stickyBackground = isHighlighted ? 'bg-gray-100 dark:bg-gray-800' : '';
+  const stickyStyle = isHighlighted
+    ? cellStyle
+    : {...cellStyle, backgroundColor: 'var(--table-bg)'};
+
+  // Editable cell shared by the Allocation, Max and Request matrices
+  const renderEditableCell = (type: EditableMatrix, resourceIndex: number) => (
+    <td key={`${type}-${resourceIndex}`} className="px-2" style={cellStyle}>
+      {/* Input field with spinner */}
+      <div className="relative group w-16 mx-auto">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={(rows[type]?.[resourceIndex] ?? 0).toString()}
+          onChange={(e) => {
+            const inputValue = e.target.value.replace(/[^0-9]/g, '');
+            const value = parseInt(inputValue) || 0;
+            onCellChange(
+              type,
+              processIndex,
+              resourceIndex,
+              Math.max(0, Math.min(999, value)),
+            );
+          }}
+          onPaste={(e) => {
+            // A single value is typed in as usual; a block of cells fills
+            // the grid from this cell
+            const text = e.clipboardData.getData('text/plain');
+            if (!onPaste || !isMultiCellText(text)) return;
+            e.preventDefault();
+            onPaste(type, text, {
+              process: processIndex,
+              resource: resourceIndex,
+            });
+          }}
+          disabled={isDisabled}
+          className="w-full h-10 px-3 text-center rounded-full bg-white text-gray-900 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-150 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{
+            border: '1px solid var(--table-border)',
+            backgroundColor: 'var(--input-bg, #ffffff)',
+            color: 'var(--foreground)',
+            borderRadius: '9999px',
+          }}
+          placeholder="0"
+          aria-label={`${MATRIX_LABELS[type]} of ${processName || defaultName}, resource ${getResourceName(resourceNames, resourceIndex)}`}
+        />
+        <div className="absolute right-0.5 top-1/2 -translate-y-1/2 flex-col opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200 hidden md:flex">
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onSpinStart(type, processIndex, resourceIndex, true);
+            }}
+            onMouseUp={onSpinStop}
+            onMouseLeave={onSpinStop}
+            onTouchStart={(e) => {
+              e.preventDefault();
+              onSpinStart(type, processIndex, resourceIndex, true);
+            }}
+            onTouchEnd={onSpinStop}
+            onTouchCancel={onSpinStop}
+            disabled={isDisabled}
+            className="h-4 w-6 flex items-center justify-center hover:bg-white/80 backdrop-blur-sm rounded-t disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent select-none"
+            aria-label="Increment"
+          >
+            <svg
+              width="12"
+              height="12"
+              viewBox="0 0 24 24"
+              fill="none"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                d="M18 15l-6-6-6 6"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onSpinStart(type, processIndex, resourceIndex, false);
+            }}
+            onMouseUp={onSpinStop}
+            onMouseLeave={onSpinStop}
+            onTouchStart={(e) => {
+              e.preventDefault();
+              onSpinStart(type, processIndex, resourceIndex, false);
+            }}
+            onTouchEnd={onSpinStop}
+            onTouchCancel={onSpinStop}
+            disabled={isDisabled}
+            className="h-4 w-6 flex items-center justify-center hover:bg-white/80 backdrop-blur-sm rounded-b disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent select-none"
+            aria-label="Decrement"
+          >
+            <svg
+              width="12"
+              height="12"
+              viewBox="0 0 24 24"
+              fill="none"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                d="M6 9l6 6 6-6"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+          </button>
+        </div>
+      </div>
+    </td>
+  );
+
+  // Read-only Need cell, same footprint as the input fields
+  const renderNeedCell = (resourceIndex: number) => (
+    <td key={`need-${resourceIndex}`} className="px-2" style={cellStyle}>
+      <div
+        className="w-16 h-10 px-3 mx-auto flex items-center justify-center rounded-full text-gray-900 text-sm font-medium"
+        style={{
+          backgroundColor: 'var(--need-bg, #f9fafb)',
+          color: 'var(--foreground)',
+          border: '1px solid var(--table-border)',
+          borderRadius: '9999px',
+        }}
+      >
+        {needRow[resourceIndex] ?? 0}
+      </div>
+    </td>
+  );
+
+  return (
+    <tr
+      aria-rowindex={processIndex + 3}
+      className={`transition-all duration-300 ${
+        isHighlighted
+          ? 'bg-gray-100 dark:bg-gray-800 ring-2 ring-gray-300 dark:ring-gray-600 ring-inset'
+          : ''
+      }`}
+      style={{height: ROW_HEIGHT}}
+    >
+      {/* Process name */}
+      <td
+        className={`sticky left-0 z-10 px-6 font-semibold text-gray-900 dark:text-gray-100 ${stickyBackground}`}
+        style={stickyStyle}
+      >
+        {onNameChange ? (
+          <NameInput
+            name={processName}
+            defaultName={defaultName}
+            onNameChange={(name) => onNameChange(processIndex, name)}
+            disabled={isDisabled}
+            ariaLabel={`Name of ${defaultName}`}
+            className="-mx-1 px-1 py-0.5"
+          />
+        ) : (
+          <span className="block truncate" title={processName || defaultName}>
+            {processName || defaultName}
+          </span>
+        )}
+      </td>
+
+      {groupColumns.map(({group, resources, leadingWidth, trailingWidth}) => (
+        <React.Fragment key={group}>
+          {leadingWidth > 0 && <td aria-hidden style={cellStyle} />}
+          {resources.map((resourceIndex) =>
+            group === 'need'
+              ? renderNeedCell(resourceIndex)
+              : renderEditableCell(group, resourceIndex),
+          )}
+          {trailingWidth > 0 && <td aria-hidden style={cellStyle} />}
+        </React.Fragment>
+      ))}
+
+      {/* Finish column */}
+      <td
+        className={`sticky right-0 z-10 px-6 ${stickyBackground}`}
+        style={stickyStyle}
+      >
+        <div className="flex justify-center">
+          <AnimatedFinishBadge
+            processIndex={processIndex}
+            finalFinishState={finished}
+            algorithmSteps={algorithmSteps}
+            isCalculating={isCalculating}
+            currentStepIndex={currentStepIndex}
+          />
+        </div>
+      </td>
+    </tr>
+  );
+});
+
 export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
   processCount,
   resourceCount,
@@ -36,20 +410,92 @@ export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
   currentStepIndex,
   onAllocationChange,
   onMaxChange,
+  request = [],
+  mode = 'avoidance',
+  onModeChange,
+  onRequestChange,
+  processNames,
+  resourceNames,
+  onProcessNameChange,
+  onMatrixTextPaste,
+  available,
+  isDarkMode = false,
+  onImageExportError,
 }) => {
-  const resourceLabels = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
   const isDisabled = isCalculating || isProcessingRequest;
+  const matrices: Record<MatrixGroup, number[][]> = {
+    allocation,
+    max,
+    need,
+    request,
+  };
+
+  // Matrix a CSV file is being picked for
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importTargetRef = useRef<EditableMatrix | null>(null);
+
+  const handleExport = (group: MatrixGroup) => {
+    downloadFile(
+      `${group}${CSV_FILE_EXTENSION}`,
+      formatMatrixCsv(matrices[group], processNames, resourceNames),
+      CSV_FILE_TYPE,
+    );
+  };
+
+  const handleImportClick = (group: EditableMatrix) => {
+    importTargetRef.current = group;
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const group = importTargetRef.current;
+    // Let the same file be picked again once it is fixed
+    e.target.value = '';
+    if (!file || !group) return;
+
+    onMatrixTextPaste?.(group, await file.text());
+  };
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const allocationRef = useRef(allocation);
-  const maxRef = useRef(max);
+  const matricesRef = useRef({allocation, max, request});
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({
+    scrollTop: 0,
+    scrollLeft: 0,
+    ...DEFAULT_VIEWPORT,
+  });
+
+  // Track the size of the scroll container
+  React.useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    const measure = () =>
+      setViewport((prev) =>
+        prev.width === container.clientWidth &&
+        prev.height === container.clientHeight
+          ? prev
+          : {
+              ...prev,
+              width: container.clientWidth,
+              height: container.clientHeight,
+            },
+      );
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
   // Update refs when values change
   React.useEffect(() => {
-    allocationRef.current = allocation;
-    maxRef.current = max;
-  }, [allocation, max]);
+    matricesRef.current = {allocation, max, request};
+  }, [allocation, max, request]);
 
   const clearTimers = useCallback(() => {
     if (intervalRef.current) {
@@ -71,7 +517,7 @@ export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
 
   const handleMouseDown = useCallback(
     (
-      type: 'allocation' | 'max',
+      type: EditableMatrix,
       processIdx: number,
       resourceIdx: number,
       increment: boolean,
@@ -80,11 +526,17 @@ export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
 
       clearTimers();
 
-      const onChange = type === 'allocation' ? onAllocationChange : onMaxChange;
-      const currentMatrix = type === 'allocation' ? allocationRef : maxRef;
+      const onChange =
+        type === 'allocation'
+          ? onAllocationChange
+          : type === 'max'
+            ? onMaxChange
+            : onRequestChange;
+      if (!onChange) return;
 
       // Immediate action
-      const initialValue = currentMatrix.current[processIdx][resourceIdx];
+      const initialValue =
+        matricesRef.current[type][processIdx]?.[resourceIdx] ?? 0;
       const newValue = increment
         ? Math.min(999, initialValue + 1)
         : Math.max(0, initialValue - 1);
@@ -93,7 +545,8 @@ export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
       // Start continuous increment/decrement after delay
       timeoutRef.current = setTimeout(() => {
         intervalRef.current = setInterval(() => {
-          const currentValue = currentMatrix.current[processIdx][resourceIdx];
+          const currentValue =
+            matricesRef.current[type][processIdx]?.[resourceIdx] ?? 0;
           const nextValue = increment
             ? Math.min(999, currentValue + 1)
             : Math.max(0, currentValue - 1);
@@ -101,22 +554,101 @@ export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
         }, 80);
       }, 400);
     },
-    [isDisabled, onAllocationChange, onMaxChange, clearTimers],
+    [isDisabled, onAllocationChange, onMaxChange, onRequestChange, clearTimers],
   );
 
   const handleMouseUp = useCallback(() => {
     clearTimers();
   }, [clearTimers]);
 
+  const handleCellChange = useCallback(
+    (
+      type: EditableMatrix,
+      processIdx: number,
+      resourceIdx: number,
+      value: number,
+    ) => {
+      const onChange =
+        type === 'allocation'
+          ? onAllocationChange
+          : type === 'max'
+            ? onMaxChange
+            : onRequestChange;
+      onChange?.(processIdx, resourceIdx, value);
+    },
+    [onAllocationChange, onMaxChange, onRequestChange],
+  );
+
   // Get the process being checked at the current step
-  const currentProcessChecked =
-    currentStepIndex !== undefined && algorithmSteps[currentStepIndex]
-      ? algorithmSteps[currentStepIndex].processChecked
+  const currentStep =
+    currentStepIndex !== undefined
+      ? algorithmSteps[currentStepIndex]
       : undefined;
-  const currentProcessIndex = currentProcessChecked
-    ? parseInt(currentProcessChecked.replace('P', ''))
+  const currentProcessIndex = currentStep
+    ? getTraceEventProcess(currentStep.event)
     : undefined;
 
+  // Keep the process being checked in view while stepping
+  React.useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || currentProcessIndex === undefined) return;
+
+    const rowTop = currentProcessIndex * ROW_HEIGHT;
+    const bodyHeight = container.clientHeight - HEADER_HEIGHT;
+    if (
+      rowTop < container.scrollTop ||
+      rowTop + ROW_HEIGHT > container.scrollTop + bodyHeight
+    ) {
+      container.scrollTop = Math.max(0, rowTop - (bodyHeight - ROW_HEIGHT) / 2);
+    }
+  }, [currentProcessIndex]);
+
+  // Only the rows and resource columns in view are rendered; spacers keep
+  // the scroll size of the full table
+  const groups = useMemo<MatrixGroup[]>(
+    () =>
+      mode === 'detection'
+        ? ['allocation', 'request']
+        : ['allocation', 'max', 'need'],
+    [mode],
+  );
+  const rowRange = getVisibleRange(
+    viewport.scrollTop,
+    viewport.height - HEADER_HEIGHT,
+    ROW_HEIGHT,
+    processCount,
+    ROW_OVERSCAN,
+  );
+  const {start: columnStart, end: columnEnd} = getVisibleRange(
+    viewport.scrollLeft,
+    viewport.width - PROCESS_COLUMN_WIDTH - FINISH_COLUMN_WIDTH,
+    RESOURCE_COLUMN_WIDTH,
+    groups.length * resourceCount,
+    COLUMN_OVERSCAN,
+  );
+  // Kept stable while scrolling within the same columns, so rows can skip
+  // re-rendering
+  const groupColumns = useMemo(
+    () =>
+      getGroupColumns(
+        groups,
+        {start: columnStart, end: columnEnd},
+        resourceCount,
+      ),
+    [groups, columnStart, columnEnd, resourceCount],
+  );
+  const columnCount =
+    2 + groupColumns.reduce((sum, columns) => sum + groupSpan(columns), 0);
+  const tableWidth =
+    PROCESS_COLUMN_WIDTH +
+    groups.length * resourceCount * RESOURCE_COLUMN_WIDTH +
+    FINISH_COLUMN_WIDTH;
+
+  const headerStyle = {
+    ...cellStyle,
+    backgroundColor: 'var(--table-bg)',
+  };
+
   return (
     <div
       className="bg-white rounded-xl overflow-hidden"
@@ -125,408 +657,263 @@ export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
         border: '1px solid var(--table-border)',
       }}
     >
-      <div className="overflow-x-hidden">
+      {(onModeChange || available) && (
+        <div className="flex flex-wrap items-center justify-end gap-3 px-6 pt-4">
+          {available && (
+            <ImageExportButtons
+              onError={onImageExportError}
+              fileName="bankers-table"
+              subject="the table"
+              render={() =>
+                renderTableImage(
+                  {
+                    mode,
+                    allocation,
+                    max,
+                    need,
+                    request,
+                    available,
+                    finish,
+                    highlightedProcess: currentProcessIndex,
+                    processNames,
+                    resourceNames,
+                  },
+                  isDarkMode,
+                )
+              }
+            />
+          )}
+
+          {/* View toggle: Max/Need (avoidance) or Request (detection) */}
+          {onModeChange && (
+            <div
+              className="inline-flex p-1 rounded-full"
+              style={{backgroundColor: 'var(--need-bg, #f9fafb)'}}
+              role="tablist"
+              aria-label="Matrix view"
+            >
+              {(
+                [
+                  ['avoidance', 'Max / Need'],
+                  ['detection', 'Request'],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="tab"
+                  aria-selected={mode === value}
+                  onClick={() => onModeChange(value)}
+                  disabled={isDisabled}
+                  className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                    mode === value
+                      ? 'bg-white dark:bg-gray-700 shadow-sm text-gray-900 dark:text-gray-100'
+                      : 'text-gray-500 dark:text-gray-400'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {onMatrixTextPaste && (
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${CSV_FILE_EXTENSION},${CSV_FILE_TYPE},.tsv,.txt`}
+          onChange={handleFileChange}
+          className="hidden"
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+      )}
+
+      <div
+        ref={scrollRef}
+        className="overflow-auto max-h-[70vh]"
+        onScroll={(e) => {
+          const {scrollTop, scrollLeft} = e.currentTarget;
+          setViewport((prev) =>
+            prev.scrollTop === scrollTop && prev.scrollLeft === scrollLeft
+              ? prev
+              : {...prev, scrollTop, scrollLeft},
+          );
+        }}
+      >
         <table
-          className="w-full bg-white"
+          className="bg-white"
+          aria-rowcount={processCount + 2}
           style={{
             backgroundColor: 'var(--table-bg)',
+            tableLayout: 'fixed',
+            width: tableWidth,
             minWidth: '100%',
           }}
         >
+          <colgroup>
+            <col style={{width: PROCESS_COLUMN_WIDTH}} />
+            {groupColumns.map(
+              ({group, resources, leadingWidth, trailingWidth}) => (
+                <React.Fragment key={group}>
+                  {leadingWidth > 0 && <col style={{width: leadingWidth}} />}
+                  {resources.map((resourceIndex) => (
+                    <col
+                      key={resourceIndex}
+                      style={{width: RESOURCE_COLUMN_WIDTH}}
+                    />
+                  ))}
+                  {trailingWidth > 0 && <col style={{width: trailingWidth}} />}
+                </React.Fragment>
+              ),
+            )}
+            <col style={{width: FINISH_COLUMN_WIDTH}} />
+          </colgroup>
+
           <thead>
-            {/* Main header row */}
-            <tr style={{borderBottom: '1px solid var(--table-border)'}}>
-              <th className="text-left px-6 py-4 font-semibold text-gray-900 dark:text-gray-100 min-w-[100px]">
+            {/* Matrix names */}
+            <tr aria-rowindex={1} style={{height: GROUP_HEADER_HEIGHT}}>
+              <th
+                rowSpan={2}
+                className="sticky top-0 left-0 z-30 text-left px-6 font-semibold text-gray-900 dark:text-gray-100"
+                style={headerStyle}
+              >
                 Processes
               </th>
-              <th className="text-center px-4 py-4 font-semibold text-gray-900 dark:text-gray-100">
-                Allocation
-              </th>
-              <th className="text-center px-4 py-4 font-semibold text-gray-900 dark:text-gray-100">
-                Max
-              </th>
-              <th className="text-center px-4 py-4 font-semibold text-gray-900 dark:text-gray-100">
-                Need
-              </th>
-              <th className="text-center px-6 py-4 font-semibold text-gray-900 dark:text-gray-100 min-w-[100px]">
+              {groupColumns.map((columns) => (
+                <th
+                  key={columns.group}
+                  colSpan={groupSpan(columns)}
+                  className="sticky top-0 z-20 text-left font-semibold text-gray-900 dark:text-gray-100"
+                  style={headerStyle}
+                >
+                  {/* Keeps the name in view while its columns scroll */}
+                  <span
+                    className="sticky inline-flex items-center gap-1 px-4"
+                    style={{left: PROCESS_COLUMN_WIDTH}}
+                  >
+                    {MATRIX_LABELS[columns.group]}
+                    <button
+                      type="button"
+                      onClick={() => handleExport(columns.group)}
+                      className="btn-hover ml-1 w-6 h-6 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 transition-colors"
+                      title={`Export ${MATRIX_LABELS[columns.group]} as CSV`}
+                      aria-label={`Export ${MATRIX_LABELS[columns.group]} as CSV`}
+                    >
+                      <Download className="size-3.5" />
+                    </button>
+                    {onMatrixTextPaste && columns.group !== 'need' && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          handleImportClick(columns.group as EditableMatrix)
+                        }
+                        disabled={isDisabled}
+                        className="btn-hover w-6 h-6 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={`Import ${MATRIX_LABELS[columns.group]} from CSV`}
+                        aria-label={`Import ${MATRIX_LABELS[columns.group]} from CSV`}
+                      >
+                        <Upload className="size-3.5" />
+                      </button>
+                    )}
+                  </span>
+                </th>
+              ))}
+              <th
+                rowSpan={2}
+                className="sticky top-0 right-0 z-30 text-center px-6 font-semibold text-gray-900 dark:text-gray-100"
+                style={headerStyle}
+              >
                 Finish
               </th>
             </tr>
+
+            {/* Resource labels */}
+            <tr aria-rowindex={2} style={{height: LABEL_HEADER_HEIGHT}}>
+              {groupColumns.map(
+                ({group, resources, leadingWidth, trailingWidth}) => (
+                  <React.Fragment key={group}>
+                    {leadingWidth > 0 && (
+                      <th
+                        aria-hidden
+                        className="sticky z-20"
+                        style={{...headerStyle, top: GROUP_HEADER_HEIGHT}}
+                      />
+                    )}
+                    {resources.map((resourceIndex) => (
+                      <th
+                        key={resourceIndex}
+                        className="sticky z-20 px-1 text-xs font-medium text-center truncate"
+                        style={{
+                          ...headerStyle,
+                          top: GROUP_HEADER_HEIGHT,
+                          color: 'var(--text-secondary, #6b7280)',
+                        }}
+                        title={getResourceName(resourceNames, resourceIndex)}
+                      >
+                        {getResourceName(resourceNames, resourceIndex)}
+                      </th>
+                    ))}
+                    {trailingWidth > 0 && (
+                      <th
+                        aria-hidden
+                        className="sticky z-20"
+                        style={{...headerStyle, top: GROUP_HEADER_HEIGHT}}
+                      />
+                    )}
+                  </React.Fragment>
+                ),
+              )}
+            </tr>
           </thead>
 
           <tbody>
-            {Array.from({length: processCount}, (_, processIndex) => {
-              const isHighlighted = currentProcessIndex === processIndex;
+            {rowRange.start > 0 && (
+              <tr aria-hidden style={{height: rowRange.start * ROW_HEIGHT}}>
+                <td colSpan={columnCount} />
+              </tr>
+            )}
 
+            {Array.from({length: rowRange.end - rowRange.start}, (_, k) => {
+              const processIndex = rowRange.start + k;
               return (
-                <tr
+                <AlgorithmTableRow
                   key={processIndex}
-                  className={`transition-all duration-300 ${
-                    isHighlighted
-                      ? 'bg-gray-100 dark:bg-gray-800 ring-2 ring-gray-300 dark:ring-gray-600 ring-inset'
-                      : ''
-                  }`}
-                  style={{
-                    borderBottom:
-                      processIndex < processCount - 1
-                        ? '1px solid var(--table-border)'
-                        : 'none',
-                  }}
-                >
-                  {/* Process name */}
-                  <td className="px-6 py-6 font-semibold text-gray-900 dark:text-gray-100">
-                    P{processIndex}
-                  </td>
-
-                  {/* Allocation section */}
-                  <td className="px-4 py-6 text-center">
-                    <div className="flex flex-wrap gap-3 justify-center max-w-[240px] mx-auto">
-                      {Array.from(
-                        {length: resourceCount},
-                        (_, resourceIndex) => (
-                          <div
-                            key={`alloc-${resourceIndex}`}
-                            className="flex flex-col items-center"
-                          >
-                            {/* Resource label positioned at top center */}
-                            <div
-                              className="text-xs font-medium mb-2"
-                              style={{
-                                color: 'var(--text-secondary, #6b7280)',
-                              }}
-                            >
-                              {resourceLabels[resourceIndex] ||
-                                `R${resourceIndex}`}
-                            </div>
-                            {/* Input field with spinner */}
-                            <div className="relative group w-16">
-                              <input
-                                type="text"
-                                inputMode="numeric"
-                                value={allocation[processIndex][
-                                  resourceIndex
-                                ].toString()}
-                                onChange={(e) => {
-                                  const inputValue = e.target.value.replace(
-                                    /[^0-9]/g,
-                                    '',
-                                  );
-                                  const value = parseInt(inputValue) || 0;
-                                  onAllocationChange(
-                                    processIndex,
-                                    resourceIndex,
-                                    Math.max(0, Math.min(999, value)),
-                                  );
-                                }}
-                                disabled={isDisabled}
-                                className="w-full h-10 px-3 text-center rounded-full bg-white text-gray-900 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-150 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                                style={{
-                                  border: '1px solid var(--table-border)',
-                                  backgroundColor: 'var(--input-bg, #ffffff)',
-                                  color: 'var(--foreground)',
-                                  borderRadius: '9999px',
-                                }}
-                                placeholder="0"
-                              />
-                              <div className="absolute right-0.5 top-1/2 -translate-y-1/2 flex-col opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200 hidden md:flex">
-                                <button
-                                  type="button"
-                                  onMouseDown={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'allocation',
-                                      processIndex,
-                                      resourceIndex,
-                                      true,
-                                    );
-                                  }}
-                                  onMouseUp={handleMouseUp}
-                                  onMouseLeave={handleMouseUp}
-                                  onTouchStart={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'allocation',
-                                      processIndex,
-                                      resourceIndex,
-                                      true,
-                                    );
-                                  }}
-                                  onTouchEnd={handleMouseUp}
-                                  onTouchCancel={handleMouseUp}
-                                  disabled={isDisabled}
-                                  className="h-4 w-6 flex items-center justify-center hover:bg-white/80 backdrop-blur-sm rounded-t disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent select-none"
-                                  aria-label="Increment"
-                                >
-                                  <svg
-                                    width="12"
-                                    height="12"
-                                    viewBox="0 0 24 24"
-                                    fill="none"
-                                    xmlns="http://www.w3.org/2000/svg"
-                                  >
-                                    <path
-                                      d="M18 15l-6-6-6 6"
-                                      stroke="currentColor"
-                                      strokeWidth="2"
-                                      strokeLinecap="round"
-                                      strokeLinejoin="round"
-                                    />
-                                  </svg>
-                                </button>
-                                <button
-                                  type="button"
-                                  onMouseDown={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'allocation',
-                                      processIndex,
-                                      resourceIndex,
-                                      false,
-                                    );
-                                  }}
-                                  onMouseUp={handleMouseUp}
-                                  onMouseLeave={handleMouseUp}
-                                  onTouchStart={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'allocation',
-                                      processIndex,
-                                      resourceIndex,
-                                      false,
-                                    );
-                                  }}
-                                  onTouchEnd={handleMouseUp}
-                                  onTouchCancel={handleMouseUp}
-                                  disabled={isDisabled}
-                                  className="h-4 w-6 flex items-center justify-center hover:bg-white/80 backdrop-blur-sm rounded-b disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent select-none"
-                                  aria-label="Decrement"
-                                >
-                                  <svg
-                                    width="12"
-                                    height="12"
-                                    viewBox="0 0 24 24"
-                                    fill="none"
-                                    xmlns="http://www.w3.org/2000/svg"
-                                  >
-                                    <path
-                                      d="M6 9l6 6 6-6"
-                                      stroke="currentColor"
-                                      strokeWidth="2"
-                                      strokeLinecap="round"
-                                      strokeLinejoin="round"
-                                    />
-                                  </svg>
-                                </button>
-                              </div>
-                            </div>
-                          </div>
-                        ),
-                      )}
-                    </div>
-                  </td>
-
-                  {/* Max section */}
-                  <td className="px-4 py-6 text-center">
-                    <div className="flex flex-wrap gap-3 justify-center max-w-[240px] mx-auto">
-                      {Array.from(
-                        {length: resourceCount},
-                        (_, resourceIndex) => (
-                          <div
-                            key={`max-${resourceIndex}`}
-                            className="flex flex-col items-center"
-                          >
-                            {/* Resource label positioned at top center */}
-                            <div
-                              className="text-xs font-medium mb-2"
-                              style={{
-                                color: 'var(--text-secondary, #6b7280)',
-                              }}
-                            >
-                              {resourceLabels[resourceIndex] ||
-                                `R${resourceIndex}`}
-                            </div>
-                            {/* Input field with spinner */}
-                            <div className="relative group w-16">
-                              <input
-                                type="text"
-                                inputMode="numeric"
-                                value={max[processIndex][
-                                  resourceIndex
-                                ].toString()}
-                                onChange={(e) => {
-                                  const inputValue = e.target.value.replace(
-                                    /[^0-9]/g,
-                                    '',
-                                  );
-                                  const value = parseInt(inputValue) || 0;
-                                  onMaxChange(
-                                    processIndex,
-                                    resourceIndex,
-                                    Math.max(0, Math.min(999, value)),
-                                  );
-                                }}
-                                disabled={isDisabled}
-                                className="w-full h-10 px-3 text-center rounded-full bg-white text-gray-900 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors duration-150 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
-                                style={{
-                                  border: '1px solid var(--table-border)',
-                                  backgroundColor: 'var(--input-bg, #ffffff)',
-                                  color: 'var(--foreground)',
-                                  borderRadius: '9999px',
-                                }}
-                                placeholder="0"
-                              />
-                              <div className="absolute right-0.5 top-1/2 -translate-y-1/2 flex-col opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200 hidden md:flex">
-                                <button
-                                  type="button"
-                                  onMouseDown={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'max',
-                                      processIndex,
-                                      resourceIndex,
-                                      true,
-                                    );
-                                  }}
-                                  onMouseUp={handleMouseUp}
-                                  onMouseLeave={handleMouseUp}
-                                  onTouchStart={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'max',
-                                      processIndex,
-                                      resourceIndex,
-                                      true,
-                                    );
-                                  }}
-                                  onTouchEnd={handleMouseUp}
-                                  onTouchCancel={handleMouseUp}
-                                  disabled={isDisabled}
-                                  className="h-4 w-6 flex items-center justify-center hover:bg-white/80 backdrop-blur-sm rounded-t disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent select-none"
-                                  aria-label="Increment"
-                                >
-                                  <svg
-                                    width="12"
-                                    height="12"
-                                    viewBox="0 0 24 24"
-                                    fill="none"
-                                    xmlns="http://www.w3.org/2000/svg"
-                                  >
-                                    <path
-                                      d="M18 15l-6-6-6 6"
-                                      stroke="currentColor"
-                                      strokeWidth="2"
-                                      strokeLinecap="round"
-                                      strokeLinejoin="round"
-                                    />
-                                  </svg>
-                                </button>
-                                <button
-                                  type="button"
-                                  onMouseDown={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'max',
-                                      processIndex,
-                                      resourceIndex,
-                                      false,
-                                    );
-                                  }}
-                                  onMouseUp={handleMouseUp}
-                                  onMouseLeave={handleMouseUp}
-                                  onTouchStart={(e) => {
-                                    e.preventDefault();
-                                    handleMouseDown(
-                                      'max',
-                                      processIndex,
-                                      resourceIndex,
-                                      false,
-                                    );
-                                  }}
-                                  onTouchEnd={handleMouseUp}
-                                  onTouchCancel={handleMouseUp}
-                                  disabled={isDisabled}
-                                  className="h-4 w-6 flex items-center justify-center hover:bg-white/80 backdrop-blur-sm rounded-b disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-transparent select-none"
-                                  aria-label="Decrement"
-                                >
-                                  <svg
-                                    width="12"
-                                    height="12"
-                                    viewBox="0 0 24 24"
-                                    fill="none"
-                                    xmlns="http://www.w3.org/2000/svg"
-                                  >
-                                    <path
-                                      d="M6 9l6 6 6-6"
-                                      stroke="currentColor"
-                                      strokeWidth="2"
-                                      strokeLinecap="round"
-                                      strokeLinejoin="round"
-                                    />
-                                  </svg>
-                                </button>
-                              </div>
-                            </div>
-                          </div>
-                        ),
-                      )}
-                    </div>
-                  </td>
-
-                  {/* Need section */}
-                  <td className="px-4 py-6 text-center">
-                    <div className="flex flex-wrap gap-3 justify-center max-w-[240px] mx-auto">
-                      {Array.from(
-                        {length: resourceCount},
-                        (_, resourceIndex) => (
-                          <div
-                            key={`need-${resourceIndex}`}
-                            className="flex flex-col items-center"
-                          >
-                            {/* Resource label positioned at top center */}
-                            <div
-                              className="text-xs font-medium mb-2"
-                              style={{
-                                color: 'var(--text-secondary, #6b7280)',
-                              }}
-                            >
-                              {resourceLabels[resourceIndex] ||
-                                `R${resourceIndex}`}
-                            </div>
-                            {/* Read-only field - same container as input fields */}
-                            <div className="relative group w-16">
-                              <div
-                                className="w-full h-10 px-3 flex items-center justify-center rounded-full text-gray-900 text-sm font-medium"
-                                style={{
-                                  backgroundColor: 'var(--need-bg, #f9fafb)',
-                                  color: 'var(--foreground)',
-                                  border: '1px solid var(--table-border)',
-                                  borderRadius: '9999px',
-                                }}
-                              >
-                                {need[processIndex][resourceIndex]}
-                              </div>
-                            </div>
-                          </div>
-                        ),
-                      )}
-                    </div>
-                  </td>
-
-                  {/* Finish column */}
-                  <td className="px-6 py-6 text-center">
-                    <div className="flex justify-center">
-                      <AnimatedFinishBadge
-                        processIndex={processIndex}
-                        finalFinishState={finish[processIndex]}
-                        algorithmSteps={algorithmSteps}
-                        isCalculating={isCalculating}
-                        currentStepIndex={currentStepIndex}
-                      />
-                    </div>
-                  </td>
-                </tr>
+                  processIndex={processIndex}
+                  processName={processNames?.[processIndex] ?? ''}
+                  resourceNames={resourceNames}
+                  groupColumns={groupColumns}
+                  allocationRow={allocation[processIndex]}
+                  maxRow={max[processIndex]}
+                  needRow={need[processIndex]}
+                  requestRow={request[processIndex]}
+                  finished={finish[processIndex]}
+                  isHighlighted={currentProcessIndex === processIndex}
+                  isDisabled={isDisabled}
+                  algorithmSteps={algorithmSteps}
+                  isCalculating={isCalculating}
+                  currentStepIndex={currentStepIndex}
+                  onCellChange={handleCellChange}
+                  onSpinStart={handleMouseDown}
+                  onSpinStop={handleMouseUp}
+                  onNameChange={onProcessNameChange}
+                  onPaste={onMatrixTextPaste}
+                />
               );
             })}
+
+            {rowRange.end < processCount && (
+              <tr
+                aria-hidden
+                style={{
+                  height: (processCount - rowRange.end) * ROW_HEIGHT,
+                }}
+              >
+                <td colSpan={columnCount} />
+              </tr>
+            )}
           </tbody>
         </table>
       </div>
@@ -535,22 +922,6 @@ export const AlgorithmTable: React.FC<AlgorithmTableProps> = ({
 };
 
 // Memoized export to prevent unnecessary re-renders
-// Custom comparison ensures references are compared correctly
-export default React.memo(AlgorithmTable, (prevProps, nextProps) => {
-  return (
-    prevProps.processCount === nextProps.processCount &&
-    prevProps.resourceCount === nextProps.resourceCount &&
-    prevProps.isCalculating === nextProps.isCalculating &&
-    prevProps.isProcessingRequest === nextProps.isProcessingRequest &&
-    prevProps.currentStepIndex === nextProps.currentStepIndex &&
-    prevProps.onAllocationChange === nextProps.onAllocationChange &&
-    prevProps.onMaxChange === nextProps.onMaxChange &&
-    // Deep comparison for arrays (matrices change less frequently)
-    JSON.stringify(prevProps.allocation) ===
-      JSON.stringify(nextProps.allocation) &&
-    JSON.stringify(prevProps.max) === JSON.stringify(nextProps.max) &&
-    JSON.stringify(prevProps.need) === JSON.stringify(nextProps.need) &&
-    JSON.stringify(prevProps.finish) === JSON.stringify(nextProps.finish) &&
-    prevProps.algorithmSteps.length === nextProps.algorithmSteps.length
-  );
-});
+// Matrices are structurally shared, so the default shallow comparison of
+// props is enough
+export default React.memo(AlgorithmTable);
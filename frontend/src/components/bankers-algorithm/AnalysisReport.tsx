@@ -0,0 +1,200 @@
+'use client';
+
+import React, {useMemo} from 'react';
+import {AlgorithmMode, AlgorithmStep} from '@/types/bankers-algorithm';
+import {BankersAlgorithmCalculator} from '@/lib/bankers-algorithm-calculator';
+import {buildAnalysisReport} from '@/lib/analysis-report';
+import {Scenario} from '@/lib/scenario';
+import {describeTraceEvent} from '@/lib/trace-events';
+
+interface AnalysisReportProps {
+  calculator: BankersAlgorithmCalculator;
+  // System as entered, not the step being inspected
+  scenario: Scenario;
+  mode: AlgorithmMode;
+  steps: AlgorithmStep[];
+  safeSequence: string[];
+  isSafe?: boolean;
+  // Processes the last analysis finished
+  finish: boolean[];
+  deadlockedProcesses?: string[];
+}
+
+// Resources past which a matrix is printed in smaller type to fit the page
+const COMPACT_RESOURCE_COUNT = 20;
+
+const formatVector = (vector: number[]) => `(${vector.join(', ')})`;
+
+const cellClassName = 'border border-gray-400 px-2 py-1';
+
+const Section: React.FC<{
+  title: string;
+  className?: string;
+  children: React.ReactNode;
+}> = ({title, className = '', children}) => (
+  <section className={`mt-6 ${className}`}>
+    <h2 className="text-base font-semibold mb-2">{title}</h2>
+    {children}
+  </section>
+);
+
+/**
+ * The analysis laid out for paper: the scenario, statistics, verdict and
+ * step trace. Only shown when printing
+ */
+export const AnalysisReport: React.FC<AnalysisReportProps> = ({
+  calculator,
+  scenario,
+  mode,
+  steps,
+  safeSequence,
+  isSafe,
+  finish,
+  deadlockedProcesses,
+}) => {
+  const {processCount, resourceCount, processNames} = scenario;
+
+  const report = useMemo(
+    () =>
+      buildAnalysisReport(calculator, {
+        scenario,
+        mode,
+        steps,
+        safeSequence,
+        isSafe,
+        finish,
+        deadlockedProcesses,
+      }),
+    [
+      calculator,
+      scenario,
+      mode,
+      steps,
+      safeSequence,
+      isSafe,
+      finish,
+      deadlockedProcesses,
+    ],
+  );
+  const hasAnalysis = steps.length > 0;
+
+  return (
+    <div className="hidden print:block text-[10pt] text-black bg-white">
+      <header>
+        <h1 className="text-xl font-semibold">
+          Banker&apos;s Algorithm Analysis Report
+        </h1>
+        <p>
+          {processCount} {processCount === 1 ? 'process' : 'processes'},{' '}
+          {resourceCount} {resourceCount === 1 ? 'resource' : 'resources'} ·{' '}
+          {mode === 'detection' ? 'Deadlock detection' : 'Deadlock avoidance'} ·{' '}
+          {new Date().toLocaleString()}
+        </p>
+      </header>
+
+      <Section title="Scenario">
+        {report.matrices.map(({name, rows}) => (
+          <div key={name} className="mt-4 first:mt-0">
+            <h3 className="font-semibold mb-1">{name}</h3>
+            <table
+              className={`border-collapse tabular-nums text-center ${
+                resourceCount > COMPACT_RESOURCE_COUNT ? 'text-[7pt]' : ''
+              }`}
+            >
+              <thead>
+                <tr>
+                  <th className={`${cellClassName} text-left`}>Process</th>
+                  {report.resources.map((resource, j) => (
+                    <th key={j} className={cellClassName}>
+                      {resource}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => (
+                  <tr key={i}>
+                    <td className={`${cellClassName} text-left`}>
+                      {report.processes[i]}
+                    </td>
+                    {row.map((units, j) => (
+                      <td key={j} className={cellClassName}>
+                        {units}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </Section>
+
+      <Section title="Statistics" className="break-inside-avoid">
+        <table className="border-collapse tabular-nums text-center">
+          <thead>
+            <tr>
+              <th className={`${cellClassName} text-left`}>Resource</th>
+              <th className={cellClassName}>Total</th>
+              <th className={cellClassName}>Allocated</th>
+              <th className={cellClassName}>Available</th>
+              <th className={cellClassName}>Utilization</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.statistics.map((row, j) => (
+              <tr key={j}>
+                <td className={`${cellClassName} text-left`}>{row.resource}</td>
+                <td className={cellClassName}>{row.total}</td>
+                <td className={cellClassName}>{row.allocated}</td>
+                <td className={cellClassName}>{row.available}</td>
+                <td className={cellClassName}>{row.utilization.toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report.completedProcesses !== null && (
+          <p className="mt-2">
+            {report.completedProcesses} of {processCount} processes finished in
+            the analysis.
+          </p>
+        )}
+      </Section>
+
+      <Section title="Result" className="break-inside-avoid">
+        <p>{report.verdict}</p>
+      </Section>
+
+      {hasAnalysis && (
+        <Section title="Step Trace" className="break-before-page">
+          <table className="w-full border-collapse tabular-nums">
+            <thead>
+              <tr>
+                <th className={`${cellClassName} text-right`}>Step</th>
+                <th className={`${cellClassName} text-left`}>Event</th>
+                <th className={`${cellClassName} text-left`}>Work</th>
+              </tr>
+            </thead>
+            <tbody>
+              {steps.map((step, index) => (
+                <tr key={index}>
+                  <td className={`${cellClassName} text-right align-top`}>
+                    {step.stepNumber}
+                  </td>
+                  <td className={`${cellClassName} whitespace-pre-line`}>
+                    {describeTraceEvent(step.event, processNames)}
+                  </td>
+                  <td
+                    className={`${cellClassName} align-top whitespace-nowrap`}
+                  >
+                    {formatVector(step.workVector)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Section>
+      )}
+    </div>
+  );
+};
@@ -62,42 +62,20 @@ export const AnimatedFinishBadge: React.FC<AnimatedFinishBadgeProps> = ({
           // Wait for the step to appear (400ms delay as in StepByStepResults)
           await new Promise((resolve) => setTimeout(resolve, 400));
 
-          // Debug logging
-          console.log(`P${processIndex} - Step ${i + 1}:`, {
-            description: step.description,
-            processChecked: step.processChecked,
-            canFinish: step.canFinish,
-          });
-
-          // Check for process finishing step (step 3 with resource allocation)
-          const isProcessFinishingStep =
-            step.stepNumber === 3 &&
-            step.processChecked &&
-            step.canFinish === true &&
-            (step.description.includes('work =') ||
-              step.description.includes('Work ='));
-
-          if (isProcessFinishingStep && step.processChecked) {
-            const processName = step.processChecked;
-            const processNum = parseInt(processName.replace('P', ''));
-
-            console.log(
-              `P${processIndex} - Found finishing step for ${processName} (${processNum})`,
-            );
-
-            // If this is our process, mark it as finished with animation
-            if (processNum === processIndex) {
-              console.log(`P${processIndex} - Animating finish!`);
-              setCurrentFinishState(true);
-              setIsAnimating(true);
-
-              // Remove bounce animation after completion, keep the badge visible
-              animationRef.current = setTimeout(() => {
-                setIsAnimating(false);
-              }, 800); // Match animation duration
-
-              break; // Exit loop once this process is finished
-            }
+          // The release step is where the process finishes
+          if (
+            step.event.kind === 'finish' &&
+            step.event.process === processIndex
+          ) {
+            setCurrentFinishState(true);
+            setIsAnimating(true);
+
+            // Remove bounce animation after completion, keep the badge visible
+            animationRef.current = setTimeout(() => {
+              setIsAnimating(false);
+            }, 800); // Match animation duration
+
+            break; // Exit loop once this process is finished
           }
         }
       };
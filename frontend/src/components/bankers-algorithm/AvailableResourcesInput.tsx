@@ -1,13 +1,21 @@
 'use client';
 
 import React, {useState, useRef, useCallback} from 'react';
+import {defaultResourceName, getResourceName} from '@/lib/system-labels';
+import {NameInput} from './NameInput';
 
 interface AvailableResourcesInputProps {
   available: number[];
+  total?: number[];
   onAvailableChange: (index: number, value: number) => void;
+  onTotalChange?: (index: number, value: number) => void;
   disabled?: boolean;
+  resourceNames?: string[];
+  onResourceNameChange?: (index: number, name: string) => void;
 }
 
+type ResourceVector = 'available' | 'total';
+
 interface ValidationError {
   index: number;
   message: string;
@@ -15,11 +23,26 @@ interface ValidationError {
 
 export const AvailableResourcesInput: React.FC<
   AvailableResourcesInputProps
-> = ({available, onAvailableChange, disabled = false}) => {
+> = ({
+  available,
+  total,
+  onAvailableChange,
+  onTotalChange,
+  disabled = false,
+  resourceNames,
+  onResourceNameChange,
+}) => {
   const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [editedVector, setEditedVector] = useState<ResourceVector>('available');
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const availableRef = useRef(available);
+
+  // Edit either vector; the hook keeps the other one consistent
+  const canEditTotal = total !== undefined && onTotalChange !== undefined;
+  const isEditingTotal = canEditTotal && editedVector === 'total';
+  const values = isEditingTotal ? total : available;
+  const onValueChange = isEditingTotal ? onTotalChange : onAvailableChange;
+  const valuesRef = useRef(values);
 
   const validateInput = (index: number, value: number): string | null => {
     if (isNaN(value)) {
@@ -49,14 +72,14 @@ export const AvailableResourcesInput: React.FC<
 
     // Only update the value if it's valid
     if (!validationError) {
-      onAvailableChange(index, numericValue);
+      onValueChange(index, numericValue);
     }
   };
 
   const handleInputBlur = (index: number, inputValue: string) => {
     // On blur, ensure we have a valid value even if there was an error
     const numericValue = Math.max(0, parseInt(inputValue) || 0);
-    onAvailableChange(index, numericValue);
+    onValueChange(index, numericValue);
 
     // Clear any errors for this field
     setErrors((prevErrors) =>
@@ -88,35 +111,35 @@ export const AvailableResourcesInput: React.FC<
       clearTimers();
 
       // Immediate action on mouse down
-      const initialValue = availableRef.current[idx];
+      const initialValue = valuesRef.current[idx];
       const newValue = increment
         ? initialValue + 1
         : Math.max(0, initialValue - 1);
-      onAvailableChange(idx, newValue);
+      onValueChange(idx, newValue);
 
       // Start continuous increment/decrement after delay
       timeoutRef.current = setTimeout(() => {
         intervalRef.current = setInterval(() => {
           // Get the latest value from ref
-          const currentValue = availableRef.current[idx];
+          const currentValue = valuesRef.current[idx];
           const nextValue = increment
             ? currentValue + 1
             : Math.max(0, currentValue - 1);
-          onAvailableChange(idx, nextValue);
+          onValueChange(idx, nextValue);
         }, 80); // Repeat every 80ms for smoother experience
       }, 400); // Start repeating after 400ms hold
     },
-    [onAvailableChange, disabled, clearTimers],
+    [onValueChange, disabled, clearTimers],
   );
 
   const handleMouseUp = useCallback(() => {
     clearTimers();
   }, [clearTimers]);
 
-  // Update ref when available changes
+  // Update ref when the edited values change
   React.useEffect(() => {
-    availableRef.current = available;
-  }, [available]);
+    valuesRef.current = values;
+  }, [values]);
 
   // Cleanup on unmount
   React.useEffect(() => {
@@ -127,33 +150,69 @@ export const AvailableResourcesInput: React.FC<
 
   return (
     <div className="space-y-2">
-      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-        Available
-      </label>
+      {canEditTotal ? (
+        <div
+          className="inline-flex p-0.5 rounded-full"
+          style={{backgroundColor: 'var(--need-bg, #f9fafb)'}}
+          role="tablist"
+          aria-label="Resource vector"
+        >
+          {(
+            [
+              ['available', 'Available'],
+              ['total', 'Total'],
+            ] as const
+          ).map(([vector, label]) => (
+            <button
+              key={vector}
+              type="button"
+              role="tab"
+              aria-selected={editedVector === vector}
+              onClick={() => {
+                setEditedVector(vector);
+                setErrors([]);
+              }}
+              disabled={disabled}
+              className={`px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                editedVector === vector
+                  ? 'bg-white dark:bg-gray-700 shadow-sm text-gray-900 dark:text-gray-100'
+                  : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Available
+        </label>
+      )}
       <div className="grid grid-cols-3 gap-3">
-        {available.map((value, index) => {
+        {values.map((value, index) => {
           const error = getErrorForIndex(index);
-          const resourceLabels = [
-            'A',
-            'B',
-            'C',
-            'D',
-            'E',
-            'F',
-            'G',
-            'H',
-            'I',
-            'J',
-          ];
+          const resourceName = getResourceName(resourceNames, index);
           return (
             <div key={index} className="space-y-1">
-              <label
-                className="text-sm font-medium text-center block"
-                style={{color: 'var(--text-secondary, #6b7280)'}}
-                htmlFor={`available-resource-${index}`}
-              >
-                {resourceLabels[index] || `R${index}`}
-              </label>
+              {onResourceNameChange ? (
+                <NameInput
+                  name={resourceNames?.[index] ?? ''}
+                  defaultName={defaultResourceName(index)}
+                  onNameChange={(name) => onResourceNameChange(index, name)}
+                  disabled={disabled}
+                  ariaLabel={`Name of resource ${defaultResourceName(index)}`}
+                  className="block text-sm font-medium text-center text-gray-500 dark:text-gray-400"
+                />
+              ) : (
+                <label
+                  className="text-sm font-medium text-center block truncate"
+                  style={{color: 'var(--text-secondary, #6b7280)'}}
+                  htmlFor={`available-resource-${index}`}
+                  title={resourceName}
+                >
+                  {resourceName}
+                </label>
+              )}
               <div className="relative group">
                 <input
                   id={`available-resource-${index}`}
@@ -182,7 +241,9 @@ export const AvailableResourcesInput: React.FC<
                     color: 'var(--foreground)',
                     borderRadius: '9999px',
                   }}
-                  aria-label={`Available resources for resource type ${index}`}
+                  aria-label={`${
+                    isEditingTotal ? 'Total' : 'Available'
+                  } resources for resource ${resourceName}`}
                   aria-describedby={error ? `error-${index}` : undefined}
                 />
                 <div className="absolute right-0.5 top-1/2 -translate-y-1/2 flex-col opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200 hidden md:flex">
@@ -256,6 +317,16 @@ export const AvailableResourcesInput: React.FC<
                   </button>
                 </div>
               </div>
+              {canEditTotal && !error && (
+                <p
+                  className="text-xs text-center"
+                  style={{color: 'var(--text-secondary, #6b7280)'}}
+                >
+                  {isEditingTotal
+                    ? `${available[index]} free`
+                    : `of ${total[index]}`}
+                </p>
+              )}
               {error && (
                 <p
                   id={`error-${index}`}
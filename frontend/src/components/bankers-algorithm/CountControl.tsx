@@ -173,6 +173,20 @@ export const CountControl: React.FC<CountControlProps> = ({
     isHoldingRef.current = false;
   };
 
+  // Typed counts, committed (clamped) on blur or Enter
+  const [draftCount, setDraftCount] = React.useState<string | null>(null);
+
+  const commitDraftCount = () => {
+    if (draftCount === null) return;
+    const parsed = parseInt(draftCount);
+    setDraftCount(null);
+    if (isNaN(parsed)) return;
+    const nextCount = Math.max(minValue, Math.min(maxValue, parsed));
+    if (nextCount !== count) {
+      onCountChange(nextCount);
+    }
+  };
+
   const accessibleLabel = ariaLabel || label.toLowerCase();
 
   return (
@@ -195,12 +209,23 @@ export const CountControl: React.FC<CountControlProps> = ({
         >
           <Minus className="h-4 w-4" strokeWidth={2.5} />
         </button>
-        <span
-          className="w-8 text-center text-lg font-semibold text-gray-900 dark:text-gray-100"
+        <input
+          type="text"
+          inputMode="numeric"
+          value={draftCount ?? count.toString()}
+          onChange={(e) => setDraftCount(e.target.value.replace(/[^0-9]/g, ''))}
+          onBlur={commitDraftCount}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.currentTarget.blur();
+            } else if (e.key === 'Escape') {
+              setDraftCount(null);
+            }
+          }}
+          disabled={disabled}
+          className="w-12 text-center text-lg font-semibold text-gray-900 dark:text-gray-100 bg-transparent rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed"
           aria-label={`Current ${accessibleLabel} count: ${count}`}
-        >
-          {count}
-        </span>
+        />
         <button
           onClick={handleClick('increment')}
           onMouseDown={handleMouseDown('increment')}
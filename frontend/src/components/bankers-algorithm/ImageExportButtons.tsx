@@ -0,0 +1,84 @@
+'use client';
+
+import React from 'react';
+import {ImageDown} from 'lucide-react';
+import {
+  PNG_FILE_EXTENSION,
+  PNG_FILE_TYPE,
+  SVG_FILE_EXTENSION,
+  SVG_FILE_TYPE,
+  SvgImage,
+} from '@/lib/image-export';
+import {downloadFile} from '@/utils/download';
+import {svgToPng} from '@/utils/svg-image';
+
+interface ImageExportButtonsProps {
+  // File name without its extension
+  fileName: string;
+  // What is exported, for the button titles, e.g. 'the table'
+  subject: string;
+  // Drawn when a button is clicked, so the image shows the current view
+  render: () => SvgImage | null;
+  // Shown before the format, for buttons next to other exports
+  label?: string;
+  // Rendering the PNG failed
+  onError?: (error: Error) => void;
+}
+
+/**
+ * SVG and PNG download buttons for a view of the page
+ */
+export const ImageExportButtons: React.FC<ImageExportButtonsProps> = ({
+  fileName,
+  subject,
+  render,
+  label,
+  onError,
+}) => {
+  const handleExport = (
+    e: React.MouseEvent<HTMLButtonElement>,
+    format: 'SVG' | 'PNG',
+  ) => {
+    // Exporting keeps the step being inspected
+    e.stopPropagation();
+    const image = render();
+    if (!image) return;
+
+    if (format === 'SVG') {
+      downloadFile(
+        `${fileName}${SVG_FILE_EXTENSION}`,
+        image.markup,
+        SVG_FILE_TYPE,
+      );
+      return;
+    }
+    svgToPng(image)
+      .then((png) =>
+        downloadFile(`${fileName}${PNG_FILE_EXTENSION}`, png, PNG_FILE_TYPE),
+      )
+      .catch((error) =>
+        onError?.(error instanceof Error ? error : new Error(String(error))),
+      );
+  };
+
+  return (
+    <div className="flex gap-2">
+      {(['SVG', 'PNG'] as const).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={(e) => handleExport(e, format)}
+          className="btn-hover h-8 px-3 inline-flex items-center gap-1.5 text-xs font-medium border rounded-full transition-colors"
+          style={{
+            borderColor: 'var(--input-border, #e1e1e1)',
+            color: 'var(--foreground)',
+          }}
+          title={`Export ${subject} as ${format}`}
+        >
+          <ImageDown className="size-3.5" />
+          {label ? `${label} ${format}` : format}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import {MAX_NAME_LENGTH} from '@/lib/system-labels';
+
+interface NameInputProps {
+  // Custom name, '' when the default label applies
+  name: string;
+  defaultName: string;
+  onNameChange: (name: string) => void;
+  disabled?: boolean;
+  ariaLabel: string;
+  className?: string;
+}
+
+/**
+ * Label that can be renamed in place
+ * Commits on blur or Enter, Escape restores the current name, and clearing
+ * the field restores the default label
+ */
+export const NameInput: React.FC<NameInputProps> = ({
+  name,
+  defaultName,
+  onNameChange,
+  disabled = false,
+  ariaLabel,
+  className = '',
+}) => {
+  const [draftName, setDraftName] = React.useState<string | null>(null);
+
+  const commitDraftName = () => {
+    if (draftName === null) return;
+    setDraftName(null);
+    if (draftName !== name) {
+      onNameChange(draftName);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={draftName ?? name}
+      placeholder={defaultName}
+      maxLength={MAX_NAME_LENGTH}
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={commitDraftName}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.currentTarget.blur();
+        } else if (e.key === 'Escape') {
+          setDraftName(null);
+        }
+      }}
+      disabled={disabled}
+      title={name || defaultName}
+      className={`min-w-0 w-full truncate bg-transparent rounded-md placeholder:text-current focus:placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed ${className}`}
+      aria-label={ariaLabel}
+    />
+  );
+};
@@ -0,0 +1,282 @@
+'use client';
+
+import React, {useState, useEffect, useRef} from 'react';
+import {
+  AlgorithmMode,
+  RecoveryCost,
+  RecoveryOptions,
+  RecoveryPlan,
+  RecoveryStrategy,
+} from '@/types/bankers-algorithm';
+import {
+  getProcessName,
+  getProcessNameById,
+  getResourceName,
+  parseProcessId,
+} from '@/lib/system-labels';
+
+interface RecoveryPanelProps {
+  processCount: number;
+  processNames?: string[];
+  resourceNames?: string[];
+  mode?: AlgorithmMode;
+  onPlan: (
+    options: Omit<RecoveryOptions, 'mode'>,
+  ) => Promise<RecoveryPlan | null>;
+  onApply: (plan: RecoveryPlan) => void;
+  disabled?: boolean;
+}
+
+const STRATEGY_OPTIONS = [
+  ['terminate', 'Terminate'],
+  ['preempt', 'Preempt'],
+] as const;
+
+const COST_OPTIONS = [
+  ['heldUnits', 'Held units'],
+  ['priority', 'Priority'],
+  ['remainingNeed', 'Remaining need'],
+] as const;
+
+export const RecoveryPanel: React.FC<RecoveryPanelProps> = ({
+  processCount,
+  processNames,
+  resourceNames,
+  mode = 'avoidance',
+  onPlan,
+  onApply,
+  disabled = false,
+}) => {
+  const [strategy, setStrategy] = useState<RecoveryStrategy>('terminate');
+  const [cost, setCost] = useState<RecoveryCost>('heldUnits');
+  const [priorities, setPriorities] = useState<number[]>(() =>
+    Array(processCount).fill(1),
+  );
+  const [plan, setPlan] = useState<RecoveryPlan | null | undefined>(undefined);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const planRequestRef = useRef(0);
+
+  // A plan only applies to the state it was made for
+  useEffect(() => {
+    planRequestRef.current++;
+    setPlan(undefined);
+  }, [onPlan, strategy, cost, priorities]);
+
+  useEffect(() => {
+    setPriorities((prev) =>
+      Array.from({length: processCount}, (_, i) => prev[i] ?? 1),
+    );
+  }, [processCount]);
+
+  const handlePlan = () => {
+    const planRequest = ++planRequestRef.current;
+    const isCurrent = () => planRequest === planRequestRef.current;
+
+    setIsPlanning(true);
+    onPlan({strategy, cost, priorities})
+      .then(
+        (result) => isCurrent() && setPlan(result),
+        () => isCurrent() && setPlan(undefined),
+      )
+      .finally(() => setIsPlanning(false));
+  };
+
+  const renderToggle = <T extends string>(
+    options: ReadonlyArray<readonly [T, string]>,
+    value: T,
+    onChange: (value: T) => void,
+    label: string,
+  ) => (
+    <div
+      className="inline-flex p-1 rounded-full"
+      style={{backgroundColor: 'var(--need-bg, #f9fafb)'}}
+      role="tablist"
+      aria-label={label}
+    >
+      {options.map(([optionValue, optionLabel]) => (
+        <button
+          key={optionValue}
+          type="button"
+          role="tab"
+          aria-selected={value === optionValue}
+          onClick={() => onChange(optionValue)}
+          disabled={disabled}
+          className={`px-4 py-1.5 text-sm font-medium rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+            value === optionValue
+              ? 'bg-white dark:bg-gray-700 shadow-sm text-gray-900 dark:text-gray-100'
+              : 'text-gray-500 dark:text-gray-400'
+          }`}
+        >
+          {optionLabel}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div
+      className="bg-white rounded-xl overflow-hidden"
+      style={{
+        backgroundColor: 'var(--table-bg)',
+        border: '1px solid var(--table-border)',
+      }}
+    >
+      <div className="p-6">
+        {/* Panel Header */}
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Recovery
+          </h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {mode === 'detection'
+              ? 'Choose victims whose resources break the deadlock.'
+              : 'Choose victims whose resources make the system safe again.'}
+          </p>
+        </div>
+
+        {/* Options */}
+        <div className="flex flex-wrap items-center gap-3">
+          {renderToggle(STRATEGY_OPTIONS, strategy, setStrategy, 'Strategy')}
+          {renderToggle(COST_OPTIONS, cost, setCost, 'Cost')}
+        </div>
+
+        {/* Priorities */}
+        {cost === 'priority' && (
+          <div className="mt-4 flex flex-wrap gap-3">
+            {priorities.map((priority, i) => (
+              <label
+                key={i}
+                className="flex items-center gap-2 text-sm font-medium"
+                style={{color: 'var(--text-secondary, #6b7280)'}}
+              >
+                {getProcessName(processNames, i)}
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={priority.toString()}
+                  onChange={(e) => {
+                    const value = parseInt(
+                      e.target.value.replace(/[^0-9]/g, ''),
+                    );
+                    setPriorities((prev) =>
+                      prev.map((current, k) =>
+                        k === i ? (isNaN(value) ? 0 : value) : current,
+                      ),
+                    );
+                  }}
+                  disabled={disabled}
+                  className="w-14 h-8 px-2 text-center text-sm border rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{
+                    backgroundColor: 'var(--input-bg, #ffffff)',
+                    borderColor: 'var(--input-border, #e1e1e1)',
+                    color: 'var(--foreground)',
+                  }}
+                  aria-label={`Priority of ${getProcessName(processNames, i)}`}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handlePlan}
+          disabled={disabled || isPlanning}
+          className="mt-4 px-4 py-2 text-sm font-medium text-white bg-gray-900 dark:bg-gray-100 dark:text-gray-900 hover:bg-gray-800 dark:hover:bg-gray-200 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-full transition-colors duration-200"
+        >
+          {isPlanning ? 'Searching...' : 'Find plan'}
+        </button>
+
+        {/* Plan */}
+        {plan === null && (
+          <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            No plan found within the search limit.
+          </div>
+        )}
+
+        {plan && (
+          <div
+            className="mt-6 pt-4 space-y-3"
+            style={{borderTop: '1px solid var(--table-border)'}}
+          >
+            <div className="text-gray-900 dark:text-gray-100">
+              <span className="font-medium">
+                {plan.strategy === 'terminate' ? 'Terminate' : 'Preempt from'}
+                :{' '}
+              </span>
+              {plan.victims.length === 0 ? (
+                <span>nothing to do</span>
+              ) : (
+                <div className="inline-flex items-center gap-2 flex-wrap">
+                  {plan.victims.map((victim) => (
+                    <span
+                      key={victim}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+                    >
+                      {getProcessNameById(processNames, victim)}
+                      {plan.strategy === 'preempt' && (
+                        <span className="ml-1 font-mono">
+                          (
+                          {plan.preempted[parseProcessId(victim) ?? 0]
+                            .map((units, j) =>
+                              units > 0
+                                ? `${units} ${getResourceName(resourceNames, j)}`
+                                : null,
+                            )
+                            .filter(Boolean)
+                            .join(', ')}
+                          )
+                        </span>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {plan.preemptedUnits}{' '}
+              {plan.preemptedUnits === 1 ? 'unit' : 'units'} released • Cost{' '}
+              {plan.totalCost}
+              {plan.isOptimal ? '' : ' • Best found within the search limit'}
+            </div>
+
+            <div className="inline-flex items-center space-x-2 flex-wrap">
+              {plan.safeSequence.map((process, index) => (
+                <div
+                  key={process}
+                  className="inline-flex items-center space-x-2"
+                >
+                  <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                    {getProcessNameById(processNames, process)}
+                  </span>
+                  {index < plan.safeSequence.length - 1 && (
+                    <span className="text-green-600 dark:text-green-400 font-medium text-lg">
+                      →
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <button
+                type="button"
+                onClick={() => onApply(plan)}
+                disabled={disabled || plan.victims.length === 0}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-full transition-colors duration-200 disabled:bg-gray-200 disabled:cursor-not-allowed"
+                style={{
+                  backgroundColor: 'var(--button-bg, #ffffff)',
+                  borderColor: 'var(--button-border, #e1e1e1)',
+                  color: 'var(--foreground)',
+                }}
+              >
+                Apply plan
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,54 @@
 'use client';
 
-import React, {useState, useCallback, useRef} from 'react';
-import {ResourceRequest} from '@/types/bankers-algorithm';
+import React, {useState, useCallback, useMemo, useRef} from 'react';
+import {MaxSafeRequest, ResourceRequest} from '@/types/bankers-algorithm';
+import {getProcessName, getResourceName} from '@/lib/system-labels';
 
 interface RequestPanelProps {
   processCount: number;
   resourceCount: number;
   need: number[][];
   available: number[];
+  allocation?: number[][];
+  // Largest grantable requests of the process reported by onProcessSelect
+  maxSafeRequest?: MaxSafeRequest | null;
+  // Largest grantable requests are not searched for a system this large
+  isMaxSafeRequestOff?: boolean;
+  onProcessSelect?: (processId: number) => void;
+  processNames?: string[];
+  resourceNames?: string[];
   onRequestSubmit: (request: ResourceRequest) => void;
+  onReleaseSubmit?: (release: ResourceRequest) => void;
   isProcessing: boolean;
   disabled?: boolean;
   shouldResetAfterRequest?: boolean;
   onResetComplete?: () => void;
+  // Request to enter in place of the current one, e.g. from a shared link
+  presetRequest?: ResourceRequest | null;
+  onRequestChange?: (request: ResourceRequest | null) => void;
 }
 
 export const RequestPanel: React.FC<RequestPanelProps> = ({
   processCount,
   resourceCount,
+  allocation = [],
+  maxSafeRequest: searchedMaxSafeRequest = null,
+  isMaxSafeRequestOff = false,
+  onProcessSelect,
+  processNames,
+  resourceNames,
   onRequestSubmit,
+  onReleaseSubmit,
   isProcessing,
   disabled = false,
   shouldResetAfterRequest = false,
   onResetComplete,
+  presetRequest,
+  onRequestChange,
 }) => {
   const isDisabled = disabled || isProcessing;
+  const [operation, setOperation] = useState<'request' | 'release'>('request');
+  const isRelease = operation === 'release' && !!onReleaseSubmit;
 
   // Store request vectors for each process
   const [processRequestVectors, setProcessRequestVectors] = useState<
@@ -143,6 +167,26 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
     }
   }, [processCount, selectedProcess]);
 
+  // Enter a preset request once it is given
+  React.useEffect(() => {
+    if (!presetRequest) return;
+    setOperation('request');
+    setSelectedProcess(presetRequest.processId);
+    setRequestVector(presetRequest.requestVector);
+  }, [presetRequest]);
+
+  // Report the selected process, whose largest requests are searched
+  React.useEffect(() => {
+    onProcessSelect?.(selectedProcess);
+  }, [selectedProcess, onProcessSelect]);
+
+  // Report the request being entered; a release is not one
+  React.useEffect(() => {
+    onRequestChange?.(
+      isRelease ? null : {processId: selectedProcess, requestVector},
+    );
+  }, [isRelease, selectedProcess, requestVector, onRequestChange]);
+
   // Update ref when requestVector changes
   React.useEffect(() => {
     requestVectorRef.current = requestVector;
@@ -197,6 +241,19 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
     onResetComplete,
   ]);
 
+  const dismissValidationErrors = useCallback(() => {
+    if (mountValidationErrors) {
+      setShowValidationErrors(false);
+      if (unmountTimeoutRef.current) {
+        clearTimeout(unmountTimeoutRef.current);
+      }
+      unmountTimeoutRef.current = setTimeout(() => {
+        setMountValidationErrors(false);
+        setValidationErrors([]);
+      }, 500);
+    }
+  }, [mountValidationErrors]);
+
   const handleRequestVectorChange = useCallback(
     (index: number, value: string) => {
       const numValue = Math.max(0, parseInt(value) || 0);
@@ -207,20 +264,44 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
       });
 
       // Clear validation errors when user starts typing with smooth animation
-      if (mountValidationErrors) {
-        setShowValidationErrors(false);
-        if (unmountTimeoutRef.current) {
-          clearTimeout(unmountTimeoutRef.current);
-        }
-        unmountTimeoutRef.current = setTimeout(() => {
-          setMountValidationErrors(false);
-          setValidationErrors([]);
-        }, 500);
-      }
+      dismissValidationErrors();
+    },
+    [dismissValidationErrors],
+  );
+
+  // Largest grantable requests, once found for the selected process
+  const maxSafeRequest =
+    searchedMaxSafeRequest?.processId === selectedProcess
+      ? searchedMaxSafeRequest
+      : undefined;
+  const maximalRequests = useMemo(
+    () => maxSafeRequest?.maximalRequests ?? [],
+    [maxSafeRequest],
+  );
+  const fillIndexRef = useRef(0);
+
+  React.useEffect(() => {
+    fillIndexRef.current = 0;
+  }, [maxSafeRequest]);
+
+  const fillRequestVector = useCallback(
+    (vector: number[]) => {
+      setRequestVector(
+        Array.from({length: resourceCount}, (_, j) => vector[j] ?? 0),
+      );
+      dismissValidationErrors();
     },
-    [mountValidationErrors],
+    [resourceCount, dismissValidationErrors],
   );
 
+  // Repeated clicks cycle through the maximal requests
+  const handleFillMaxSafe = useCallback(() => {
+    if (maximalRequests.length === 0) return;
+    const index = fillIndexRef.current % maximalRequests.length;
+    fillIndexRef.current = index + 1;
+    fillRequestVector(maximalRequests[index]);
+  }, [maximalRequests, fillRequestVector]);
+
   const handleMouseDown = useCallback(
     (idx: number, increment: boolean) => {
       if (isDisabled) return;
@@ -264,14 +345,16 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
 
     // Check if all values are zero
     if (requestVector.every((value) => value === 0)) {
-      errors.push('Request must have at least one non-zero value');
+      errors.push(
+        `${isRelease ? 'Release' : 'Request'} must have at least one non-zero value`,
+      );
     }
 
     // Only validate basic constraints - let the algorithm handle resource availability and need validation
     // This allows testing requests that exceed available resources or declared needs
 
     return errors;
-  }, [requestVector]);
+  }, [requestVector, isRelease]);
 
   const handleSubmit = useCallback(() => {
     const errors = validateRequest();
@@ -289,8 +372,19 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
       requestVector: [...requestVector],
     };
 
-    onRequestSubmit(request);
-  }, [selectedProcess, requestVector, validateRequest, onRequestSubmit]);
+    if (isRelease) {
+      onReleaseSubmit?.(request);
+    } else {
+      onRequestSubmit(request);
+    }
+  }, [
+    selectedProcess,
+    requestVector,
+    validateRequest,
+    isRelease,
+    onReleaseSubmit,
+    onRequestSubmit,
+  ]);
 
   const handleReset = useCallback(() => {
     // Reset all process request vectors
@@ -303,22 +397,13 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
     }
 
     // Clear validation errors with smooth animation
-    if (mountValidationErrors) {
-      setShowValidationErrors(false);
-      if (unmountTimeoutRef.current) {
-        clearTimeout(unmountTimeoutRef.current);
-      }
-      unmountTimeoutRef.current = setTimeout(() => {
-        setMountValidationErrors(false);
-        setValidationErrors([]);
-      }, 500);
-    }
-  }, [resourceCount, mountValidationErrors]);
+    dismissValidationErrors();
+  }, [resourceCount, dismissValidationErrors]);
 
-  // Generate process options (P0, P1, P2, etc.)
+  // Generate process options (P0, P1, P2, etc., or their names)
   const processOptions = Array.from({length: processCount}, (_, i) => ({
     value: i,
-    label: `P${i}`,
+    label: getProcessName(processNames, i),
   }));
 
   const handleProcessSelect = (processId: number) => {
@@ -342,9 +427,45 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
 
   return (
     <div className="space-y-3">
-      <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">
-        Request Panel
-      </h3>
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+          Request Panel
+        </h3>
+        {onReleaseSubmit && (
+          <div
+            className="inline-flex p-0.5 rounded-full"
+            style={{backgroundColor: 'var(--need-bg, #f9fafb)'}}
+            role="tablist"
+            aria-label="Operation"
+          >
+            {(
+              [
+                ['request', 'Request'],
+                ['release', 'Release'],
+              ] as const
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                role="tab"
+                aria-selected={operation === value}
+                onClick={() => {
+                  setOperation(value);
+                  dismissValidationErrors();
+                }}
+                disabled={isDisabled}
+                className={`px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                  operation === value
+                    ? 'bg-white dark:bg-gray-700 shadow-sm text-gray-900 dark:text-gray-100'
+                    : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
 
       {/* Process Selection - Custom Dropdown */}
       <div className="space-y-1" ref={dropdownRef}>
@@ -361,7 +482,7 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
               color: 'var(--foreground)',
             }}
           >
-            <span className="text-base font-medium">
+            <span className="text-base font-medium truncate">
               {processOptions[selectedProcess]?.label}
             </span>
             {/* Chevron Icon */}
@@ -409,7 +530,7 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
                       animationDelay: `${index * 30}ms`,
                     }}
                   >
-                    <span className="text-base font-medium">
+                    <span className="text-base font-medium truncate">
                       {option.label}
                     </span>
                     {selectedProcess === option.value && (
@@ -442,18 +563,6 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
       <div className="space-y-2">
         <div className="grid grid-cols-3 gap-3">
           {requestVector.map((value, index) => {
-            const resourceLabels = [
-              'A',
-              'B',
-              'C',
-              'D',
-              'E',
-              'F',
-              'G',
-              'H',
-              'I',
-              'J',
-            ];
             return (
               <div key={index} className="space-y-1">
                 <label
@@ -461,7 +570,31 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
                   className="text-sm font-medium text-center block"
                   style={{color: 'var(--text-secondary, #6b7280)'}}
                 >
-                  {resourceLabels[index] || `R${index}`}
+                  {getResourceName(resourceNames, index)}
+                  {isRelease && allocation[selectedProcess] && (
+                    <span
+                      className={`ml-1 text-xs font-normal ${
+                        value > allocation[selectedProcess][index]
+                          ? 'text-red-500 dark:text-red-400'
+                          : ''
+                      }`}
+                      title="Units of this resource held by the process"
+                    >
+                      ≤ {allocation[selectedProcess][index]}
+                    </span>
+                  )}
+                  {!isRelease && maxSafeRequest && (
+                    <span
+                      className={`ml-1 text-xs font-normal ${
+                        value > maxSafeRequest.perResourceMax[index]
+                          ? 'text-red-500 dark:text-red-400'
+                          : ''
+                      }`}
+                      title="Largest safe request of this resource alone"
+                    >
+                      ≤ {maxSafeRequest.perResourceMax[index]}
+                    </span>
+                  )}
                 </label>
                 <div className="relative group">
                   <input
@@ -560,6 +693,57 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
         </div>
       </div>
 
+      {/* Maximal Safe Requests */}
+      {!isRelease && maxSafeRequest && (
+        <div className="flex items-start justify-between gap-3">
+          <div
+            className="flex flex-wrap gap-1.5 text-xs"
+            style={{color: 'var(--text-secondary, #6b7280)'}}
+          >
+            <span className="py-0.5">Max safe:</span>
+            {maximalRequests.length === 0 ? (
+              <span className="py-0.5">none</span>
+            ) : (
+              maximalRequests.slice(0, 4).map((vector) => (
+                <button
+                  key={vector.join(',')}
+                  type="button"
+                  onClick={() => fillRequestVector(vector)}
+                  disabled={isDisabled}
+                  className="btn-hover px-2 py-0.5 rounded-full font-mono transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{backgroundColor: 'var(--button-bg, #f3f4f6)'}}
+                >
+                  ({vector.join(', ')})
+                </button>
+              ))
+            )}
+            {maximalRequests.length > 4 && (
+              <span className="py-0.5">
+                +{maximalRequests.length - 4}
+                {maxSafeRequest.isTruncated ? '+' : ''} more
+              </span>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={handleFillMaxSafe}
+            disabled={isDisabled || maximalRequests.length === 0}
+            className="flex-shrink-0 py-0.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed disabled:no-underline"
+          >
+            Fill max safe
+          </button>
+        </div>
+      )}
+
+      {!isRelease && isMaxSafeRequestOff && (
+        <p
+          className="text-xs"
+          style={{color: 'var(--text-secondary, #6b7280)'}}
+        >
+          Max safe requests are not searched for a system this large.
+        </p>
+      )}
+
       {/* Validation Errors */}
       <div
         className={`overflow-hidden transition-all duration-500 ${
@@ -584,7 +768,7 @@ export const RequestPanel: React.FC<RequestPanelProps> = ({
           disabled={isDisabled}
           className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-gray-900 dark:bg-gray-100 dark:text-gray-900 hover:bg-gray-800 dark:hover:bg-gray-200 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-full transition-colors duration-200 touch-manipulation"
         >
-          {isProcessing ? 'Processing...' : 'Request'}
+          {isProcessing ? 'Processing...' : isRelease ? 'Release' : 'Request'}
         </button>
         <button
           onClick={handleReset}
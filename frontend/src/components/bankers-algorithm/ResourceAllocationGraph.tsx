@@ -0,0 +1,586 @@
+'use client';
+
+import React, {useId, useMemo, useRef, useState} from 'react';
+import {AlgorithmMode, WaitForGraph} from '@/types/bankers-algorithm';
+import {buildAllocationGraphEdges} from '@/lib/resource-graph';
+import {getProcessName, getResourceName} from '@/lib/system-labels';
+import {getImagePalette} from '@/lib/image-export';
+import {captureSvgElement} from '@/utils/svg-image';
+import {ImageExportButtons} from './ImageExportButtons';
+
+interface ResourceAllocationGraphProps {
+  processCount: number;
+  resourceCount: number;
+  allocation: number[][];
+  demand: number[][];
+  available: number[];
+  finish: boolean[];
+  // Built off the main thread; null while the first one is built
+  waitForGraph: WaitForGraph | null;
+  mode?: AlgorithmMode;
+  processNames?: string[];
+  resourceNames?: string[];
+  // Theme the graphs are exported in
+  isDarkMode?: boolean;
+  onImageExportError?: (error: Error) => void;
+}
+
+const NODE_RADIUS = 20;
+const ROW_SPACING = 64;
+const GRAPH_WIDTH = 520;
+const PROCESS_X = 90;
+const RESOURCE_X = GRAPH_WIDTH - 90;
+const RESOURCE_SIZE = 40;
+// Characters of a name that fit inside a node; longer names are cut short
+const NODE_LABEL_LENGTH = 5;
+// Larger systems are summarized unless drawing is asked for: their edges
+// run into the tens of thousands and cannot be told apart anyway
+const MAX_DRAWN_PROCESSES = 30;
+
+const EMPTY_WAIT_FOR_GRAPH: WaitForGraph = {edges: [], cycles: []};
+
+// Edges of a graph matrix: its non-zero cells
+const countEdges = (matrix: number[][]) =>
+  matrix.reduce(
+    (count, row) => count + row.filter((units) => units > 0).length,
+    0,
+  );
+
+type Point = {x: number; y: number};
+
+/**
+ * Label drawn inside a node, cut to NODE_LABEL_LENGTH characters
+ */
+function nodeLabel(name: string) {
+  return name.length > NODE_LABEL_LENGTH
+    ? `${name.slice(0, NODE_LABEL_LENGTH - 1)}…`
+    : name;
+}
+
+/**
+ * Quadratic curve between two points, bent sideways by `bend` pixels so that
+ * parallel edges (assignment and claim on the same pair) stay apart
+ */
+function curvedPath(from: Point, to: Point, bend: number) {
+  const midX = (from.x + to.x) / 2;
+  const midY = (from.y + to.y) / 2;
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const control = {
+    x: midX - (dy / length) * bend,
+    y: midY + (dx / length) * bend,
+  };
+
+  return {
+    d: `M ${from.x} ${from.y} Q ${control.x} ${control.y} ${to.x} ${to.y}`,
+    label: {
+      x: (from.x + 2 * control.x + to.x) / 4,
+      y: (from.y + 2 * control.y + to.y) / 4,
+    },
+  };
+}
+
+/**
+ * Moves `from` towards `to` by `distance`, so arrows stop at node borders
+ */
+function shorten(from: Point, to: Point, distance: number): Point {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return {
+    x: from.x + (dx / length) * distance,
+    y: from.y + (dy / length) * distance,
+  };
+}
+
+export const ResourceAllocationGraph: React.FC<
+  ResourceAllocationGraphProps
+> = ({
+  processCount,
+  resourceCount,
+  allocation,
+  demand,
+  available,
+  finish,
+  waitForGraph: builtWaitForGraph,
+  mode = 'avoidance',
+  processNames,
+  resourceNames,
+  isDarkMode = false,
+  onImageExportError,
+}) => {
+  const processName = (i: number) => getProcessName(processNames, i);
+  const resourceName = (j: number) => getResourceName(resourceNames, j);
+  const markerPrefix = `rag-${useId().replace(/[^a-zA-Z0-9]/g, '')}`;
+  const allocationGraphRef = useRef<SVGSVGElement>(null);
+  const waitForGraphRef = useRef<SVGSVGElement>(null);
+
+  // The graphs as drawn, colors of the current theme included
+  const captureGraph = (graph: React.RefObject<SVGSVGElement | null>) =>
+    graph.current
+      ? captureSvgElement(graph.current, getImagePalette(isDarkMode).background)
+      : null;
+
+  const [isDrawingRequested, setIsDrawingRequested] = useState(false);
+  const isSummarized =
+    processCount > MAX_DRAWN_PROCESSES && !isDrawingRequested;
+
+  const allocationEdges = useMemo(
+    () =>
+      isSummarized
+        ? []
+        : buildAllocationGraphEdges(
+            allocation,
+            demand,
+            finish,
+            mode === 'detection' ? 'request' : 'claim',
+          ),
+    [isSummarized, allocation, demand, finish, mode],
+  );
+
+  const waitForGraph = builtWaitForGraph ?? EMPTY_WAIT_FOR_GRAPH;
+
+  // Cycle each process belongs to; cycles never share a process
+  const cycleOf = useMemo(() => {
+    const cycles = new Map<number, number>();
+    waitForGraph.cycles.forEach((cycle, c) =>
+      cycle.forEach((i) => cycles.set(i, c)),
+    );
+    return cycles;
+  }, [waitForGraph]);
+
+  const isCycleEdge = (from: number, to: number) =>
+    cycleOf.has(from) && cycleOf.get(from) === cycleOf.get(to);
+
+  const demandLabel = mode === 'detection' ? 'Request' : 'Claim';
+
+  const cycleSummary = !builtWaitForGraph ? (
+    'Building the wait-for graph…'
+  ) : waitForGraph.cycles.length > 0 ? (
+    <span className="text-red-600 dark:text-red-400 font-medium">
+      Cycle:{' '}
+      {waitForGraph.cycles
+        .map((cycle) => cycle.map(processName).join(', '))
+        .join(' • ')}
+    </span>
+  ) : (
+    'No cycles'
+  );
+
+  if (isSummarized) {
+    const waitCount = waitForGraph.edges.filter(
+      (edge) => !edge.released,
+    ).length;
+
+    return (
+      <div
+        className="bg-white rounded-xl overflow-hidden"
+        style={{
+          backgroundColor: 'var(--table-bg)',
+          border: '1px solid var(--table-border)',
+        }}
+      >
+        <div className="p-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Resource-Allocation and Wait-For Graphs
+            </h2>
+            <button
+              type="button"
+              onClick={() => setIsDrawingRequested(true)}
+              className="btn-hover h-8 px-3 inline-flex items-center text-xs font-medium border rounded-full transition-colors"
+              style={{
+                borderColor: 'var(--input-border, #e1e1e1)',
+                color: 'var(--foreground)',
+              }}
+              title="Drawing this many processes may slow the page down"
+            >
+              Draw Graphs
+            </button>
+          </div>
+          <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+            {processCount} processes are too many to draw legibly, so the graphs
+            are summarized.
+          </p>
+          <ul className="mb-3 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+            <li>
+              {processCount} process and {resourceCount} resource nodes
+            </li>
+            <li>
+              {countEdges(allocation)} assignment and {countEdges(demand)}{' '}
+              {demandLabel.toLowerCase()} edges
+            </li>
+            {builtWaitForGraph && <li>{waitCount} wait-for edges</li>}
+          </ul>
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            {cycleSummary}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Resource-allocation graph layout: processes left, resources right
+  const rows = Math.max(processCount, resourceCount);
+  const ragHeight = rows * ROW_SPACING + 40;
+  const columnOffset = (count: number) =>
+    (ragHeight - (count - 1) * ROW_SPACING) / 2;
+  const processPoint = (i: number): Point => ({
+    x: PROCESS_X,
+    y: columnOffset(processCount) + i * ROW_SPACING,
+  });
+  const resourcePoint = (j: number): Point => ({
+    x: RESOURCE_X,
+    y: columnOffset(resourceCount) + j * ROW_SPACING,
+  });
+
+  // Wait-for graph layout: processes on a circle
+  const wfgSize = Math.max(240, processCount * 36 + 120);
+  const wfgRadius = processCount > 1 ? wfgSize / 2 - NODE_RADIUS - 30 : 0;
+  const wfgPoint = (i: number): Point => {
+    const angle = (2 * Math.PI * i) / Math.max(processCount, 1) - Math.PI / 2;
+    return {
+      x: wfgSize / 2 + wfgRadius * Math.cos(angle),
+      y: wfgSize / 2 + wfgRadius * Math.sin(angle),
+    };
+  };
+
+  return (
+    <div
+      className="bg-white rounded-xl overflow-hidden"
+      style={{
+        backgroundColor: 'var(--table-bg)',
+        border: '1px solid var(--table-border)',
+      }}
+    >
+      <div className="p-6">
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Resource-Allocation Graph */}
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                Resource-Allocation Graph
+              </h2>
+              <ImageExportButtons
+                onError={onImageExportError}
+                fileName="bankers-allocation-graph"
+                subject="the resource-allocation graph"
+                render={() => captureGraph(allocationGraphRef)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mb-4 text-xs text-gray-600 dark:text-gray-400">
+              <span className="inline-flex items-center gap-1.5">
+                <svg width="24" height="6" aria-hidden="true">
+                  <line
+                    x1="0"
+                    y1="3"
+                    x2="24"
+                    y2="3"
+                    className="stroke-gray-600 dark:stroke-gray-300"
+                    strokeWidth="2"
+                  />
+                </svg>
+                Assignment (R → P)
+              </span>
+              <span className="inline-flex items-center gap-1.5">
+                <svg width="24" height="6" aria-hidden="true">
+                  <line
+                    x1="0"
+                    y1="3"
+                    x2="24"
+                    y2="3"
+                    className="stroke-blue-500 dark:stroke-blue-400"
+                    strokeWidth="2"
+                    strokeDasharray={mode === 'detection' ? undefined : '5 4'}
+                  />
+                </svg>
+                {demandLabel} (P → R)
+              </span>
+            </div>
+
+            <svg
+              ref={allocationGraphRef}
+              viewBox={`0 0 ${GRAPH_WIDTH} ${ragHeight}`}
+              className="w-full h-auto"
+              role="img"
+              aria-label="Resource-allocation graph"
+            >
+              <defs>
+                <marker
+                  id={`${markerPrefix}-assignment`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="7"
+                  markerHeight="7"
+                  orient="auto-start-reverse"
+                >
+                  <path
+                    d="M 0 0 L 10 5 L 0 10 z"
+                    className="fill-gray-600 dark:fill-gray-300"
+                  />
+                </marker>
+                <marker
+                  id={`${markerPrefix}-demand`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="7"
+                  markerHeight="7"
+                  orient="auto-start-reverse"
+                >
+                  <path
+                    d="M 0 0 L 10 5 L 0 10 z"
+                    className="fill-blue-500 dark:fill-blue-400"
+                  />
+                </marker>
+              </defs>
+
+              {/* Edges */}
+              {allocationEdges.map((edge) => {
+                const processCenter = processPoint(edge.process);
+                const resourceCenter = resourcePoint(edge.resource);
+                const isAssignment = edge.kind === 'assignment';
+                const from = isAssignment ? resourceCenter : processCenter;
+                const to = isAssignment ? processCenter : resourceCenter;
+                const start = shorten(
+                  from,
+                  to,
+                  isAssignment ? RESOURCE_SIZE / 2 : NODE_RADIUS,
+                );
+                const end = shorten(
+                  to,
+                  from,
+                  isAssignment ? NODE_RADIUS + 2 : RESOURCE_SIZE / 2 + 2,
+                );
+                const {d, label} = curvedPath(start, end, 14);
+
+                return (
+                  <g
+                    key={`${edge.kind}-${edge.process}-${edge.resource}`}
+                    className="transition-opacity duration-500"
+                    style={{opacity: edge.released ? 0 : 1}}
+                  >
+                    <path
+                      d={d}
+                      fill="none"
+                      strokeWidth="2"
+                      className={
+                        isAssignment
+                          ? 'stroke-gray-600 dark:stroke-gray-300'
+                          : 'stroke-blue-500 dark:stroke-blue-400'
+                      }
+                      strokeDasharray={
+                        edge.kind === 'claim' ? '5 4' : undefined
+                      }
+                      markerEnd={`url(#${markerPrefix}-${
+                        isAssignment ? 'assignment' : 'demand'
+                      })`}
+                    />
+                    {edge.units > 1 && (
+                      <text
+                        x={label.x}
+                        y={label.y - 4}
+                        textAnchor="middle"
+                        className="text-[11px] font-medium fill-gray-600 dark:fill-gray-300"
+                      >
+                        ×{edge.units}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+
+              {/* Process nodes */}
+              {Array.from({length: processCount}, (_, i) => {
+                const {x, y} = processPoint(i);
+                return (
+                  <g key={`process-${i}`}>
+                    <circle
+                      cx={x}
+                      cy={y}
+                      r={NODE_RADIUS}
+                      strokeWidth="2"
+                      className={`transition-colors duration-500 ${
+                        finish[i]
+                          ? 'fill-green-100 stroke-green-500 dark:fill-green-900/40 dark:stroke-green-400'
+                          : 'fill-white stroke-gray-400 dark:fill-gray-900 dark:stroke-gray-500'
+                      }`}
+                    />
+                    <text
+                      x={x}
+                      y={y + 4}
+                      textAnchor="middle"
+                      className="text-xs font-semibold fill-gray-900 dark:fill-gray-100"
+                    >
+                      <title>{processName(i)}</title>
+                      {nodeLabel(processName(i))}
+                    </text>
+                  </g>
+                );
+              })}
+
+              {/* Resource nodes */}
+              {Array.from({length: resourceCount}, (_, j) => {
+                const {x, y} = resourcePoint(j);
+                return (
+                  <g key={`resource-${j}`}>
+                    <rect
+                      x={x - RESOURCE_SIZE / 2}
+                      y={y - RESOURCE_SIZE / 2}
+                      width={RESOURCE_SIZE}
+                      height={RESOURCE_SIZE}
+                      rx="8"
+                      strokeWidth="2"
+                      className="fill-gray-50 stroke-gray-400 dark:fill-gray-800 dark:stroke-gray-500"
+                    />
+                    <text
+                      x={x}
+                      y={y + 4}
+                      textAnchor="middle"
+                      className="text-xs font-semibold fill-gray-900 dark:fill-gray-100"
+                    >
+                      <title>{resourceName(j)}</title>
+                      {nodeLabel(resourceName(j))}
+                    </text>
+                    <text
+                      x={x + RESOURCE_SIZE / 2 + 6}
+                      y={y + 4}
+                      className="text-[11px] fill-gray-500 dark:fill-gray-400"
+                    >
+                      {available[j] ?? 0} free
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          {/* Wait-For Graph */}
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                Wait-For Graph
+              </h2>
+              <ImageExportButtons
+                onError={onImageExportError}
+                fileName="bankers-wait-for-graph"
+                subject="the wait-for graph"
+                render={() => captureGraph(waitForGraphRef)}
+              />
+            </div>
+            <div className="mb-4 text-xs text-gray-600 dark:text-gray-400">
+              {cycleSummary}
+            </div>
+
+            <svg
+              ref={waitForGraphRef}
+              viewBox={`0 0 ${wfgSize} ${wfgSize}`}
+              className="w-full h-auto max-h-[480px]"
+              role="img"
+              aria-label="Wait-for graph"
+            >
+              <defs>
+                <marker
+                  id={`${markerPrefix}-wait`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="7"
+                  markerHeight="7"
+                  orient="auto-start-reverse"
+                >
+                  <path
+                    d="M 0 0 L 10 5 L 0 10 z"
+                    className="fill-gray-600 dark:fill-gray-300"
+                  />
+                </marker>
+                <marker
+                  id={`${markerPrefix}-cycle`}
+                  viewBox="0 0 10 10"
+                  refX="9"
+                  refY="5"
+                  markerWidth="7"
+                  markerHeight="7"
+                  orient="auto-start-reverse"
+                >
+                  <path
+                    d="M 0 0 L 10 5 L 0 10 z"
+                    className="fill-red-500 dark:fill-red-400"
+                  />
+                </marker>
+              </defs>
+
+              {waitForGraph.edges.map((edge) => {
+                const inCycle =
+                  !edge.released && isCycleEdge(edge.from, edge.to);
+                const from = wfgPoint(edge.from);
+                const to = wfgPoint(edge.to);
+                const {d} = curvedPath(
+                  shorten(from, to, NODE_RADIUS),
+                  shorten(to, from, NODE_RADIUS + 2),
+                  12,
+                );
+
+                return (
+                  <path
+                    key={`wait-${edge.from}-${edge.to}`}
+                    d={d}
+                    fill="none"
+                    strokeWidth="2"
+                    className={`transition-opacity duration-500 ${
+                      inCycle
+                        ? 'stroke-red-500 dark:stroke-red-400'
+                        : 'stroke-gray-600 dark:stroke-gray-300'
+                    }`}
+                    style={{opacity: edge.released ? 0 : 1}}
+                    markerEnd={`url(#${markerPrefix}-${
+                      inCycle ? 'cycle' : 'wait'
+                    })`}
+                  >
+                    <title>
+                      {processName(edge.from)} waits for {processName(edge.to)}{' '}
+                      ({edge.resources.map(resourceName).join(', ')})
+                    </title>
+                  </path>
+                );
+              })}
+
+              {Array.from({length: processCount}, (_, i) => {
+                const {x, y} = wfgPoint(i);
+                const inCycle = cycleOf.has(i);
+                return (
+                  <g key={`wfg-process-${i}`}>
+                    <circle
+                      cx={x}
+                      cy={y}
+                      r={NODE_RADIUS}
+                      strokeWidth="2"
+                      className={`transition-colors duration-500 ${
+                        inCycle
+                          ? 'fill-red-50 stroke-red-500 dark:fill-red-900/40 dark:stroke-red-400'
+                          : finish[i]
+                            ? 'fill-green-100 stroke-green-500 dark:fill-green-900/40 dark:stroke-green-400'
+                            : 'fill-white stroke-gray-400 dark:fill-gray-900 dark:stroke-gray-500'
+                      }`}
+                    />
+                    <text
+                      x={x}
+                      y={y + 4}
+                      textAnchor="middle"
+                      className="text-xs font-semibold fill-gray-900 dark:fill-gray-100"
+                    >
+                      <title>{processName(i)}</title>
+                      {nodeLabel(processName(i))}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+'use client';
+
+import React, {useState, useEffect} from 'react';
+import {ChevronLeft, ChevronRight} from 'lucide-react';
+import {SafeSequenceEnumeration} from '@/types/bankers-algorithm';
+import {getProcessNameById} from '@/lib/system-labels';
+
+interface SafeSequencesPanelProps {
+  enumeration: SafeSequenceEnumeration | null;
+  isCalculating: boolean;
+  isProcessingRequest?: boolean;
+  pageSize?: number;
+  processNames?: string[];
+}
+
+export const SafeSequencesPanel: React.FC<SafeSequencesPanelProps> = ({
+  enumeration,
+  isCalculating,
+  isProcessingRequest = false,
+  pageSize = 5,
+  processNames,
+}) => {
+  const [page, setPage] = useState(0);
+
+  // Start from the first page whenever a new analysis arrives
+  useEffect(() => {
+    setPage(0);
+  }, [enumeration]);
+
+  if (
+    !enumeration ||
+    enumeration.sequences.length === 0 ||
+    isCalculating ||
+    isProcessingRequest
+  ) {
+    return null;
+  }
+
+  const {sequences, totalCount, isTruncated} = enumeration;
+  const pageCount = Math.ceil(sequences.length / pageSize);
+  const firstIndex = page * pageSize;
+  const pageSequences = sequences.slice(firstIndex, firstIndex + pageSize);
+
+  const totalLabel =
+    totalCount === null
+      ? `More than ${sequences.length.toLocaleString()}`
+      : totalCount.toLocaleString();
+
+  return (
+    <div
+      className="bg-white rounded-xl overflow-hidden"
+      style={{
+        backgroundColor: 'var(--table-bg)',
+        border: '1px solid var(--table-border)',
+      }}
+    >
+      <div className="p-6">
+        {/* Panel Header */}
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Safe Sequences
+            <span className="ml-1 text-gray-400 dark:text-gray-500">
+              •<span className="ml-1 text-sm font-mono">{totalLabel}</span>
+            </span>
+          </h2>
+
+          {/* Pagination */}
+          {pageCount > 1 && (
+            <div className="flex items-center space-x-2">
+              <button
+                type="button"
+                onClick={() => setPage((prev) => Math.max(0, prev - 1))}
+                disabled={page === 0}
+                className="btn-hover w-8 h-8 rounded-full flex items-center justify-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Previous page"
+                aria-label="Previous page"
+              >
+                <ChevronLeft
+                  className="h-4 w-4"
+                  style={{color: 'var(--text-secondary, #6b7280)'}}
+                />
+              </button>
+              <span className="text-sm font-mono text-gray-600 dark:text-gray-400">
+                {page + 1}/{pageCount}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  setPage((prev) => Math.min(pageCount - 1, prev + 1))
+                }
+                disabled={page >= pageCount - 1}
+                className="btn-hover w-8 h-8 rounded-full flex items-center justify-center transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Next page"
+                aria-label="Next page"
+              >
+                <ChevronRight
+                  className="h-4 w-4"
+                  style={{color: 'var(--text-secondary, #6b7280)'}}
+                />
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Sequence List */}
+        <div className="space-y-4">
+          {pageSequences.map((sequence, offset) => (
+            <div
+              key={firstIndex + offset}
+              className="flex items-start space-x-3"
+            >
+              <div
+                className="flex-shrink-0 min-w-6 h-6 px-1.5 rounded-full flex items-center justify-center"
+                style={{backgroundColor: 'var(--button-bg, #f3f4f6)'}}
+              >
+                <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  {firstIndex + offset + 1}
+                </span>
+              </div>
+              <div className="inline-flex items-center space-x-2 flex-wrap">
+                {sequence.map((process, index) => (
+                  <div
+                    key={process}
+                    className="inline-flex items-center space-x-2"
+                  >
+                    <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                      {getProcessNameById(processNames, process)}
+                    </span>
+                    {index < sequence.length - 1 && (
+                      <span className="text-green-600 dark:text-green-400 font-medium text-lg">
+                        →
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Truncation Notice */}
+        {isTruncated && (
+          <div
+            className="mt-6 pt-4 text-sm text-gray-600 dark:text-gray-400"
+            style={{borderTop: '1px solid var(--table-border)'}}
+          >
+            Showing the first {sequences.length.toLocaleString()} sequences.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
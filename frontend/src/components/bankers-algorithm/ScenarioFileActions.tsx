@@ -0,0 +1,176 @@
+'use client';
+
+import React, {useRef, useState} from 'react';
+import {Download, FileText, Link, Upload} from 'lucide-react';
+import {ValidationError} from '@/types/bankers-algorithm';
+import {Scenario} from '@/lib/scenario';
+import {
+  formatScenarioFile,
+  formatScenarioFileError,
+  SCENARIO_FILE_EXTENSION,
+  SCENARIO_FILE_TYPE,
+  ScenarioFileError,
+} from '@/lib/scenario-file';
+import {downloadFile} from '@/utils/download';
+import {TextProblemDialog} from './TextProblemDialog';
+
+interface ScenarioFileActionsProps {
+  scenario: Scenario;
+  onImport: (text: string, fileName: string) => ScenarioFileError[];
+  onImportText?: (text: string) => ValidationError[];
+  onCopyLink?: () => void;
+  disabled?: boolean;
+}
+
+// Errors listed before the rest are summed up
+const MAX_ERRORS_SHOWN = 5;
+
+/**
+ * Export the system as a scenario file or a link, or import one
+ */
+export const ScenarioFileActions: React.FC<ScenarioFileActionsProps> = ({
+  scenario,
+  onImport,
+  onImportText,
+  onCopyLink,
+  disabled = false,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isTextDialogOpen, setIsTextDialogOpen] = useState(false);
+  const [importErrors, setImportErrors] = useState<{
+    fileName: string;
+    errors: ScenarioFileError[];
+  } | null>(null);
+
+  const handleExport = () => {
+    downloadFile(
+      `bankers-scenario${SCENARIO_FILE_EXTENSION}`,
+      formatScenarioFile(scenario),
+      SCENARIO_FILE_TYPE,
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again once it is fixed
+    e.target.value = '';
+    if (!file) return;
+
+    let errors: ScenarioFileError[];
+    try {
+      errors = onImport(await file.text(), file.name);
+    } catch {
+      errors = [{field: 'file', message: 'The file could not be read'}];
+    }
+    setImportErrors(errors.length > 0 ? {fileName: file.name, errors} : null);
+  };
+
+  const buttonClassName =
+    'btn-hover flex-1 h-10 px-4 inline-flex items-center justify-center gap-2 text-sm font-medium border rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const buttonStyle = {
+    borderColor: 'var(--input-border, #e1e1e1)',
+    color: 'var(--foreground)',
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleExport}
+          className={buttonClassName}
+          style={buttonStyle}
+          title="Save the system as a scenario file"
+        >
+          <Download className="size-4" />
+          Export
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          className={buttonClassName}
+          style={buttonStyle}
+          title="Load a scenario file"
+        >
+          <Upload className="size-4" />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${SCENARIO_FILE_EXTENSION},${SCENARIO_FILE_TYPE}`}
+          onChange={handleFileChange}
+          className="hidden"
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+      </div>
+
+      {onImportText && (
+        <>
+          <button
+            type="button"
+            onClick={() => setIsTextDialogOpen(true)}
+            disabled={disabled}
+            className={`${buttonClassName} w-full`}
+            style={buttonStyle}
+            title="Load a problem written as plain text"
+          >
+            <FileText className="size-4" />
+            Import from Text
+          </button>
+          <TextProblemDialog
+            isOpen={isTextDialogOpen}
+            onClose={() => setIsTextDialogOpen(false)}
+            onImport={onImportText}
+          />
+        </>
+      )}
+
+      {onCopyLink && (
+        <button
+          type="button"
+          onClick={onCopyLink}
+          className={`${buttonClassName} w-full`}
+          style={buttonStyle}
+          title="Copy a link that opens this system"
+        >
+          <Link className="size-4" />
+          Copy Link
+        </button>
+      )}
+
+      {importErrors && (
+        <div
+          className="text-sm text-red-600 dark:text-red-400 space-y-1"
+          role="alert"
+        >
+          <div className="font-medium">
+            {importErrors.fileName} was not imported:
+          </div>
+          <ul className="list-disc pl-5 space-y-0.5 break-words">
+            {importErrors.errors.slice(0, MAX_ERRORS_SHOWN).map((error, i) => (
+              <li key={i}>{formatScenarioFileError(error)}</li>
+            ))}
+          </ul>
+          {importErrors.errors.length > MAX_ERRORS_SHOWN && (
+            <div>
+              and {importErrors.errors.length - MAX_ERRORS_SHOWN} more
+              {importErrors.errors.length - MAX_ERRORS_SHOWN === 1
+                ? ' error'
+                : ' errors'}
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => setImportErrors(null)}
+            className="text-xs underline text-gray-600 dark:text-gray-400"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
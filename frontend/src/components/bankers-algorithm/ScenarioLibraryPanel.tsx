@@ -0,0 +1,299 @@
+'use client';
+
+import React, {useState, useEffect, useCallback, useMemo} from 'react';
+import {Copy, Pencil, Trash2} from 'lucide-react';
+import {Scenario} from '@/lib/scenario';
+import {
+  LibraryEntry,
+  MAX_SCENARIO_NAME_LENGTH,
+  normalizeScenarioName,
+  ScenarioLibrary,
+  searchEntries,
+} from '@/lib/scenario-library';
+
+interface ScenarioLibraryPanelProps {
+  scenario: Scenario;
+  onLoad: (scenario: Scenario, name: string) => void;
+  disabled?: boolean;
+}
+
+type LibraryStatus = {kind: 'success' | 'error'; message: string} | null;
+
+const inputStyle = {
+  backgroundColor: 'var(--input-bg, #ffffff)',
+  borderColor: 'var(--input-border, #e1e1e1)',
+  color: 'var(--foreground)',
+};
+
+const formatSavedAt = (time: number) =>
+  new Date(time).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+/**
+ * Named scenarios saved in the browser: save the current system, then
+ * search, load, duplicate, rename or delete what was saved
+ */
+export const ScenarioLibraryPanel: React.FC<ScenarioLibraryPanelProps> = ({
+  scenario,
+  onLoad,
+  disabled = false,
+}) => {
+  const library = useMemo(() => new ScenarioLibrary(), []);
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState('');
+  const [renamed, setRenamed] = useState<{id: string; name: string} | null>(
+    null,
+  );
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [status, setStatus] = useState<LibraryStatus>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const isDisabled = disabled || isWorking;
+
+  const refresh = useCallback(() => library.list().then(setEntries), [library]);
+
+  useEffect(() => {
+    if (!library.isAvailable) return;
+    refresh().catch(() =>
+      setStatus({kind: 'error', message: 'Saved scenarios could not be read'}),
+    );
+  }, [library, refresh]);
+
+  /**
+   * Runs a library operation and shows the library as it is afterwards
+   * The operation returns the message to show, if any
+   */
+  const run = async (operation: () => Promise<string | null>) => {
+    setIsWorking(true);
+    setPendingDeleteId(null);
+    try {
+      const message = await operation();
+      setStatus(message ? {kind: 'success', message} : null);
+    } catch (error) {
+      setStatus({
+        kind: 'error',
+        message:
+          error instanceof Error
+            ? error.message
+            : 'The library could not be updated',
+      });
+    }
+    await refresh().catch(() => {});
+    setIsWorking(false);
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      const isReplacing = entries.some(
+        (entry) => entry.name === normalizeScenarioName(name),
+      );
+      const entry = await library.save(name, scenario);
+      setName('');
+      return `${isReplacing ? 'Replaced' : 'Saved'} "${entry.name}"`;
+    });
+
+  const handleLoad = (entry: LibraryEntry) =>
+    run(async () => {
+      onLoad(await library.load(entry.id), entry.name);
+      return null;
+    });
+
+  const handleDuplicate = (entry: LibraryEntry) =>
+    run(async () => `Saved "${(await library.duplicate(entry.id)).name}"`);
+
+  const commitRename = () => {
+    if (!renamed) return;
+    const {id, name: newName} = renamed;
+    setRenamed(null);
+
+    const entry = entries.find((candidate) => candidate.id === id);
+    if (!entry || normalizeScenarioName(newName) === entry.name) return;
+    run(async () => `Renamed to "${(await library.rename(id, newName)).name}"`);
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    if (pendingDeleteId !== entry.id) {
+      setPendingDeleteId(entry.id);
+      return;
+    }
+    run(async () => {
+      await library.delete(entry.id);
+      return `Deleted "${entry.name}"`;
+    });
+  };
+
+  const visibleEntries = searchEntries(entries, query);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100">
+        Scenarios
+      </h3>
+
+      {!library.isAvailable ? (
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          Saving scenarios is not supported in this browser.
+        </div>
+      ) : (
+        <>
+          {/* Save the current system */}
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_SCENARIO_NAME_LENGTH}
+              placeholder="Scenario name"
+              disabled={isDisabled}
+              className="min-w-0 flex-1 h-10 px-4 text-sm border rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+              style={inputStyle}
+              aria-label="Scenario name"
+            />
+            <button
+              type="submit"
+              disabled={isDisabled || !normalizeScenarioName(name)}
+              className="px-4 h-10 text-sm font-medium text-white bg-gray-900 dark:bg-gray-100 dark:text-gray-900 hover:bg-gray-800 dark:hover:bg-gray-200 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-full transition-colors duration-200"
+            >
+              Save
+            </button>
+          </form>
+
+          {status && (
+            <div
+              className={`text-sm ${
+                status.kind === 'error'
+                  ? 'text-red-600 dark:text-red-400'
+                  : 'text-gray-600 dark:text-gray-400'
+              }`}
+              role={status.kind === 'error' ? 'alert' : 'status'}
+            >
+              {status.message}
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search scenarios"
+              className="w-full h-10 px-4 text-sm border rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              style={inputStyle}
+              aria-label="Search scenarios"
+            />
+          )}
+
+          {entries.length > 0 && visibleEntries.length === 0 && (
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              No scenario matches &ldquo;{query.trim()}&rdquo;.
+            </div>
+          )}
+
+          <ul className="space-y-1">
+            {visibleEntries.map((entry) => (
+              <li
+                key={entry.id}
+                className="group flex items-center gap-1 rounded-2xl px-3 py-2 hover:bg-[var(--button-hover-bg,#f3f4f6)]"
+              >
+                {renamed?.id === entry.id ? (
+                  <input
+                    type="text"
+                    value={renamed.name}
+                    onChange={(e) =>
+                      setRenamed({id: entry.id, name: e.target.value})
+                    }
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.currentTarget.blur();
+                      } else if (e.key === 'Escape') {
+                        setRenamed(null);
+                      }
+                    }}
+                    maxLength={MAX_SCENARIO_NAME_LENGTH}
+                    autoFocus
+                    className="min-w-0 flex-1 h-8 px-3 text-sm border rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    style={inputStyle}
+                    aria-label={`New name for ${entry.name}`}
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleLoad(entry)}
+                    disabled={isDisabled}
+                    className="min-w-0 flex-1 text-left disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={`Load ${entry.name}`}
+                  >
+                    <span className="block truncate text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {entry.name}
+                    </span>
+                    <span className="block truncate text-xs text-gray-500 dark:text-gray-400">
+                      {entry.processCount} × {entry.resourceCount} •{' '}
+                      {formatSavedAt(entry.savedAt)}
+                    </span>
+                  </button>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => handleDuplicate(entry)}
+                  disabled={isDisabled}
+                  className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Duplicate"
+                  aria-label={`Duplicate ${entry.name}`}
+                >
+                  <Copy className="size-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setRenamed({id: entry.id, name: entry.name})}
+                  disabled={isDisabled}
+                  className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Rename"
+                  aria-label={`Rename ${entry.name}`}
+                >
+                  <Pencil className="size-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(entry)}
+                  onBlur={() =>
+                    setPendingDeleteId((id) => (id === entry.id ? null : id))
+                  }
+                  disabled={isDisabled}
+                  className={`rounded-full disabled:opacity-50 disabled:cursor-not-allowed ${
+                    pendingDeleteId === entry.id
+                      ? 'px-2 py-1 text-xs font-medium text-white bg-red-600 dark:bg-red-500'
+                      : 'p-1.5 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400'
+                  }`}
+                  title={
+                    pendingDeleteId === entry.id ? 'Click to confirm' : 'Delete'
+                  }
+                  aria-label={
+                    pendingDeleteId === entry.id
+                      ? `Confirm deleting ${entry.name}`
+                      : `Delete ${entry.name}`
+                  }
+                >
+                  {pendingDeleteId === entry.id ? (
+                    'Delete'
+                  ) : (
+                    <Trash2 className="size-4" />
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import {SafetyOptions, SelectionStrategy} from '@/types/bankers-algorithm';
+import {getProcessName} from '@/lib/system-labels';
+
+interface SelectionStrategyControlProps {
+  processCount: number;
+  processNames?: string[];
+  options: SafetyOptions;
+  onChange: (options: SafetyOptions) => void;
+  disabled?: boolean;
+}
+
+const STRATEGY_OPTIONS: ReadonlyArray<readonly [SelectionStrategy, string]> = [
+  ['restartFromZero', 'Restart from P0'],
+  ['roundRobin', 'Round-robin'],
+  ['smallestNeed', 'Smallest need'],
+  ['largestAllocation', 'Largest allocation'],
+  ['priority', 'Priority'],
+];
+
+export const SelectionStrategyControl: React.FC<
+  SelectionStrategyControlProps
+> = ({processCount, processNames, options, onChange, disabled = false}) => {
+  const strategy = options.strategy ?? 'restartFromZero';
+  const priorities = Array.from(
+    {length: processCount},
+    (_, i) => options.priorities?.[i] ?? 0,
+  );
+
+  return (
+    <div className="space-y-3">
+      <div
+        className="inline-flex flex-wrap p-1 rounded-3xl"
+        style={{backgroundColor: 'var(--need-bg, #f9fafb)'}}
+        role="tablist"
+        aria-label="Process selection"
+      >
+        {STRATEGY_OPTIONS.map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            role="tab"
+            aria-selected={strategy === value}
+            onClick={() => onChange({strategy: value, priorities})}
+            disabled={disabled}
+            className={`px-3 py-1 text-sm font-medium rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+              strategy === value
+                ? 'bg-white dark:bg-gray-700 shadow-sm text-gray-900 dark:text-gray-100'
+                : 'text-gray-500 dark:text-gray-400'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Priorities (higher runs first) */}
+      {strategy === 'priority' && (
+        <div className="flex flex-wrap gap-3">
+          {priorities.map((priority, i) => (
+            <label
+              key={i}
+              className="flex items-center gap-2 text-sm font-medium"
+              style={{color: 'var(--text-secondary, #6b7280)'}}
+            >
+              {getProcessName(processNames, i)}
+              <input
+                type="text"
+                inputMode="numeric"
+                value={priority.toString()}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value.replace(/[^0-9]/g, ''));
+                  onChange({
+                    strategy,
+                    priorities: priorities.map((current, k) =>
+                      k === i ? (isNaN(value) ? 0 : value) : current,
+                    ),
+                  });
+                }}
+                disabled={disabled}
+                className="w-14 h-8 px-2 text-center text-sm border rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                style={{
+                  backgroundColor: 'var(--input-bg, #ffffff)',
+                  borderColor: 'var(--input-border, #e1e1e1)',
+                  color: 'var(--foreground)',
+                }}
+                aria-label={`Priority of P${i}`}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,34 @@
 import {useState, useEffect, useRef, useCallback} from 'react';
-import {AlgorithmStep} from '@/types/bankers-algorithm';
+import {Download} from 'lucide-react';
+import {
+  AlgorithmMode,
+  AlgorithmStep,
+  AvailableIncreaseAnalysis,
+  SafetyOptions,
+} from '@/types/bankers-algorithm';
+import {TaskProgress} from '@/lib/bankers-algorithm-tasks';
+import {
+  formatTraceLatex,
+  formatTraceMarkdown,
+  LATEX_FILE_EXTENSION,
+  LATEX_FILE_TYPE,
+  MARKDOWN_FILE_EXTENSION,
+  MARKDOWN_FILE_TYPE,
+  TraceExport,
+} from '@/lib/trace-export';
+import {describeTraceEvent} from '@/lib/trace-events';
+import {renderSequenceImage} from '@/lib/image-export';
+import {
+  formatProcessSequence,
+  getProcessName,
+  getProcessNameById,
+  getResourceName,
+} from '@/lib/system-labels';
+import {downloadFile} from '@/utils/download';
 import {BooleanBadge} from '@/components/ui/BooleanBadge';
 import {LogoIcon} from '@/components/ui/LogoIcon';
+import {ImageExportButtons} from './ImageExportButtons';
+import {SelectionStrategyControl} from './SelectionStrategyControl';
 
 interface StepByStepResultsProps {
   steps: AlgorithmStep[];
@@ -11,14 +38,46 @@ interface StepByStepResultsProps {
   isProcessingRequest?: boolean;
   requestResult?: {
     isRequest: boolean;
+    operation?: 'release' | 'admit' | 'retire';
     wasGranted?: boolean;
     processId?: number;
     requestVector?: number[];
   };
   onStepChange?: (stepIndex: number | undefined) => void;
   currentStepIndex?: number;
+  mode?: AlgorithmMode;
+  deadlockedProcesses?: string[];
+  availableIncrease?: AvailableIncreaseAnalysis | null;
+  processCount?: number;
+  processNames?: string[];
+  resourceNames?: string[];
+  safetyOptions?: SafetyOptions;
+  onSafetyOptionsChange?: (options: SafetyOptions) => void;
+  progress?: TaskProgress | null;
+  onCancel?: () => void;
+  // System the trace starts from, for exporting it
+  traceSystem?: TraceExport['system'];
+  // Theme the safe sequence is exported in
+  isDarkMode?: boolean;
+  onImageExportError?: (error: Error) => void;
 }
 
+// Documents the trace can be exported as
+const TRACE_FORMATS = [
+  {
+    label: 'Markdown',
+    extension: MARKDOWN_FILE_EXTENSION,
+    type: MARKDOWN_FILE_TYPE,
+    format: formatTraceMarkdown,
+  },
+  {
+    label: 'LaTeX',
+    extension: LATEX_FILE_EXTENSION,
+    type: LATEX_FILE_TYPE,
+    format: formatTraceLatex,
+  },
+];
+
 export function StepByStepResults({
   steps,
   safeSequence,
@@ -27,6 +86,19 @@ export function StepByStepResults({
   requestResult,
   onStepChange,
   currentStepIndex,
+  mode = 'avoidance',
+  deadlockedProcesses = [],
+  availableIncrease = null,
+  processCount = 0,
+  processNames,
+  resourceNames,
+  safetyOptions = {},
+  onSafetyOptionsChange,
+  progress = null,
+  onCancel,
+  traceSystem,
+  isDarkMode = false,
+  onImageExportError,
 }: StepByStepResultsProps) {
   const [visibleSteps, setVisibleSteps] = useState<number>(0);
   const [animationComplete, setAnimationComplete] = useState(false);
@@ -34,6 +106,14 @@ export function StepByStepResults({
   const [elapsedTime, setElapsedTime] = useState<number | null>(null);
   const startTimeRef = useRef<number | null>(null);
   const lastStepsLengthRef = useRef<number>(0);
+
+  // A retired process is gone from the names, so its trace keeps its name
+  const getRequestProcessName = (processId: number): string => {
+    const retired = steps.find(({event}) => event.kind === 'retire')?.event;
+    return requestResult?.operation === 'retire' && retired?.kind === 'retire'
+      ? retired.name
+      : getProcessName(processNames, processId);
+  };
   const animationRunningRef = useRef<boolean>(false);
 
   // Keyboard navigation for steps
@@ -173,19 +253,90 @@ export function StepByStepResults({
       <div className="p-6">
         {/* Step Header */}
         <div className="mb-6">
-          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-            Steps
-            <span
-              className={`ml-1 transition-opacity duration-300 text-gray-400 dark:text-gray-500 ${
-                showCompletionDot ? 'opacity-100' : 'opacity-0'
-              }`}
-            >
-              •
-              {showCompletionDot && elapsedTime !== null && (
-                <span className="ml-1 text-sm font-mono">{elapsedTime}ms</span>
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              Steps
+              <span
+                className={`ml-1 transition-opacity duration-300 text-gray-400 dark:text-gray-500 ${
+                  showCompletionDot ? 'opacity-100' : 'opacity-0'
+                }`}
+              >
+                •
+                {showCompletionDot && elapsedTime !== null && (
+                  <span className="ml-1 text-sm font-mono">
+                    {elapsedTime}ms
+                  </span>
+                )}
+              </span>
+            </h2>
+            {steps.length > 0 &&
+              !isCalculating &&
+              !isProcessingRequest &&
+              (traceSystem || safeSequence.length > 0) && (
+                <div className="flex flex-wrap gap-2">
+                  {safeSequence.length > 0 && (
+                    <ImageExportButtons
+                      onError={onImageExportError}
+                      fileName="bankers-sequence"
+                      subject={
+                        mode === 'detection'
+                          ? 'the completion order'
+                          : 'the safe sequence'
+                      }
+                      label="Sequence"
+                      render={() =>
+                        renderSequenceImage(
+                          {mode, safeSequence, processNames},
+                          isDarkMode,
+                        )
+                      }
+                    />
+                  )}
+                  {traceSystem &&
+                    TRACE_FORMATS.map(({label, extension, type, format}) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={(e) => {
+                          // Exporting keeps the step being inspected
+                          e.stopPropagation();
+                          downloadFile(
+                            `bankers-trace${extension}`,
+                            format({
+                              mode,
+                              steps,
+                              system: traceSystem,
+                              processNames,
+                              resourceNames,
+                            }),
+                            type,
+                          );
+                        }}
+                        className="btn-hover h-8 px-3 inline-flex items-center gap-1.5 text-xs font-medium border rounded-full transition-colors"
+                        style={{
+                          borderColor: 'var(--input-border, #e1e1e1)',
+                          color: 'var(--foreground)',
+                        }}
+                        title={`Export the trace as ${label}`}
+                      >
+                        <Download className="size-3.5" />
+                        {label}
+                      </button>
+                    ))}
+                </div>
               )}
-            </span>
-          </h2>
+          </div>
+          {onSafetyOptionsChange && mode === 'avoidance' && (
+            <div className="mt-4">
+              <SelectionStrategyControl
+                processCount={processCount}
+                processNames={processNames}
+                options={safetyOptions}
+                onChange={onSafetyOptionsChange}
+                disabled={isCalculating || isProcessingRequest}
+              />
+            </div>
+          )}
         </div>
 
         {/* Loading State */}
@@ -196,8 +347,29 @@ export function StepByStepResults({
               <span className="text-gray-600 dark:text-gray-400">
                 {isProcessingRequest
                   ? 'Processing request...'
-                  : 'Analyzing safety...'}
+                  : mode === 'detection'
+                    ? 'Detecting deadlock...'
+                    : 'Analyzing safety...'}
+                {progress && progress.completed < progress.total && (
+                  <span className="ml-2 text-sm text-gray-400 dark:text-gray-500">
+                    {progress.stage} ({progress.completed + 1}/{progress.total})
+                  </span>
+                )}
               </span>
+              {onCancel && (
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="px-3 py-1 text-sm font-medium rounded-full border transition-colors duration-200"
+                  style={{
+                    backgroundColor: 'var(--button-bg, #ffffff)',
+                    borderColor: 'var(--button-border, #e1e1e1)',
+                    color: 'var(--foreground)',
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -268,14 +440,7 @@ export function StepByStepResults({
                             : 'text-gray-900 dark:text-gray-100'
                         }`}
                       >
-                        {/* Filter out request result information from step description */}
-                        {step.description.split(
-                          /\n\n\[REQUEST (GRANTED|DENIED)\]/,
-                        ).length > 1
-                          ? step.description.split(
-                              /\n\n\[REQUEST (GRANTED|DENIED)\]/,
-                            )[0]
-                          : step.description}
+                        {describeTraceEvent(step.event, processNames)}
                       </div>
                       {step.workVector && step.workVector.length > 0 && (
                         <div
@@ -288,34 +453,16 @@ export function StepByStepResults({
                           = ({step.workVector.join(', ')})
                         </div>
                       )}
-                      {/* Show boolean badge - prioritize request validation steps first */}
-                      {step.canFinish !== undefined &&
-                        (() => {
-                          // Check if this is a request validation step (steps 1 and 2 with "Check if Request")
-                          const isRequestValidationStep =
-                            (step.stepNumber === 1 || step.stepNumber === 2) &&
-                            step.description.includes('Check if Request');
-
-                          // Check if this is a safety algorithm process check (has processChecked and comparison symbols)
-                          const isSafetyProcessCheck =
-                            step.processChecked &&
-                            step.description.includes('need[P') &&
-                            step.description.includes('≤ work') &&
-                            !step.description.includes('Check if Request');
-
-                          // Show badge if it's either type of step (but not both)
-                          if (isRequestValidationStep || isSafetyProcessCheck) {
-                            return (
-                              <div className="mt-2">
-                                <BooleanBadge
-                                  value={step.canFinish}
-                                  className="text-xs"
-                                />
-                              </div>
-                            );
-                          }
-                          return null;
-                        })()}
+                      {/* Operation checks and scan comparisons show their outcome */}
+                      {(step.event.kind === 'check' ||
+                        step.event.kind === 'compare') && (
+                        <div className="mt-2">
+                          <BooleanBadge
+                            value={step.event.satisfied}
+                            className="text-xs"
+                          />
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -344,7 +491,15 @@ export function StepByStepResults({
                     title={animationComplete ? 'Jump to final result' : ''}
                   >
                     <LogoIcon
-                      theme={safeSequence.length > 0 ? 'green' : 'red'}
+                      theme={
+                        mode === 'detection'
+                          ? deadlockedProcesses.length > 0
+                            ? 'red'
+                            : 'green'
+                          : safeSequence.length > 0
+                            ? 'green'
+                            : 'red'
+                      }
                       width={20}
                       height={20}
                     />
@@ -366,19 +521,184 @@ export function StepByStepResults({
                       }`}
                     >
                       {(() => {
-                        // Check if this is a request result by looking for request information in the last step
-                        const lastStep =
-                          steps.length > 0 ? steps[steps.length - 1] : null;
-
-                        // Check for request results using both prop and step description
                         const hasRequestGranted =
-                          (requestResult?.isRequest &&
-                            requestResult?.wasGranted === true) ||
-                          lastStep?.description.includes('[REQUEST GRANTED]:');
+                          requestResult?.isRequest &&
+                          requestResult?.wasGranted === true;
                         const hasRequestDenied =
-                          (requestResult?.isRequest &&
-                            requestResult?.wasGranted === false) ||
-                          lastStep?.description.includes('[REQUEST DENIED]:');
+                          requestResult?.isRequest &&
+                          requestResult?.wasGranted === false;
+
+                        // Detection mode reports deadlocked processes instead
+                        if (mode === 'detection') {
+                          return deadlockedProcesses.length > 0 ? (
+                            <>
+                              <span className="font-medium text-red-600 dark:text-red-400">
+                                Deadlock DETECTED • The following processes are
+                                deadlocked:{' '}
+                              </span>
+                              <div className="inline-flex items-center space-x-2 mt-1 flex-wrap">
+                                {deadlockedProcesses.map((process) => (
+                                  <span
+                                    key={process}
+                                    className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+                                  >
+                                    {getProcessNameById(processNames, process)}
+                                  </span>
+                                ))}
+                              </div>
+                              <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                                Their outstanding requests can never be
+                                satisfied, even if every other process finishes
+                                and releases its resources.
+                              </div>
+                            </>
+                          ) : (
+                            <>
+                              <span className="font-medium">
+                                No deadlock • All processes can complete in the
+                                order:{' '}
+                              </span>
+                              <div className="inline-flex items-center space-x-2 mt-1 flex-wrap">
+                                {safeSequence.map((process, index) => (
+                                  <div
+                                    key={process}
+                                    className="inline-flex items-center space-x-2"
+                                  >
+                                    <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                                      {getProcessNameById(
+                                        processNames,
+                                        process,
+                                      )}
+                                    </span>
+                                    {index < safeSequence.length - 1 && (
+                                      <span className="text-green-600 dark:text-green-400 font-medium text-lg">
+                                        →
+                                      </span>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                              <span className="font-medium">.</span>
+                            </>
+                          );
+                        }
+
+                        // Releases and retirements are always carried out, so only the resulting state varies
+                        if (
+                          (requestResult?.operation === 'release' ||
+                            requestResult?.operation === 'retire') &&
+                          requestResult.processId !== undefined &&
+                          requestResult.requestVector
+                        ) {
+                          return (
+                            <>
+                              <span className="font-medium text-green-600 dark:text-green-400">
+                                {requestResult.operation === 'retire'
+                                  ? 'Process RETIRED • Process '
+                                  : 'Release COMPLETED • Process '}
+                                {getRequestProcessName(requestResult.processId)}{' '}
+                                released [
+                                {requestResult.requestVector.join(', ')}]
+                                resources.
+                              </span>
+                              {safeSequence.length > 0 ? (
+                                <div className="mt-2">
+                                  <span className="font-medium">
+                                    System is in SAFE state with execution
+                                    sequence:{' '}
+                                  </span>
+                                  <div className="inline-flex items-center space-x-2 mt-1 flex-wrap">
+                                    {safeSequence.map((process, index) => (
+                                      <div
+                                        key={process}
+                                        className="inline-flex items-center space-x-2"
+                                      >
+                                        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                                          {getProcessNameById(
+                                            processNames,
+                                            process,
+                                          )}
+                                        </span>
+                                        {index < safeSequence.length - 1 && (
+                                          <span className="text-green-600 dark:text-green-400 font-medium text-lg">
+                                            →
+                                          </span>
+                                        )}
+                                      </div>
+                                    ))}
+                                  </div>
+                                  <span className="font-medium">.</span>
+                                </div>
+                              ) : (
+                                <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+                                  System is still in an UNSAFE state after the{' '}
+                                  {requestResult.operation === 'retire'
+                                    ? 'retirement'
+                                    : 'release'}
+                                  .
+                                </div>
+                              )}
+                            </>
+                          );
+                        }
+
+                        if (
+                          requestResult?.operation === 'admit' &&
+                          requestResult.processId !== undefined &&
+                          requestResult.requestVector
+                        ) {
+                          return requestResult.wasGranted ? (
+                            <>
+                              <span className="font-medium text-green-600 dark:text-green-400">
+                                Process ADMITTED • Process{' '}
+                                {getRequestProcessName(requestResult.processId)}{' '}
+                                joined with Max claim [
+                                {requestResult.requestVector.join(', ')}].
+                              </span>
+                              <div className="mt-2">
+                                <span className="font-medium">
+                                  System remains in SAFE state with execution
+                                  sequence:{' '}
+                                </span>
+                                <div className="inline-flex items-center space-x-2 mt-1 flex-wrap">
+                                  {safeSequence.map((process, index) => (
+                                    <div
+                                      key={process}
+                                      className="inline-flex items-center space-x-2"
+                                    >
+                                      <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                                        {getProcessNameById(
+                                          processNames,
+                                          process,
+                                        )}
+                                      </span>
+                                      {index < safeSequence.length - 1 && (
+                                        <span className="text-green-600 dark:text-green-400 font-medium text-lg">
+                                          →
+                                        </span>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                                <span className="font-medium">.</span>
+                              </div>
+                            </>
+                          ) : (
+                            <>
+                              <span className="font-medium text-red-600 dark:text-red-400">
+                                Admission DENIED • Process{' '}
+                                {getRequestProcessName(requestResult.processId)}{' '}
+                                with Max claim [
+                                {requestResult.requestVector.join(', ')}] cannot
+                                be admitted.
+                              </span>
+                              <div className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                                Its claim either exceeds the total resources or
+                                would leave the system in an UNSAFE state.
+                              </div>
+                            </>
+                          );
+                        }
 
                         // If this is a request result, show custom message format
                         if (
@@ -389,9 +709,10 @@ export function StepByStepResults({
                           return (
                             <>
                               <span className="font-medium text-green-600 dark:text-green-400">
-                                Request GRANTED • Process P
-                                {requestResult.processId} successfully allocated
-                                [{requestResult.requestVector.join(', ')}]
+                                Request GRANTED • Process{' '}
+                                {getRequestProcessName(requestResult.processId)}{' '}
+                                successfully allocated [
+                                {requestResult.requestVector.join(', ')}]
                                 resources.
                               </span>
                               <div className="mt-2">
@@ -406,7 +727,10 @@ export function StepByStepResults({
                                       className="inline-flex items-center space-x-2"
                                     >
                                       <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
-                                        {process}
+                                        {getProcessNameById(
+                                          processNames,
+                                          process,
+                                        )}
                                       </span>
                                       {index < safeSequence.length - 1 && (
                                         <span className="text-green-600 dark:text-green-400 font-medium text-lg">
@@ -428,8 +752,9 @@ export function StepByStepResults({
                           return (
                             <>
                               <span className="font-medium text-red-600 dark:text-red-400">
-                                Request DENIED • Process P
-                                {requestResult.processId} request [
+                                Request DENIED • Process{' '}
+                                {getRequestProcessName(requestResult.processId)}{' '}
+                                request [
                                 {requestResult.requestVector.join(', ')}] cannot
                                 be granted.
                               </span>
@@ -456,7 +781,10 @@ export function StepByStepResults({
                                     className="inline-flex items-center space-x-2"
                                   >
                                     <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
-                                      {process}
+                                      {getProcessNameById(
+                                        processNames,
+                                        process,
+                                      )}
                                     </span>
                                     {index < safeSequence.length - 1 && (
                                       <span className="text-green-600 dark:text-green-400 font-medium text-lg">
@@ -481,6 +809,66 @@ export function StepByStepResults({
                                 processes can complete their execution without
                                 potential deadlock.
                               </div>
+                              {availableIncrease?.minTotal && (
+                                <div
+                                  className="mt-4 pt-4 space-y-2"
+                                  style={{
+                                    borderTop: '1px solid var(--table-border)',
+                                  }}
+                                >
+                                  <span className="font-medium">
+                                    Smallest fix • Add (
+                                    {availableIncrease.minTotal.increase.join(
+                                      ', ',
+                                    )}
+                                    ) to Available (
+                                    {availableIncrease.minTotal.totalUnits}{' '}
+                                    {availableIncrease.minTotal.totalUnits === 1
+                                      ? 'unit'
+                                      : 'units'}
+                                    {availableIncrease.isOptimal
+                                      ? ''
+                                      : ', search limit reached'}
+                                    ) for the SAFE Sequence:{' '}
+                                  </span>
+                                  <div className="inline-flex items-center space-x-2 mt-1 flex-wrap">
+                                    {availableIncrease.minTotal.safeSequence.map(
+                                      (process, index, sequence) => (
+                                        <div
+                                          key={process}
+                                          className="inline-flex items-center space-x-2"
+                                        >
+                                          <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                                            {getProcessNameById(
+                                              processNames,
+                                              process,
+                                            )}
+                                          </span>
+                                          {index < sequence.length - 1 && (
+                                            <span className="text-green-600 dark:text-green-400 font-medium text-lg">
+                                              →
+                                            </span>
+                                          )}
+                                        </div>
+                                      ),
+                                    )}
+                                  </div>
+                                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                                    One resource alone:{' '}
+                                    {availableIncrease.perResource
+                                      .map((remedy, j) => {
+                                        const label = getResourceName(
+                                          resourceNames,
+                                          j,
+                                        );
+                                        return remedy
+                                          ? `${label} +${remedy.totalUnits} (${formatProcessSequence(processNames, remedy.safeSequence)})`
+                                          : `${label} not enough`;
+                                      })
+                                      .join(' • ')}
+                                  </div>
+                                </div>
+                              )}
                             </>
                           );
                         }
@@ -5,17 +5,45 @@ import {ProcessControl} from './ProcessControl';
 import {ResourceControl} from './ResourceControl';
 import {AvailableResourcesInput} from './AvailableResourcesInput';
 import {RequestPanel} from './RequestPanel';
-import {ResourceRequest} from '@/types/bankers-algorithm';
+import {AdmissionPanel} from './AdmissionPanel';
+import {ScenarioLibraryPanel} from './ScenarioLibraryPanel';
+import {ScenarioFileActions} from './ScenarioFileActions';
+import {
+  MaxSafeRequest,
+  ResourceRequest,
+  ValidationError,
+} from '@/types/bankers-algorithm';
+import {Scenario} from '@/lib/scenario';
+import {ScenarioFileError} from '@/lib/scenario-file';
 
 interface SystemControlsProps {
   processCount: number;
   resourceCount: number;
   available: number[];
+  total?: number[];
   need?: number[][];
+  allocation?: number[][];
+  maxSafeRequest?: MaxSafeRequest | null;
+  isMaxSafeRequestOff?: boolean;
+  onRequestProcessSelect?: (processId: number) => void;
+  processNames?: string[];
+  resourceNames?: string[];
   onProcessCountChange: (count: number) => void;
   onResourceCountChange: (count: number) => void;
   onAvailableChange: (index: number, value: number) => void;
+  onTotalChange?: (index: number, value: number) => void;
+  onResourceNameChange?: (index: number, name: string) => void;
   onRequestSubmit?: (request: ResourceRequest) => void;
+  onReleaseSubmit?: (release: ResourceRequest) => void;
+  onAdmitProcess?: (maxClaim: number[]) => void;
+  onRetireProcess?: (processId: number) => void;
+  scenario?: Scenario;
+  onLoadScenario?: (scenario: Scenario, name: string) => void;
+  onImportScenario?: (text: string, fileName: string) => ScenarioFileError[];
+  onImportTextProblem?: (text: string) => ValidationError[];
+  onCopyScenarioLink?: () => void;
+  presetRequest?: ResourceRequest | null;
+  onRequestChange?: (request: ResourceRequest | null) => void;
   isProcessingRequest?: boolean;
   isCalculating?: boolean;
   isCollapsed?: boolean;
@@ -27,11 +55,30 @@ export const SystemControls: React.FC<SystemControlsProps> = ({
   processCount,
   resourceCount,
   available,
+  total,
   need = [],
+  allocation = [],
+  maxSafeRequest = null,
+  isMaxSafeRequestOff = false,
+  onRequestProcessSelect,
+  processNames,
+  resourceNames,
   onProcessCountChange,
   onResourceCountChange,
   onAvailableChange,
+  onTotalChange,
+  onResourceNameChange,
   onRequestSubmit,
+  onReleaseSubmit,
+  onAdmitProcess,
+  onRetireProcess,
+  scenario,
+  onLoadScenario,
+  onImportScenario,
+  onImportTextProblem,
+  onCopyScenarioLink,
+  presetRequest,
+  onRequestChange,
   isProcessingRequest = false,
   isCalculating = false,
   isCollapsed = false,
@@ -52,6 +99,18 @@ export const SystemControls: React.FC<SystemControlsProps> = ({
             System Controls
           </h3>
 
+          {scenario && onImportScenario && (
+            <div className="mb-3">
+              <ScenarioFileActions
+                scenario={scenario}
+                onImport={onImportScenario}
+                onImportText={onImportTextProblem}
+                onCopyLink={onCopyScenarioLink}
+                disabled={isDisabled}
+              />
+            </div>
+          )}
+
           <ProcessControl
             processCount={processCount}
             onProcessCountChange={onProcessCountChange}
@@ -66,8 +125,12 @@ export const SystemControls: React.FC<SystemControlsProps> = ({
 
           <AvailableResourcesInput
             available={available}
+            total={total}
             onAvailableChange={onAvailableChange}
+            onTotalChange={onTotalChange}
             disabled={isDisabled}
+            resourceNames={resourceNames}
+            onResourceNameChange={onResourceNameChange}
           />
         </div>
 
@@ -79,11 +142,49 @@ export const SystemControls: React.FC<SystemControlsProps> = ({
               resourceCount={resourceCount}
               need={need}
               available={available}
+              allocation={allocation}
+              maxSafeRequest={maxSafeRequest}
+              isMaxSafeRequestOff={isMaxSafeRequestOff}
+              onProcessSelect={onRequestProcessSelect}
+              processNames={processNames}
+              resourceNames={resourceNames}
               onRequestSubmit={onRequestSubmit}
+              onReleaseSubmit={onReleaseSubmit}
               isProcessing={isProcessingRequest}
               disabled={isDisabled}
               shouldResetAfterRequest={shouldResetRequest}
               onResetComplete={onRequestResetComplete}
+              presetRequest={presetRequest}
+              onRequestChange={onRequestChange}
+            />
+          </div>
+        )}
+
+        {/* Admission Control */}
+        {onAdmitProcess && onRetireProcess && (
+          <div className="pt-2">
+            <AdmissionPanel
+              processCount={processCount}
+              resourceCount={resourceCount}
+              total={total ?? available}
+              allocation={allocation}
+              processNames={processNames}
+              resourceNames={resourceNames}
+              onAdmit={onAdmitProcess}
+              onRetire={onRetireProcess}
+              isProcessing={isProcessingRequest}
+              disabled={isDisabled}
+            />
+          </div>
+        )}
+
+        {/* Scenario Library */}
+        {scenario && onLoadScenario && (
+          <div className="pt-2">
+            <ScenarioLibraryPanel
+              scenario={scenario}
+              onLoad={onLoadScenario}
+              disabled={isDisabled}
             />
           </div>
         )}
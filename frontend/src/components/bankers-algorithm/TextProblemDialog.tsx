@@ -0,0 +1,187 @@
+'use client';
+
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {X} from 'lucide-react';
+import {ValidationError} from '@/types/bankers-algorithm';
+import {parseTextProblem} from '@/lib/text-problem';
+
+interface TextProblemDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Loads the problem, returning what is wrong with the system it describes
+  onImport: (text: string) => ValidationError[];
+}
+
+const PLACEHOLDER = `        Allocation   Max      Available
+        A B C        A B C    A B C
+P0      0 1 0        7 5 3    3 3 2
+P1      2 0 0        3 2 2
+P2      3 0 2        9 0 2`;
+
+// Lines and matrix cells are worth pointing at; group names are in the text
+const formatIssue = ({field, message}: ValidationError) =>
+  field.startsWith('line ')
+    ? `Line ${field.slice('line '.length)}: ${message}`
+    : field.includes('[')
+      ? `${field}: ${message}`
+      : message;
+
+const plural = (count: number, noun: string, nouns: string) =>
+  `${count} ${count === 1 ? noun : nouns}`;
+
+const IssueList: React.FC<{
+  issues: ValidationError[];
+  className: string;
+}> = ({issues, className}) => (
+  <ul className={`list-disc pl-5 space-y-0.5 text-sm break-words ${className}`}>
+    {issues.map((issue, i) => (
+      <li key={i}>{formatIssue(issue)}</li>
+    ))}
+  </ul>
+);
+
+/**
+ * Paste a problem written as plain text, e.g. from an exam, and see how it
+ * is read before loading it
+ */
+export const TextProblemDialog: React.FC<TextProblemDialogProps> = ({
+  isOpen,
+  onClose,
+  onImport,
+}) => {
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [text, setText] = useState('');
+  const [loadErrors, setLoadErrors] = useState<ValidationError[]>([]);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (isOpen && !dialog.open) {
+      dialog.showModal();
+    } else if (!isOpen && dialog.open) {
+      dialog.close();
+    }
+  }, [isOpen]);
+
+  const result = useMemo(
+    () => (text.trim() ? parseTextProblem(text) : null),
+    [text],
+  );
+
+  const errors = [...(result?.errors ?? []), ...loadErrors];
+
+  const handleLoad = () => {
+    const systemErrors = onImport(text);
+    setLoadErrors(systemErrors);
+    if (systemErrors.length === 0) {
+      setText('');
+      onClose();
+    }
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={onClose}
+      className="w-[min(40rem,calc(100vw-2rem))] rounded-2xl p-0 shadow-xl backdrop:bg-black/50"
+      style={{
+        backgroundColor: 'var(--table-bg)',
+        color: 'var(--foreground)',
+        border: '1px solid var(--table-border)',
+      }}
+      aria-labelledby="text-problem-title"
+    >
+      <div className="p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2
+              id="text-problem-title"
+              className="text-base font-semibold text-gray-900 dark:text-gray-100"
+            >
+              Import from Text
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Paste a problem with a header row such as &ldquo;Allocation Max
+              Available&rdquo; followed by one row per process.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="btn-hover w-8 h-8 flex-shrink-0 rounded-full flex items-center justify-center transition-colors"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setLoadErrors([]);
+          }}
+          placeholder={PLACEHOLDER}
+          rows={10}
+          spellCheck={false}
+          className="w-full px-4 py-3 font-mono text-sm border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+          style={{
+            backgroundColor: 'var(--input-bg, #ffffff)',
+            borderColor: 'var(--input-border, #e1e1e1)',
+            color: 'var(--foreground)',
+          }}
+          aria-label="Problem text"
+        />
+
+        {/* How the text reads so far */}
+        {result && (
+          <div className="space-y-2" aria-live="polite">
+            {result.scenario && (
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                {`Reads as ${plural(
+                  result.scenario.processCount,
+                  'process',
+                  'processes',
+                )} and ${plural(
+                  result.scenario.resourceCount,
+                  'resource',
+                  'resources',
+                )}.`}
+              </div>
+            )}
+            {result.warnings.length > 0 && (
+              <IssueList
+                issues={result.warnings}
+                className="text-amber-700 dark:text-amber-400"
+              />
+            )}
+            {errors.length > 0 && (
+              <IssueList
+                issues={errors}
+                className="text-red-600 dark:text-red-400"
+              />
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="btn-hover px-4 py-2.5 text-sm font-medium rounded-full transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleLoad}
+            disabled={!result?.scenario}
+            className="px-4 py-2.5 text-sm font-medium text-white bg-gray-900 dark:bg-gray-100 dark:text-gray-900 hover:bg-gray-800 dark:hover:bg-gray-200 disabled:bg-gray-400 disabled:cursor-not-allowed rounded-full transition-colors duration-200"
+          >
+            Load Problem
+          </button>
+        </div>
+      </div>
+    </dialog>
+  );
+};
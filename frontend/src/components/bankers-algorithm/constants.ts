@@ -18,16 +18,16 @@ export const CONTROL_CONFIGS: Record<ControlType, ControlConfig> = {
     label: 'Processes',
     ariaLabel: 'process',
     minWarningMessage: 'Minimum 1 process required',
-    maxWarningMessage: 'Maximum 10 processes allowed',
+    maxWarningMessage: 'Maximum 500 processes allowed',
     minValue: 1,
-    maxValue: 10,
+    maxValue: 500,
   },
   resource: {
     label: 'Resources',
     ariaLabel: 'resource',
     minWarningMessage: 'Minimum 1 resource required',
-    maxWarningMessage: 'Maximum 10 resources allowed',
+    maxWarningMessage: 'Maximum 50 resources allowed',
     minValue: 1,
-    maxValue: 10,
+    maxValue: 50,
   },
 };
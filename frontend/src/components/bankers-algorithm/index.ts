@@ -5,5 +5,16 @@ export {ResourceControl} from './ResourceControl';
 export {AvailableResourcesInput} from './AvailableResourcesInput';
 export {default as AlgorithmTable} from './AlgorithmTable';
 export {RequestPanel} from './RequestPanel';
+export {AdmissionPanel} from './AdmissionPanel';
+export {ScenarioLibraryPanel} from './ScenarioLibraryPanel';
+export {ScenarioFileActions} from './ScenarioFileActions';
+export {TextProblemDialog} from './TextProblemDialog';
 export {StepByStepResults} from './StepByStepResults';
+export {SelectionStrategyControl} from './SelectionStrategyControl';
+export {SafeSequencesPanel} from './SafeSequencesPanel';
+export {ResourceAllocationGraph} from './ResourceAllocationGraph';
+export {RecoveryPanel} from './RecoveryPanel';
+export {AnalysisReport} from './AnalysisReport';
+export {ImageExportButtons} from './ImageExportButtons';
 export {AnimatedFinishBadge} from './AnimatedFinishBadge';
+export {NameInput} from './NameInput';
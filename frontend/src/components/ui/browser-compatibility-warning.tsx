@@ -54,7 +54,7 @@ export const BrowserCompatibilityWarning = ({
   }
 
   return (
-    <div className="fixed top-0 left-0 right-0 z-50 bg-gradient-to-r from-amber-500 to-orange-500 text-white shadow-lg">
+    <div className="fixed top-0 left-0 right-0 z-50 print:hidden bg-gradient-to-r from-amber-500 to-orange-500 text-white shadow-lg">
       <div className="max-w-7xl mx-auto px-4 py-3">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
@@ -9,7 +9,11 @@
 
 import {describe, test, expect, beforeEach} from 'bun:test';
 import {BankersAlgorithmCalculator} from '@/lib/bankers-algorithm-calculator';
-import {calculateNeedMatrix} from '@/utils/matrix-utils';
+import {
+  calculateNeedMatrix,
+  setMatrixCell,
+  updateResourceVectors,
+} from '@/utils/matrix-utils';
 import {ResourceRequest} from '@/types/bankers-algorithm';
 
 /**
@@ -91,6 +95,45 @@ describe('useBankersAlgorithm - Logic Validation', () => {
       newAvailable[1] = Math.max(0, -3);
       expect(newAvailable[1]).toBe(0);
     });
+
+    test('updateAllocation should keep Available until Total is set', () => {
+      const state = calculator.createDefaultState();
+      const newAllocation = setMatrixCell(state.allocation, 0, 0, 2);
+
+      expect(updateResourceVectors(state, newAllocation)).toEqual({
+        available: [2, 2, 3],
+        total: [4, 3, 3],
+      });
+    });
+
+    test('updateAllocation should keep a set Total and enforce conservation', () => {
+      const state = {...calculator.createDefaultState(), isTotalSet: true};
+
+      // Available gives up what is allocated
+      const allocation = setMatrixCell(state.allocation, 0, 0, 2);
+      const allocated = {
+        ...state,
+        allocation,
+        max: setMatrixCell(state.max, 0, 0, 3),
+        ...updateResourceVectors(state, allocation),
+      };
+      expect(allocated.total).toEqual([3, 3, 3]);
+      expect(allocated.available).toEqual([1, 2, 3]);
+      expect(calculator.validateSystemData(allocated)).toEqual([]);
+
+      // Allocating more than the system owns breaks conservation
+      const overAllocation = setMatrixCell(state.allocation, 0, 0, 4);
+      const overAllocated = {
+        ...state,
+        allocation: overAllocation,
+        max: setMatrixCell(state.max, 0, 0, 4),
+        ...updateResourceVectors(state, overAllocation),
+      };
+      expect(overAllocated.available).toEqual([0, 2, 3]);
+      expect(
+        calculator.validateSystemData(overAllocated).map(({field}) => field),
+      ).toContain('total[0]');
+    });
   });
 
   describe('Count Update Operations', () => {
@@ -9,21 +9,85 @@
  * - Safety checking
  * - Resource request processing
  * - Process/resource count management
+ * - Running calculator work on Web Workers, with progress and cancellation
  * - Matrix value updates
+ * - Undo and redo of changes to the system
+ * - Saving the scenario and restoring it on reload
  *
  * @module hooks/useBankersAlgorithm
  */
 
 import {useState, useCallback, useMemo, useRef, useEffect} from 'react';
 import {
+  AlgorithmMode,
+  AvailableIncreaseAnalysis,
   BankersAlgorithmState,
+  EditableMatrix,
+  MaxSafeRequest,
+  RecoveryOptions,
+  RecoveryPlan,
   ResourceRequest,
+  SafeSequenceEnumeration,
+  SafetyOptions,
+  StepState,
+  ValidationError,
+  WaitForGraph,
 } from '@/types/bankers-algorithm';
 import {BankersAlgorithmCalculator} from '@/lib/bankers-algorithm-calculator';
 import {
+  BankersTask,
+  BankersTaskResults,
+  GraphSystem,
+  OperationAnalysis,
+  TaskProgress,
+} from '@/lib/bankers-algorithm-tasks';
+import {
+  BankersAlgorithmWorkerClient,
+  TaskCancelledError,
+} from '@/lib/bankers-algorithm-worker-client';
+import {parseMatrixText} from '@/lib/matrix-text';
+import {
+  createStateFromScenario,
+  PROCESS_COUNT_LIMITS,
+  RESOURCE_COUNT_LIMITS,
+  Scenario,
+  toVersionedScenario,
+} from '@/lib/scenario';
+import {parseScenarioFile, ScenarioFileError} from '@/lib/scenario-file';
+import {decodeScenarioLink, encodeScenarioLink} from '@/lib/scenario-link';
+import {loadSavedScenario, saveScenario} from '@/lib/scenario-storage';
+import {buildStepStates} from '@/lib/step-states';
+import {
+  EMPTY_HISTORY,
+  isSameSnapshot,
+  recordChange,
+  redoChange,
+  StateHistory,
+  SystemSnapshot,
+  takeSnapshot,
+  undoChange,
+} from '@/lib/state-history';
+import {
+  formatProcessSequence,
+  getProcessName,
+  setName,
+} from '@/lib/system-labels';
+import {parseTextProblem} from '@/lib/text-problem';
+import {
+  calculateAvailableResources,
   calculateNeedMatrix,
+  calculateTotalResources,
+  createZeroMatrix,
   generateRandomMatrix,
   generateRandomVector,
+  matrixColumnSums,
+  resizeMatrix,
+  setMatrixBlock,
+  setMatrixCell,
+  setVectorEntry,
+  shareEqualRows,
+  updateNeedMatrix,
+  updateResourceVectors,
 } from '@/utils/matrix-utils';
 
 export interface UseBankersAlgorithmReturn {
@@ -32,10 +96,39 @@ export interface UseBankersAlgorithmReturn {
   isProcessingRequest: boolean;
   requestResult: RequestResultState;
   stepNavigationState: StepNavigationState;
+  safeSequenceEnumeration: SafeSequenceEnumeration | null;
+  availableIncrease: AvailableIncreaseAnalysis | null;
+  algorithmMode: AlgorithmMode;
+  deadlockedProcesses: string[];
+  // Largest grantable requests of the process selected in the request panel
+  maxSafeRequest: MaxSafeRequest | null;
+  // The system is too large to search them on every edit
+  isMaxSafeRequestOff: boolean;
+  graphSystem: GraphSystem;
+  // Null until the first one is built
+  waitForGraph: WaitForGraph | null;
+  safetyOptions: SafetyOptions;
+  taskProgress: TaskProgress | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  currentScenario: Scenario;
+  // Request a shared link had entered, for the request panel to show
+  linkedRequest: ResourceRequest | null;
 
   // Actions
   checkSafety: () => void;
+  cancelAnalysis: () => void;
+  detectDeadlock: () => void;
+  changeAlgorithmMode: (mode: AlgorithmMode) => void;
+  changeSafetyOptions: (options: SafetyOptions) => void;
+  planRecovery: (
+    options: Omit<RecoveryOptions, 'mode'>,
+  ) => Promise<RecoveryPlan | null>;
+  applyRecoveryPlan: (plan: RecoveryPlan) => void;
   processResourceRequest: (request: ResourceRequest) => void;
+  processResourceRelease: (release: ResourceRequest) => void;
+  admitProcess: (maxClaim: number[]) => void;
+  retireProcess: (processId: number) => void;
   updateAllocation: (
     processIndex: number,
     resourceIndex: number,
@@ -46,19 +139,42 @@ export interface UseBankersAlgorithmReturn {
     resourceIndex: number,
     value: number,
   ) => void;
+  updateRequest: (
+    processIndex: number,
+    resourceIndex: number,
+    value: number,
+  ) => void;
   updateAvailable: (index: number, value: number) => void;
+  updateTotal: (index: number, value: number) => void;
+  updateProcessName: (processIndex: number, name: string) => void;
+  updateResourceName: (resourceIndex: number, name: string) => void;
   updateProcessCount: (newCount: number) => void;
   updateResourceCount: (newCount: number) => void;
+  pasteMatrixText: (
+    matrix: EditableMatrix,
+    text: string,
+    at?: {process: number; resource: number},
+  ) => boolean;
   resetAlgorithm: () => void;
   loadDefaultExample: () => void;
   completeProcess: (processId: number) => void;
   randomizeData: () => void;
+  undo: () => void;
+  redo: () => void;
+  loadScenario: (scenario: Scenario, name: string) => void;
+  importScenarioFile: (text: string, fileName: string) => ScenarioFileError[];
+  importTextProblem: (text: string) => ValidationError[];
+  updateDraftRequest: (request: ResourceRequest | null) => void;
+  selectRequestProcess: (processId: number) => void;
+  copyScenarioLink: () => Promise<void>;
   handleStepChange: (stepIndex: number | undefined) => void;
   setRequestResult: React.Dispatch<React.SetStateAction<RequestResultState>>;
 }
 
 export interface RequestResultState {
   isRequest: boolean;
+  // Set for operations other than a plain resource request
+  operation?: 'release' | 'admit' | 'retire';
   wasGranted?: boolean;
   processId?: number;
   requestVector?: number[];
@@ -67,13 +183,7 @@ export interface RequestResultState {
 
 export interface StepNavigationState {
   currentStepIndex: number | undefined;
-  stepStates: Array<{
-    work: number[];
-    finish: boolean[];
-    allocation: number[][];
-    need: number[][];
-    available?: number[];
-  }>;
+  stepStates: StepState[];
   originalStateBeforeSteps: {
     available: number[];
     allocation: number[][];
@@ -89,8 +199,60 @@ export interface UseBankersAlgorithmOptions {
   autoPreviewOnMount?: boolean;
 }
 
-const PROCESS_COUNT_LIMITS = {min: 1, max: 10} as const;
-const RESOURCE_COUNT_LIMITS = {min: 1, max: 10} as const;
+// Delay (ms) before an edit is saved, so typing writes the scenario once
+const SAVE_DELAY = 500;
+
+// Errors spelled out in a notification before the rest are counted
+const MAX_ERRORS_IN_MESSAGE = 3;
+
+// Matrix cells (processes × resources) above which the largest grantable
+// requests are not searched; one process of a 500 × 50 system takes about
+// a second, and the search restarts on every edit
+const MAX_SAFE_REQUEST_SEARCH_CELLS = 5000;
+
+// Matrices a max-safe-request search was run on
+type MaxSafeRequestSystem = Pick<
+  BankersAlgorithmState,
+  'allocation' | 'max' | 'available' | 'need'
+>;
+
+const NO_ROWS: number[][] = [];
+
+const MATRIX_NAMES: Record<EditableMatrix, string> = {
+  allocation: 'Allocation',
+  max: 'Max',
+  request: 'Request',
+};
+
+const summarizeErrors = (errors: ValidationError[]) => {
+  const shown = errors
+    .slice(0, MAX_ERRORS_IN_MESSAGE)
+    .map(({field, message}) => `${field}: ${message}`);
+  if (errors.length > MAX_ERRORS_IN_MESSAGE) {
+    shown.push(`and ${errors.length - MAX_ERRORS_IN_MESSAGE} more`);
+  }
+  return shown.join('; ');
+};
+
+/**
+ * States computed on a worker arrive as copies; reusing the rows that did
+ * not change keeps untouched table rows from re-rendering
+ */
+function shareRowsWith(
+  next: BankersAlgorithmState,
+  current: BankersAlgorithmState,
+): BankersAlgorithmState {
+  return {
+    ...next,
+    allocation: shareEqualRows(next.allocation, current.allocation),
+    max: shareEqualRows(next.max, current.max),
+    need: shareEqualRows(next.need, current.need),
+    request:
+      next.request && current.request
+        ? shareEqualRows(next.request, current.request)
+        : next.request,
+  };
+}
 
 export function useBankersAlgorithm(
   options: UseBankersAlgorithmOptions = {},
@@ -100,6 +262,24 @@ export function useBankersAlgorithm(
   // Memoized calculator instance
   const calculator = useMemo(() => new BankersAlgorithmCalculator(), []);
 
+  // Workers for the shown analysis, for background searches and for
+  // recovery plans, so neither a long search nor the search restarted by
+  // every edit holds up the trace or a plan being asked for
+  const analysisWorker = useMemo(() => new BankersAlgorithmWorkerClient(), []);
+  const searchWorker = useMemo(() => new BankersAlgorithmWorkerClient(), []);
+  const recoveryWorker = useMemo(() => new BankersAlgorithmWorkerClient(), []);
+  const activeTaskRef = useRef<number | null>(null);
+  const [taskProgress, setTaskProgress] = useState<TaskProgress | null>(null);
+
+  useEffect(
+    () => () => {
+      analysisWorker.dispose();
+      searchWorker.dispose();
+      recoveryWorker.dispose();
+    },
+    [analysisWorker, searchWorker, recoveryWorker],
+  );
+
   // Core algorithm state
   const [algorithmState, setAlgorithmState] = useState<BankersAlgorithmState>(
     () => calculator.createDefaultState(),
@@ -111,19 +291,27 @@ export function useBankersAlgorithm(
     isRequest: false,
   });
 
+  // All safe sequences of the last analyzed state
+  const [safeSequenceEnumeration, setSafeSequenceEnumeration] =
+    useState<SafeSequenceEnumeration | null>(null);
+
+  // Smallest Available increase that would make the last unsafe state safe
+  const [availableIncrease, setAvailableIncrease] =
+    useState<AvailableIncreaseAnalysis | null>(null);
+
+  // Avoidance (Max/Need) or detection (Request) analysis
+  const [algorithmMode, setAlgorithmMode] =
+    useState<AlgorithmMode>('avoidance');
+  const [deadlockedProcesses, setDeadlockedProcesses] = useState<string[]>([]);
+  const [safetyOptions, setSafetyOptions] = useState<SafetyOptions>({
+    strategy: 'restartFromZero',
+  });
+
   // Step navigation state
   const [currentStepIndex, setCurrentStepIndex] = useState<number | undefined>(
     undefined,
   );
-  const [stepStates, setStepStates] = useState<
-    Array<{
-      work: number[];
-      finish: boolean[];
-      allocation: number[][];
-      need: number[][];
-      available?: number[];
-    }>
-  >([]);
+  const [stepStates, setStepStates] = useState<StepState[]>([]);
   const [originalStateBeforeSteps, setOriginalStateBeforeSteps] = useState<{
     available: number[];
     allocation: number[][];
@@ -134,6 +322,122 @@ export function useBankersAlgorithm(
   // Track initial preview
   const hasShownInitialPreview = useRef(false);
 
+  // System state as entered, without the matrices of the inspected step
+  const baseState = useMemo(
+    () =>
+      currentStepIndex !== undefined && originalStateBeforeSteps
+        ? {...algorithmState, ...originalStateBeforeSteps}
+        : algorithmState,
+    [algorithmState, currentStepIndex, originalStateBeforeSteps],
+  );
+
+  // Undo history of the system as entered; edits note which value they
+  // change so that repeated edits of one value coalesce
+  const [history, setHistory] = useState<StateHistory>(EMPTY_HISTORY);
+  const recordedSnapshotRef = useRef<SystemSnapshot | null>(null);
+  const pendingEditRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const snapshot = takeSnapshot(baseState);
+    const previous = recordedSnapshotRef.current;
+    const editKey = pendingEditRef.current;
+    recordedSnapshotRef.current = snapshot;
+    pendingEditRef.current = null;
+
+    if (previous && !isSameSnapshot(previous, snapshot)) {
+      setHistory((prev) =>
+        recordChange(
+          prev,
+          previous,
+          editKey ? {key: editKey, time: Date.now()} : null,
+        ),
+      );
+    }
+  }, [baseState]);
+
+  // Largest grantable requests of the process selected in the request
+  // panel, always for the state before step navigation. A result is kept
+  // with the matrices and process it was found for, so that of an earlier
+  // system is never offered while the next search runs
+  const [requestProcess, setRequestProcess] = useState(0);
+  const [maxSafeSearch, setMaxSafeSearch] = useState<{
+    system: MaxSafeRequestSystem;
+    processId: number;
+    request: MaxSafeRequest;
+  } | null>(null);
+  const isMaxSafeRequestOff =
+    baseState.processCount * baseState.resourceCount >
+    MAX_SAFE_REQUEST_SEARCH_CELLS;
+  const canSearchMaxSafeRequest =
+    algorithmMode === 'avoidance' &&
+    !isMaxSafeRequestOff &&
+    requestProcess < baseState.processCount &&
+    calculator.validateSystemData(baseState).length === 0;
+
+  // Step navigation and analyses give baseState a new identity without
+  // changing its matrices; only the matrices restart the search
+  const {
+    allocation: baseAllocation,
+    max: baseMax,
+    available: baseAvailable,
+    need: baseNeed,
+  } = baseState;
+  const baseStateRef = useRef(baseState);
+  useEffect(() => {
+    baseStateRef.current = baseState;
+  }, [baseState]);
+
+  useEffect(() => {
+    if (!canSearchMaxSafeRequest) return;
+
+    const system = {
+      allocation: baseAllocation,
+      max: baseMax,
+      available: baseAvailable,
+      need: baseNeed,
+    };
+    const {id, promise} = searchWorker.run({
+      kind: 'findMaxSafeRequest',
+      processId: requestProcess,
+      state: {...baseStateRef.current, ...system},
+    });
+    promise.then(
+      (request) =>
+        setMaxSafeSearch({system, processId: requestProcess, request}),
+      () => {},
+    );
+
+    return () => searchWorker.cancel(id);
+  }, [
+    canSearchMaxSafeRequest,
+    requestProcess,
+    baseAllocation,
+    baseMax,
+    baseAvailable,
+    baseNeed,
+    searchWorker,
+  ]);
+
+  const maxSafeRequest = useMemo(() => {
+    if (!canSearchMaxSafeRequest || !maxSafeSearch) return null;
+    const {system, processId, request} = maxSafeSearch;
+    return processId === requestProcess &&
+      system.allocation === baseAllocation &&
+      system.max === baseMax &&
+      system.available === baseAvailable &&
+      system.need === baseNeed
+      ? request
+      : null;
+  }, [
+    maxSafeSearch,
+    canSearchMaxSafeRequest,
+    requestProcess,
+    baseAllocation,
+    baseMax,
+    baseAvailable,
+    baseNeed,
+  ]);
+
   /**
    * Clamps a count value within allowed limits
    */
@@ -143,92 +447,78 @@ export function useBankersAlgorithm(
     [],
   );
 
-  /**
-   * Builds step states for navigation from algorithm steps
-   * Optimized: Uses references for read-only data to reduce memory allocations
-   */
-  const buildStepStates = useCallback(
-    (
-      steps: BankersAlgorithmState['algorithmSteps'],
-      initialState: {
-        available: number[];
-        allocation: number[][];
-        need: number[][];
-        finish: boolean[];
-        processCount: number;
-      },
-      newState?: BankersAlgorithmState,
-      isGrantedRequest?: boolean,
-    ) => {
-      const states: Array<{
-        work: number[];
-        finish: boolean[];
-        allocation: number[][];
-        need: number[][];
-        available?: number[];
-      }> = [];
-
-      // Use shallow copies for tracking, deep clone only when state changes
-      let currentWork = initialState.available;
-      let currentFinish = new Array(initialState.processCount).fill(false);
-      let currentAllocation = initialState.allocation;
-      let currentNeed = initialState.need;
-      let currentAvailable = initialState.available;
-
-      steps.forEach((step) => {
-        // Only clone when allocation actually changes (granted request)
-        if (step.description.includes('Temporarily allocate resources')) {
-          if (isGrantedRequest && newState) {
-            currentAvailable = newState.available;
-            currentAllocation = newState.allocation;
-            currentNeed = newState.need;
-          }
-        }
+  // System the graphs show: the work and finish flags of the inspected
+  // step, otherwise the system before any process finishes
+  const graphStepState =
+    currentStepIndex !== undefined ? stepStates[currentStepIndex] : undefined;
+  const graphDemand =
+    algorithmMode === 'detection'
+      ? (algorithmState.request ?? NO_ROWS)
+      : algorithmState.need;
+  const graphSystem = useMemo<GraphSystem>(
+    () => ({
+      allocation: algorithmState.allocation,
+      demand: graphDemand,
+      available: graphStepState?.work ?? algorithmState.available,
+      finish:
+        graphStepState?.finish ??
+        Array(algorithmState.allocation.length).fill(false),
+    }),
+    [
+      algorithmState.allocation,
+      algorithmState.available,
+      graphDemand,
+      graphStepState,
+    ],
+  );
 
-        // Update work vector when it changes
-        if (step.workVector && step.workVector.length > 0) {
-          currentWork = step.workVector;
-        }
+  // The wait-for graph compares every pair of processes, too slow for a
+  // render at hundreds of them, so it is built on the worker. The last one
+  // stays up while the next is built, as long as it has the same processes
+  const [builtWaitForGraph, setBuiltWaitForGraph] = useState<{
+    processCount: number;
+    graph: WaitForGraph;
+  } | null>(null);
 
-        // Update finish state when process completes
-        if (step.processChecked && step.canFinish) {
-          const processIndex = parseInt(step.processChecked.replace('P', ''));
-          if (!isNaN(processIndex)) {
-            // Clone finish array only when it changes
-            currentFinish = [...currentFinish];
-            currentFinish[processIndex] = true;
-          }
-        }
+  useEffect(() => {
+    const processCount = graphSystem.allocation.length;
+    const {id, promise} = analysisWorker.run({
+      kind: 'buildWaitForGraph',
+      system: graphSystem,
+    });
+    promise.then(
+      (graph) => setBuiltWaitForGraph({processCount, graph}),
+      () => {},
+    );
 
-        // Store references (read-only for UI display)
-        states.push({
-          work: currentWork,
-          finish: currentFinish,
-          allocation: currentAllocation,
-          need: currentNeed,
-          available: currentAvailable,
-        });
-      });
+    return () => analysisWorker.cancel(id);
+  }, [analysisWorker, graphSystem]);
 
-      return states;
-    },
-    [],
-  );
+  const waitForGraph =
+    builtWaitForGraph?.processCount === graphSystem.allocation.length
+      ? builtWaitForGraph.graph
+      : null;
 
   /**
    * Updates allocation matrix value
    */
   const updateAllocation = useCallback(
     (processIndex: number, resourceIndex: number, value: number) => {
+      pendingEditRef.current = `allocation:${processIndex}:${resourceIndex}`;
       setAlgorithmState((prev) => {
-        const newAllocation = prev.allocation.map((row) => [...row]);
-        newAllocation[processIndex][resourceIndex] = Math.max(0, value);
-        const newNeed = calculateNeedMatrix(prev.max, newAllocation);
+        const newAllocation = setMatrixCell(
+          prev.allocation,
+          processIndex,
+          resourceIndex,
+          Math.max(0, value),
+        );
+        if (newAllocation === prev.allocation) return prev;
 
         return {
           ...prev,
           allocation: newAllocation,
-          need: newNeed,
+          need: updateNeedMatrix(prev, prev.max, newAllocation),
+          ...updateResourceVectors(prev, newAllocation),
         };
       });
     },
@@ -240,32 +530,135 @@ export function useBankersAlgorithm(
    */
   const updateMax = useCallback(
     (processIndex: number, resourceIndex: number, value: number) => {
+      pendingEditRef.current = `max:${processIndex}:${resourceIndex}`;
       setAlgorithmState((prev) => {
-        const newMax = prev.max.map((row) => [...row]);
-        newMax[processIndex][resourceIndex] = Math.max(0, value);
-        const newNeed = calculateNeedMatrix(newMax, prev.allocation);
+        const newMax = setMatrixCell(
+          prev.max,
+          processIndex,
+          resourceIndex,
+          Math.max(0, value),
+        );
+        if (newMax === prev.max) return prev;
 
         return {
           ...prev,
           max: newMax,
-          need: newNeed,
+          need: updateNeedMatrix(prev, newMax, prev.allocation),
         };
       });
     },
     [],
   );
 
+  /**
+   * Updates outstanding request matrix value (detection mode)
+   */
+  const updateRequest = useCallback(
+    (processIndex: number, resourceIndex: number, value: number) => {
+      pendingEditRef.current = `request:${processIndex}:${resourceIndex}`;
+      setAlgorithmState((prev) => {
+        const request =
+          prev.request ??
+          createZeroMatrix(prev.processCount, prev.resourceCount);
+        const newRequest = setMatrixCell(
+          request,
+          processIndex,
+          resourceIndex,
+          Math.max(0, value),
+        );
+        if (newRequest === prev.request) return prev;
+
+        return {...prev, request: newRequest};
+      });
+    },
+    [],
+  );
+
   /**
    * Updates available resources
    */
   const updateAvailable = useCallback((index: number, value: number) => {
+    pendingEditRef.current = `available:${index}`;
+    setAlgorithmState((prev) => {
+      const newAvailable = setVectorEntry(
+        prev.available,
+        index,
+        Math.max(0, value),
+      );
+      if (newAvailable === prev.available) return prev;
+
+      return {
+        ...prev,
+        available: newAvailable,
+        total: calculateTotalResources(prev.allocation, newAvailable),
+      };
+    });
+  }, []);
+
+  /**
+   * Updates total system resources, deriving available from it
+   * Total never drops below what is already allocated
+   */
+  const updateTotal = useCallback((index: number, value: number) => {
+    pendingEditRef.current = `total:${index}`;
     setAlgorithmState((prev) => {
-      const newAvailable = [...prev.available];
-      newAvailable[index] = Math.max(0, value);
-      return {...prev, available: newAvailable};
+      const allocated = matrixColumnSums(prev.allocation)[index] || 0;
+      const newTotal = setVectorEntry(
+        prev.total,
+        index,
+        Math.max(allocated, value),
+      );
+      if (newTotal === prev.total) return prev;
+
+      return {
+        ...prev,
+        total: newTotal,
+        isTotalSet: true,
+        available: calculateAvailableResources(newTotal, prev.allocation),
+      };
     });
   }, []);
 
+  /**
+   * Names a process; an empty name restores its default label
+   */
+  const updateProcessName = useCallback(
+    (processIndex: number, name: string) => {
+      setAlgorithmState((prev) => {
+        const processNames = setName(
+          prev.processNames,
+          processIndex,
+          prev.processCount,
+          name,
+        );
+        return processNames === prev.processNames
+          ? prev
+          : {...prev, processNames};
+      });
+    },
+    [],
+  );
+
+  /**
+   * Names a resource; an empty name restores its default label
+   */
+  const updateResourceName = useCallback(
+    (resourceIndex: number, name: string) => {
+      setAlgorithmState((prev) => {
+        const resourceNames = setName(
+          prev.resourceNames,
+          resourceIndex,
+          prev.resourceCount,
+          name,
+        );
+        return resourceNames === prev.resourceNames
+          ? prev
+          : {...prev, resourceNames};
+      });
+    },
+    [],
+  );
+
   /**
    * Updates process count with matrix resizing
    */
@@ -292,14 +685,113 @@ export function useBankersAlgorithm(
     [calculator, clampCount],
   );
 
+  /**
+   * Fills a matrix from delimited text (a CSV file, or cells copied from a
+   * spreadsheet) starting at a cell, adding the processes and resources the
+   * values need within the count limits. Without a starting cell the text
+   * replaces the whole matrix. Returns whether the text was used
+   */
+  const pasteMatrixText = useCallback(
+    (
+      matrix: EditableMatrix,
+      text: string,
+      at?: {process: number; resource: number},
+    ) => {
+      const action = at ? 'Paste' : 'Import';
+      const {values, errors} = parseMatrixText(text);
+      if (!values) {
+        onError?.(`${action} Failed`, summarizeErrors(errors), 6000);
+        return false;
+      }
+
+      const processIndex = at?.process ?? 0;
+      const resourceIndex = at?.resource ?? 0;
+      const rowEnd = processIndex + values.length;
+      const columnEnd = resourceIndex + values[0].length;
+
+      pendingEditRef.current = null;
+      setAlgorithmState((prev) => {
+        const processCount = Math.max(
+          prev.processCount,
+          Math.min(PROCESS_COUNT_LIMITS.max, rowEnd),
+        );
+        const resourceCount = Math.max(
+          prev.resourceCount,
+          Math.min(RESOURCE_COUNT_LIMITS.max, columnEnd),
+        );
+        const resized =
+          processCount === prev.processCount &&
+          resourceCount === prev.resourceCount
+            ? prev
+            : calculator.resizeMatrices(prev, processCount, resourceCount);
+
+        const block = at
+          ? values
+          : resizeMatrix(values, processCount, resourceCount);
+        const current =
+          matrix === 'request'
+            ? (resized.request ?? createZeroMatrix(processCount, resourceCount))
+            : resized[matrix];
+        const next = setMatrixBlock(
+          current,
+          processIndex,
+          resourceIndex,
+          block,
+        );
+        if (next === current) return resized;
+
+        if (matrix === 'allocation') {
+          return {
+            ...resized,
+            allocation: next,
+            need: updateNeedMatrix(resized, resized.max, next),
+            ...updateResourceVectors(resized, next),
+          };
+        }
+        if (matrix === 'max') {
+          return {
+            ...resized,
+            max: next,
+            need: updateNeedMatrix(resized, next, resized.allocation),
+          };
+        }
+        return {...resized, request: next};
+      });
+
+      if (
+        rowEnd > PROCESS_COUNT_LIMITS.max ||
+        columnEnd > RESOURCE_COUNT_LIMITS.max
+      ) {
+        onInfo?.(
+          'Values Left Out',
+          `Values past ${PROCESS_COUNT_LIMITS.max} processes or ${RESOURCE_COUNT_LIMITS.max} resources do not fit and were left out.`,
+          5000,
+        );
+      } else if (!at) {
+        onSuccess?.(
+          'Matrix Imported',
+          `${MATRIX_NAMES[matrix]} has been replaced with ${values.length} × ${values[0].length} values.`,
+          3000,
+        );
+      }
+      return true;
+    },
+    [calculator, onError, onInfo, onSuccess],
+  );
+
   /**
    * Resets algorithm to empty state while preserving counts
    */
   const resetAlgorithm = useCallback(() => {
+    // Names identify processes and resources, so they outlive their values
     setAlgorithmState((prev) => {
       const freshState = calculator.createFreshState();
       return calculator.resizeMatrices(
-        freshState,
+        {
+          ...freshState,
+          processNames: prev.processNames,
+          resourceNames: prev.resourceNames,
+        },
         prev.processCount,
         prev.resourceCount,
       );
@@ -307,6 +799,9 @@ export function useBankersAlgorithm(
     setCurrentStepIndex(undefined);
     setStepStates([]);
     setRequestResult({isRequest: false});
+    setSafeSequenceEnumeration(null);
+    setAvailableIncrease(null);
+    setDeadlockedProcesses([]);
     onSuccess?.(
       'System Reset',
       'Matrix values have been reset while preserving process and resource counts.',
@@ -322,6 +817,9 @@ export function useBankersAlgorithm(
     setAlgorithmState(defaultState);
     setCurrentStepIndex(undefined);
     setStepStates([]);
+    setSafeSequenceEnumeration(null);
+    setAvailableIncrease(null);
+    setDeadlockedProcesses([]);
     onSuccess?.(
       'Example Loaded',
       "Classical Banker's Algorithm example has been loaded successfully.",
@@ -344,13 +842,19 @@ export function useBankersAlgorithm(
           });
           onSuccess?.(
             'Process Completed',
-            `Process P${processId} has completed execution and released all resources.`,
+            `Process ${getProcessName(
+              algorithmState.processNames,
+              processId,
+            )} has completed execution and released all resources.`,
             5000,
           );
         } else {
           onError?.(
             'Cannot Complete Process',
-            `Process P${processId} cannot be completed yet. It still has unfinished tasks.`,
+            `Process ${getProcessName(
+              algorithmState.processNames,
+              processId,
+            )} cannot be completed yet. It still has unfinished tasks.`,
             5000,
           );
         }
@@ -381,17 +885,30 @@ export function useBankersAlgorithm(
         row.map((maxVal) => Math.floor(Math.random() * (maxVal + 1))),
       );
 
-      // 3. Generate random Available resources (values 1-10)
-      const available = generateRandomVector(resourceCount, 10);
+      // 3. Generate random Available resources (values 1-10), topped up so
+      // the system owns enough of each resource for every Max claim
+      const allocated = matrixColumnSums(allocation);
+      const available = generateRandomVector(resourceCount, 10).map(
+        (units, j) =>
+          Math.max(units, Math.max(...max.map((row) => row[j])) - allocated[j]),
+      );
 
       const need = calculateNeedMatrix(max, allocation);
 
+      // 4. Generate random outstanding requests where Request <= Need
+      const request = need.map((row) =>
+        row.map((needVal) => Math.floor(Math.random() * (needVal + 1))),
+      );
+
       return {
         ...prev,
         allocation,
         max,
         available,
+        total: calculateTotalResources(allocation, available),
+        isTotalSet: false,
         need,
+        request,
         finish: Array(processCount).fill(false),
         safeSequence: [],
         algorithmSteps: [],
@@ -405,15 +922,179 @@ export function useBankersAlgorithm(
     setCurrentStepIndex(undefined);
     setStepStates([]);
     setRequestResult({isRequest: false});
+    setSafeSequenceEnumeration(null);
+    setAvailableIncrease(null);
+    setDeadlockedProcesses([]);
 
     const notify = onInfo || onSuccess;
     notify?.(
       'Data Randomized',
-      'Generated new random values for Available, Max, and Allocation matrices.',
+      'Generated new random values for Available, Max, Allocation, and Request matrices.',
       2000,
     );
   }, [onSuccess, onInfo]);
 
+  /**
+   * Shows a system in place of the current one, clearing the results shown
+   */
+  const showSystem = useCallback((snapshot: SystemSnapshot) => {
+    setAlgorithmState((prev) => ({
+      ...prev,
+      ...snapshot,
+      finish: Array(snapshot.processCount).fill(false),
+      safeSequence: [],
+      algorithmSteps: [],
+      isSafe: undefined,
+      lastUpdated: new Date(),
+    }));
+    setCurrentStepIndex(undefined);
+    setStepStates([]);
+    setRequestResult({isRequest: false});
+    setSafeSequenceEnumeration(null);
+    setAvailableIncrease(null);
+    setDeadlockedProcesses([]);
+  }, []);
+
+  /**
+   * Brings back a system the history already holds, without recording it
+   */
+  const restoreSnapshot = useCallback(
+    (snapshot: SystemSnapshot) => {
+      recordedSnapshotRef.current = snapshot;
+      showSystem(snapshot);
+    },
+    [showSystem],
+  );
+
+  // A running analysis would overwrite the restored system when it finishes
+  const isBusy = algorithmState.isCalculating || isProcessingRequest;
+
+  /**
+   * Undoes the last change to the system
+   */
+  const undo = useCallback(() => {
+    const change = isBusy ? null : undoChange(history, takeSnapshot(baseState));
+    if (!change) return;
+
+    setHistory(change.history);
+    restoreSnapshot(change.snapshot);
+  }, [isBusy, history, baseState, restoreSnapshot]);
+
+  /**
+   * Redoes the last undone change
+   */
+  const redo = useCallback(() => {
+    const change = isBusy ? null : redoChange(history, takeSnapshot(baseState));
+    if (!change) return;
+
+    setHistory(change.history);
+    restoreSnapshot(change.snapshot);
+  }, [isBusy, history, baseState, restoreSnapshot]);
+
+  /**
+   * Replaces the system with a scenario; loading one can be undone
+   */
+  const loadScenario = useCallback(
+    (scenario: Scenario, name: string) => {
+      showSystem(takeSnapshot(createStateFromScenario(scenario)));
+      onSuccess?.('Scenario Loaded', `"${name}" has been loaded.`, 3000);
+    },
+    [showSystem, onSuccess],
+  );
+
+  /**
+   * Loads a scenario file, or returns what is wrong with it
+   */
+  const importScenarioFile = useCallback(
+    (text: string, fileName: string) => {
+      const {scenario, errors} = parseScenarioFile(text, calculator);
+      if (scenario) {
+        loadScenario(scenario, fileName);
+      }
+      return errors;
+    },
+    [calculator, loadScenario],
+  );
+
+  /**
+   * Loads a problem written as plain text, or returns what is wrong with it
+   */
+  const importTextProblem = useCallback(
+    (text: string) => {
+      const {scenario, errors} = parseTextProblem(text);
+      const systemErrors = scenario
+        ? calculator.validateSystemData(createStateFromScenario(scenario))
+        : errors;
+      if (scenario && systemErrors.length === 0) {
+        loadScenario(scenario, 'Text problem');
+      }
+      return systemErrors;
+    },
+    [calculator, loadScenario],
+  );
+
+  // Inputs of the system as entered, e.g. for saving it
+  const currentScenario = useMemo(
+    () => toVersionedScenario(baseState).scenario,
+    [baseState],
+  );
+
+  // Request being entered in the request panel, which a copied link keeps
+  const draftRequestRef = useRef<ResourceRequest | null>(null);
+  const updateDraftRequest = useCallback((request: ResourceRequest | null) => {
+    draftRequestRef.current = request;
+  }, []);
+
+  // Process selected in the request panel, whose largest requests are searched
+  const selectRequestProcess = useCallback((processId: number) => {
+    setRequestProcess(processId);
+  }, []);
+
+  /**
+   * Copies a link that opens the system as entered, with the step of the
+   * safety check being inspected and the request being entered
+   */
+  const copyScenarioLink = useCallback(async () => {
+    const draft = draftRequestRef.current;
+    // Steps of a request or of detection are not those of a safety check
+    const isSafetyStep =
+      algorithmMode === 'avoidance' &&
+      !requestResult.isRequest &&
+      currentStepIndex !== undefined;
+    const hasDraft =
+      draft !== null &&
+      draft.processId < currentScenario.processCount &&
+      draft.requestVector.length === currentScenario.resourceCount &&
+      draft.requestVector.some((units) => units > 0);
+
+    const hash = encodeScenarioLink({
+      scenario: currentScenario,
+      ...(isSafetyStep && {step: currentStepIndex, safetyOptions}),
+      ...(hasDraft && {request: draft}),
+    });
+    const {origin, pathname, search} = window.location;
+    try {
+      await navigator.clipboard.writeText(
+        `${origin}${pathname}${search}#${hash}`,
+      );
+      onSuccess?.('Link Copied', 'Opening the link shows this system.', 3000);
+    } catch {
+      onError?.(
+        'Link Not Copied',
+        'The clipboard could not be written to.',
+        5000,
+      );
+    }
+  }, [
+    algorithmMode,
+    requestResult.isRequest,
+    currentStepIndex,
+    currentScenario,
+    safetyOptions,
+    onSuccess,
+    onError,
+  ]);
+
   /**
    * Handles step navigation changes
    * Optimized: Direct assignment for display (read-only in UI)
@@ -452,150 +1133,227 @@ export function useBankersAlgorithm(
   );
 
   /**
-   * Checks system safety and updates state with results
+   * Runs a task on the analysis worker, superseding the one still running.
+   * Resolves to null when the task is cancelled or fails.
    */
-  const checkSafety = useCallback(() => {
-    // Validate system state
-    const validationErrors = calculator.validateSystemData(algorithmState);
-    if (validationErrors.length > 0) {
-      onError?.(
-        'System Validation Failed',
-        `Please fix the following issues: ${validationErrors
-          .map((e) => e.message)
-          .join(', ')}`,
-        8000,
-      );
-      return;
-    }
+  const runAnalysisTask = useCallback(
+    <T extends BankersTask>(
+      task: T,
+    ): Promise<BankersTaskResults[T['kind']] | null> => {
+      if (activeTaskRef.current !== null) {
+        analysisWorker.cancel(activeTaskRef.current);
+      }
 
-    // Clear previous state
-    setAlgorithmState((prev) => ({
-      ...prev,
-      isCalculating: true,
-      algorithmSteps: [],
-      safeSequence: [],
-      finish: Array(prev.processCount).fill(false),
-      isSafe: undefined,
-    }));
-    setRequestResult({isRequest: false});
-    setCurrentStepIndex(undefined);
-    setStepStates([]);
+      const {id, promise} = analysisWorker.run(task, setTaskProgress);
+      activeTaskRef.current = id;
+
+      const finish = () => {
+        if (activeTaskRef.current === id) {
+          activeTaskRef.current = null;
+          setTaskProgress(null);
+        }
+      };
 
-    // Run safety check with delay for UI feedback
-    setTimeout(() => {
-      const safetyResult = calculator.checkSafety(
-        algorithmState.available,
-        algorithmState.allocation,
-        algorithmState.need,
+      return promise.then(
+        (result) => {
+          finish();
+          return result;
+        },
+        (error: Error) => {
+          if (!(error instanceof TaskCancelledError)) {
+            finish();
+            setAlgorithmState((prev) => ({...prev, isCalculating: false}));
+            setIsProcessingRequest(false);
+            onError?.('Analysis Failed', error.message, 8000);
+          }
+          return null;
+        },
       );
+    },
+    [analysisWorker, onError],
+  );
 
-      // Save original state for navigation
-      setOriginalStateBeforeSteps({
-        available: [...algorithmState.available],
-        allocation: algorithmState.allocation.map((row) => [...row]),
-        need: algorithmState.need.map((row) => [...row]),
-        finish: [...algorithmState.finish],
-      });
+  /**
+   * Stops the running analysis and leaves the results empty
+   */
+  const cancelAnalysis = useCallback(() => {
+    if (activeTaskRef.current === null) return;
 
-      setAlgorithmState((prev) => ({
-        ...prev,
-        finish: safetyResult.finalFinishState,
-        safeSequence: safetyResult.safeSequence,
-        algorithmSteps: safetyResult.steps,
-        isSafe: safetyResult.isSafe,
-        isCalculating: false,
-        lastUpdated: new Date(),
-      }));
+    analysisWorker.cancel(activeTaskRef.current);
+    activeTaskRef.current = null;
+    setTaskProgress(null);
+    setAlgorithmState((prev) => ({...prev, isCalculating: false}));
+    setIsProcessingRequest(false);
 
-      // Build step states
-      const states = buildStepStates(safetyResult.steps, {
-        available: algorithmState.available,
-        allocation: algorithmState.allocation,
-        need: algorithmState.need,
-        finish: algorithmState.finish,
-        processCount: algorithmState.processCount,
-      });
-      setStepStates(states);
+    const notify = onInfo || onSuccess;
+    notify?.('Analysis Cancelled', 'The running analysis was stopped.', 3000);
+  }, [analysisWorker, onInfo, onSuccess]);
 
-      // Show result notification
-      if (safetyResult.isSafe) {
-        onSuccess?.(
-          'System is Safe',
-          `Safe execution sequence found: ${safetyResult.safeSequence.join(
-            ' → ',
-          )}`,
-          6000,
-        );
-      } else {
+  /**
+   * Checks safety of the given state and shows it with the results
+   */
+  const runSafetyCheck = useCallback(
+    (state: BankersAlgorithmState, options: SafetyOptions = safetyOptions) => {
+      // Validate system state
+      const validationErrors = calculator.validateSystemData(state);
+      if (validationErrors.length > 0) {
         onError?.(
-          'System is Unsafe',
-          'The current system state could lead to deadlock. Please review resource allocation.',
+          'System Validation Failed',
+          `Please fix the following issues: ${validationErrors
+            .map((e) => e.message)
+            .join(', ')}`,
           8000,
         );
+        return;
       }
-    }, 300);
-  }, [algorithmState, calculator, onSuccess, onError, buildStepStates]);
-
-  /**
-   * Processes a resource request
-   */
-  const processResourceRequest = useCallback(
-    (request: ResourceRequest) => {
-      setIsProcessingRequest(true);
 
       // Clear previous state
       setAlgorithmState((prev) => ({
         ...prev,
+        available: state.available,
+        total: state.total,
+        allocation: state.allocation,
+        max: state.max,
+        need: state.need,
+        request: state.request,
+        isCalculating: true,
         algorithmSteps: [],
         safeSequence: [],
         finish: Array(prev.processCount).fill(false),
         isSafe: undefined,
       }));
+      setRequestResult({isRequest: false});
       setCurrentStepIndex(undefined);
       setStepStates([]);
+      setSafeSequenceEnumeration(null);
+      setAvailableIncrease(null);
+      setDeadlockedProcesses([]);
 
-      setTimeout(() => {
-        const result = calculator.processRequest(request, algorithmState);
+      runAnalysisTask({kind: 'checkSafety', state, options}).then(
+        (analysis) => {
+          if (!analysis) return;
+          const {safety: safetyResult} = analysis;
 
-        if (result.canGrant && result.newState) {
-          // Request granted - update state
-          const enhancedSteps = [...(result.simulationSteps || [])];
-
-          // Enhance final step with grant message
-          if (enhancedSteps.length > 0) {
-            const lastStep = enhancedSteps[enhancedSteps.length - 1];
-            if (lastStep.description.includes('System is SAFE')) {
-              lastStep.description += `\n\n[REQUEST GRANTED]: Process P${
-                request.processId
-              } successfully allocated [${request.requestVector.join(
-                ', ',
-              )}] resources. The system remains in a safe state.`;
-            }
-          }
+          setSafeSequenceEnumeration(analysis.enumeration);
+          setAvailableIncrease(analysis.availableIncrease);
 
+          // Save original state for navigation
           setOriginalStateBeforeSteps({
-            available: [...result.newState.available],
-            allocation: result.newState.allocation.map((row) => [...row]),
-            need: result.newState.need.map((row) => [...row]),
-            finish: [...result.newState.finish],
+            available: state.available,
+            allocation: state.allocation,
+            need: state.need,
+            finish: state.finish,
           });
 
-          setAlgorithmState({
-            ...result.newState,
-            algorithmSteps: enhancedSteps,
+          setAlgorithmState((prev) => ({
+            ...prev,
+            finish: safetyResult.finalFinishState,
+            safeSequence: safetyResult.safeSequence,
+            algorithmSteps: safetyResult.steps,
+            isSafe: safetyResult.isSafe,
+            isCalculating: false,
             lastUpdated: new Date(),
+          }));
+
+          // Build step states
+          const states = buildStepStates(safetyResult.steps, {
+            available: state.available,
+            allocation: state.allocation,
+            need: state.need,
+            processCount: state.processCount,
           });
+          setStepStates(states);
 
-          const states = buildStepStates(
-            enhancedSteps,
-            {
-              available: algorithmState.available,
-              allocation: algorithmState.allocation,
-              need: algorithmState.need,
-              finish: algorithmState.finish,
-              processCount: algorithmState.processCount,
+          // Show result notification
+          if (safetyResult.isSafe) {
+            onSuccess?.(
+              'System is Safe',
+              `Safe execution sequence found: ${formatProcessSequence(
+                state.processNames,
+                safetyResult.safeSequence,
+              )}`,
+              6000,
+            );
+          } else {
+            onError?.(
+              'System is Unsafe',
+              'The current system state could lead to deadlock. Please review resource allocation.',
+              8000,
+            );
+          }
+        },
+      );
+    },
+    [calculator, safetyOptions, onSuccess, onError, runAnalysisTask],
+  );
+
+  /**
+   * Checks system safety and updates state with results
+   */
+  const checkSafety = useCallback(
+    () => runSafetyCheck(algorithmState),
+    [algorithmState, runSafetyCheck],
+  );
+
+  /**
+   * Processes a resource request
+   */
+  const processResourceRequest = useCallback(
+    (request: ResourceRequest) => {
+      setIsProcessingRequest(true);
+
+      // Clear previous state
+      setAlgorithmState((prev) => ({
+        ...prev,
+        algorithmSteps: [],
+        safeSequence: [],
+        finish: Array(prev.processCount).fill(false),
+        isSafe: undefined,
+      }));
+      setCurrentStepIndex(undefined);
+      setStepStates([]);
+      setSafeSequenceEnumeration(null);
+      setAvailableIncrease(null);
+      setDeadlockedProcesses([]);
+
+      runAnalysisTask({
+        kind: 'processRequest',
+        request,
+        state: algorithmState,
+        options: safetyOptions,
+      }).then((analysis) => {
+        if (!analysis) return;
+        const {result} = analysis;
+
+        if (result.canGrant && result.newState) {
+          // Request granted - update state
+          const newState = shareRowsWith(result.newState, algorithmState);
+          const steps = result.simulationSteps || [];
+
+          setOriginalStateBeforeSteps({
+            available: newState.available,
+            allocation: newState.allocation,
+            need: newState.need,
+            finish: newState.finish,
+          });
+
+          setAlgorithmState({
+            ...newState,
+            algorithmSteps: steps,
+            lastUpdated: new Date(),
+          });
+
+          setSafeSequenceEnumeration(analysis.enumeration);
+
+          const states = buildStepStates(
+            steps,
+            {
+              available: algorithmState.available,
+              allocation: algorithmState.allocation,
+              need: algorithmState.need,
+              processCount: algorithmState.processCount,
             },
-            result.newState,
+            newState,
             true,
           );
           setStepStates(states);
@@ -611,27 +1369,17 @@ export function useBankersAlgorithm(
           onSuccess?.(
             'Request Granted',
             result.errorMessage ||
-              `Process P${
-                request.processId
-              } allocated [${request.requestVector.join(
+              `Process ${getProcessName(
+                algorithmState.processNames,
+                request.processId,
+              )} allocated [${request.requestVector.join(
                 ', ',
               )}]. System remains safe.`,
             6000,
           );
         } else {
           // Request denied
-          const enhancedSteps = [...(result.simulationSteps || [])];
-
-          if (enhancedSteps.length > 0) {
-            const lastStep = enhancedSteps[enhancedSteps.length - 1];
-            if (lastStep.description.includes('System is UNSAFE')) {
-              lastStep.description += `\n\n[REQUEST DENIED]: Process P${
-                request.processId
-              } request [${request.requestVector.join(
-                ', ',
-              )}] cannot be granted as it would lead to an unsafe state (potential deadlock).`;
-            }
-          }
+          const steps = result.simulationSteps || [];
 
           setRequestResult({
             isRequest: true,
@@ -643,9 +1391,10 @@ export function useBankersAlgorithm(
           onError?.(
             'Request Denied',
             result.errorMessage ||
-              `Process P${
-                request.processId
-              } request [${request.requestVector.join(
+              `Process ${getProcessName(
+                algorithmState.processNames,
+                request.processId,
+              )} request [${request.requestVector.join(
                 ', ',
               )}] cannot be granted.`,
             8000,
@@ -653,15 +1402,15 @@ export function useBankersAlgorithm(
 
           if (result.simulationSteps) {
             setOriginalStateBeforeSteps({
-              available: [...algorithmState.available],
-              allocation: algorithmState.allocation.map((row) => [...row]),
-              need: algorithmState.need.map((row) => [...row]),
-              finish: [...algorithmState.finish],
+              available: algorithmState.available,
+              allocation: algorithmState.allocation,
+              need: algorithmState.need,
+              finish: algorithmState.finish,
             });
 
             setAlgorithmState((prev) => ({
               ...prev,
-              algorithmSteps: enhancedSteps,
+              algorithmSteps: steps,
               safeSequence: [],
               finish: prev.finish.map(() => false),
               isSafe: false,
@@ -669,12 +1418,11 @@ export function useBankersAlgorithm(
             }));
 
             const states = buildStepStates(
-              enhancedSteps,
+              steps,
               {
                 available: algorithmState.available,
                 allocation: algorithmState.allocation,
                 need: algorithmState.need,
-                finish: algorithmState.finish,
                 processCount: algorithmState.processCount,
               },
               undefined,
@@ -685,11 +1433,613 @@ export function useBankersAlgorithm(
         }
 
         setIsProcessingRequest(false);
-      }, 500);
+      });
+    },
+    [algorithmState, safetyOptions, onSuccess, onError, runAnalysisTask],
+  );
+
+  /**
+   * Clears the results shown before a system operation starts
+   */
+  const beginOperation = useCallback(() => {
+    setIsProcessingRequest(true);
+
+    setAlgorithmState((prev) => ({
+      ...prev,
+      algorithmSteps: [],
+      safeSequence: [],
+      finish: Array(prev.processCount).fill(false),
+      isSafe: undefined,
+    }));
+    setCurrentStepIndex(undefined);
+    setStepStates([]);
+    setSafeSequenceEnumeration(null);
+    setAvailableIncrease(null);
+    setDeadlockedProcesses([]);
+  }, []);
+
+  /**
+   * Shows the state left by a completed operation together with its trace
+   */
+  const showOperationResult = useCallback(
+    (
+      newState: BankersAlgorithmState,
+      steps: BankersAlgorithmState['algorithmSteps'],
+      initialState: BankersAlgorithmState,
+      analysis: OperationAnalysis,
+    ) => {
+      setOriginalStateBeforeSteps({
+        available: newState.available,
+        allocation: newState.allocation,
+        need: newState.need,
+        finish: newState.finish,
+      });
+
+      setAlgorithmState({
+        ...newState,
+        algorithmSteps: steps,
+        lastUpdated: new Date(),
+      });
+
+      setSafeSequenceEnumeration(analysis.enumeration);
+      setAvailableIncrease(analysis.availableIncrease);
+
+      setStepStates(
+        buildStepStates(
+          steps,
+          {
+            available: initialState.available,
+            allocation: initialState.allocation,
+            need: initialState.need,
+            processCount: initialState.processCount,
+          },
+          newState,
+          true,
+        ),
+      );
+    },
+    [],
+  );
+
+  /**
+   * Processes a resource release
+   */
+  const processResourceRelease = useCallback(
+    (release: ResourceRequest) => {
+      beginOperation();
+
+      runAnalysisTask({
+        kind: 'processRelease',
+        release,
+        state: algorithmState,
+        options: safetyOptions,
+      }).then((analysis) => {
+        if (!analysis) return;
+        const {result} = analysis;
+
+        if (result.canGrant && result.newState) {
+          showOperationResult(
+            shareRowsWith(result.newState, algorithmState),
+            result.simulationSteps || [],
+            algorithmState,
+            analysis,
+          );
+
+          setRequestResult({
+            isRequest: true,
+            operation: 'release',
+            wasGranted: true,
+            processId: release.processId,
+            requestVector: release.requestVector,
+            shouldResetRequest: true,
+          });
+
+          onSuccess?.(
+            'Resources Released',
+            result.errorMessage ||
+              `Process ${getProcessName(
+                algorithmState.processNames,
+                release.processId,
+              )} released [${release.requestVector.join(', ')}].`,
+            6000,
+          );
+        } else {
+          onError?.(
+            'Release Rejected',
+            result.errorMessage ||
+              `Process ${getProcessName(
+                algorithmState.processNames,
+                release.processId,
+              )} cannot release [${release.requestVector.join(', ')}].`,
+            8000,
+          );
+
+          // Nothing changed, so bring back the results of the current state
+          runSafetyCheck(algorithmState);
+        }
+
+        setIsProcessingRequest(false);
+      });
+    },
+    [
+      algorithmState,
+      safetyOptions,
+      onSuccess,
+      onError,
+      runAnalysisTask,
+      beginOperation,
+      showOperationResult,
+      runSafetyCheck,
+    ],
+  );
+
+  /**
+   * Admits a new process with the given maximum claim
+   */
+  const admitProcess = useCallback(
+    (maxClaim: number[]) => {
+      if (algorithmState.processCount >= PROCESS_COUNT_LIMITS.max) {
+        onError?.(
+          'Process Limit Reached',
+          `The system supports at most ${PROCESS_COUNT_LIMITS.max} processes.`,
+        );
+        return;
+      }
+
+      beginOperation();
+
+      runAnalysisTask({
+        kind: 'admitProcess',
+        maxClaim,
+        state: algorithmState,
+        options: safetyOptions,
+      }).then((analysis) => {
+        if (!analysis) return;
+        const {result} = analysis;
+        const processId = algorithmState.processCount;
+        const processName = getProcessName(
+          algorithmState.processNames,
+          processId,
+        );
+
+        if (result.canGrant && result.newState) {
+          // Show the whole trace with the admitted process already in the table
+          const newState = shareRowsWith(result.newState, algorithmState);
+          showOperationResult(
+            newState,
+            result.simulationSteps || [],
+            newState,
+            analysis,
+          );
+
+          setRequestResult({
+            isRequest: true,
+            operation: 'admit',
+            wasGranted: true,
+            processId,
+            requestVector: maxClaim,
+          });
+
+          onSuccess?.(
+            'Process Admitted',
+            result.errorMessage ||
+              `Process ${processName} admitted with Max claim [${maxClaim.join(
+                ', ',
+              )}].`,
+            6000,
+          );
+        } else {
+          onError?.(
+            'Admission Denied',
+            result.errorMessage || `Process ${processName} cannot be admitted.`,
+            8000,
+          );
+
+          if (result.simulationSteps) {
+            const steps = result.simulationSteps;
+
+            setRequestResult({
+              isRequest: true,
+              operation: 'admit',
+              wasGranted: false,
+              processId,
+              requestVector: maxClaim,
+            });
+
+            setOriginalStateBeforeSteps({
+              available: algorithmState.available,
+              allocation: algorithmState.allocation,
+              need: algorithmState.need,
+              finish: algorithmState.finish,
+            });
+
+            setAlgorithmState((prev) => ({
+              ...prev,
+              algorithmSteps: steps,
+              safeSequence: [],
+              finish: prev.finish.map(() => false),
+              isSafe: false,
+              lastUpdated: new Date(),
+            }));
+
+            // The process was never added, so the table keeps its rows
+            setStepStates(
+              buildStepStates(
+                steps,
+                {
+                  available: algorithmState.available,
+                  allocation: algorithmState.allocation,
+                  need: algorithmState.need,
+                  processCount: algorithmState.processCount,
+                },
+                undefined,
+                false,
+              ),
+            );
+          } else {
+            runSafetyCheck(algorithmState);
+          }
+        }
+
+        setIsProcessingRequest(false);
+      });
     },
-    [algorithmState, calculator, onSuccess, onError, buildStepStates],
+    [
+      algorithmState,
+      safetyOptions,
+      onSuccess,
+      onError,
+      runAnalysisTask,
+      beginOperation,
+      showOperationResult,
+      runSafetyCheck,
+    ],
   );
 
+  /**
+   * Retires a process, returning everything it holds
+   */
+  const retireProcess = useCallback(
+    (processId: number) => {
+      if (algorithmState.processCount <= PROCESS_COUNT_LIMITS.min) {
+        onError?.(
+          'Cannot Retire Process',
+          'The system needs at least one process.',
+        );
+        return;
+      }
+
+      const processName = getProcessName(
+        algorithmState.processNames,
+        processId,
+      );
+
+      beginOperation();
+
+      runAnalysisTask({
+        kind: 'retireProcess',
+        processId,
+        state: algorithmState,
+        options: safetyOptions,
+      }).then((analysis) => {
+        if (!analysis) return;
+        const {result} = analysis;
+
+        if (result.canGrant && result.newState) {
+          const newState = shareRowsWith(result.newState, algorithmState);
+          showOperationResult(
+            newState,
+            result.simulationSteps || [],
+            newState,
+            analysis,
+          );
+
+          setRequestResult({
+            isRequest: true,
+            operation: 'retire',
+            wasGranted: true,
+            processId,
+            requestVector: algorithmState.allocation[processId],
+          });
+
+          onSuccess?.(
+            'Process Retired',
+            result.errorMessage || `Process ${processName} retired.`,
+            6000,
+          );
+        } else {
+          onError?.(
+            'Cannot Retire Process',
+            result.errorMessage || `Process ${processName} cannot be retired.`,
+            8000,
+          );
+
+          runSafetyCheck(algorithmState);
+        }
+
+        setIsProcessingRequest(false);
+      });
+    },
+    [
+      algorithmState,
+      safetyOptions,
+      onSuccess,
+      onError,
+      runAnalysisTask,
+      beginOperation,
+      showOperationResult,
+      runSafetyCheck,
+    ],
+  );
+
+  /**
+   * Runs deadlock detection on the given state and shows it with the results
+   */
+  const runDeadlockDetection = useCallback(
+    (state: BankersAlgorithmState) => {
+      const detectionState = {
+        processCount: state.processCount,
+        resourceCount: state.resourceCount,
+        allocation: state.allocation,
+        request:
+          state.request ??
+          createZeroMatrix(state.processCount, state.resourceCount),
+        available: state.available,
+      };
+
+      const validationErrors = calculator.validateDetectionData(detectionState);
+      if (validationErrors.length > 0) {
+        onError?.(
+          'System Validation Failed',
+          `Please fix the following issues: ${validationErrors
+            .map((e) => e.message)
+            .join(', ')}`,
+          8000,
+        );
+        return;
+      }
+
+      // Clear previous state
+      setAlgorithmState((prev) => ({
+        ...prev,
+        available: state.available,
+        total: state.total,
+        allocation: state.allocation,
+        max: state.max,
+        need: state.need,
+        request: state.request,
+        isCalculating: true,
+        algorithmSteps: [],
+        safeSequence: [],
+        finish: Array(prev.processCount).fill(false),
+        isSafe: undefined,
+      }));
+      setRequestResult({isRequest: false});
+      setCurrentStepIndex(undefined);
+      setStepStates([]);
+      setSafeSequenceEnumeration(null);
+      setAvailableIncrease(null);
+      setDeadlockedProcesses([]);
+
+      runAnalysisTask({kind: 'detectDeadlock', state: detectionState}).then(
+        (detectionResult) => {
+          if (!detectionResult) return;
+
+          setOriginalStateBeforeSteps({
+            available: state.available,
+            allocation: state.allocation,
+            need: state.need,
+            finish: state.finish,
+          });
+
+          setAlgorithmState((prev) => ({
+            ...prev,
+            finish: detectionResult.finalFinishState,
+            safeSequence: detectionResult.isDeadlocked
+              ? []
+              : detectionResult.completionSequence,
+            algorithmSteps: detectionResult.steps,
+            isSafe: !detectionResult.isDeadlocked,
+            isCalculating: false,
+            lastUpdated: new Date(),
+          }));
+          setDeadlockedProcesses(detectionResult.deadlockedProcesses);
+
+          const states = buildStepStates(detectionResult.steps, {
+            available: state.available,
+            allocation: state.allocation,
+            need: state.need,
+            processCount: state.processCount,
+          });
+          setStepStates(states);
+
+          if (detectionResult.isDeadlocked) {
+            onError?.(
+              'Deadlock Detected',
+              `Deadlocked processes: ${formatProcessSequence(
+                state.processNames,
+                detectionResult.deadlockedProcesses,
+                ', ',
+              )}`,
+              8000,
+            );
+          } else {
+            onSuccess?.(
+              'No Deadlock',
+              `All processes can complete: ${formatProcessSequence(
+                state.processNames,
+                detectionResult.completionSequence,
+              )}`,
+              6000,
+            );
+          }
+        },
+      );
+    },
+    [calculator, onSuccess, onError, runAnalysisTask],
+  );
+
+  /**
+   * Runs the deadlock detection algorithm on the Request matrix
+   */
+  const detectDeadlock = useCallback(
+    () => runDeadlockDetection(algorithmState),
+    [algorithmState, runDeadlockDetection],
+  );
+
+  /**
+   * Plans victims to terminate or preempt for the current analysis mode
+   */
+  const planRecovery = useCallback(
+    (options: Omit<RecoveryOptions, 'mode'>) =>
+      recoveryWorker.run({
+        kind: 'planRecovery',
+        state: baseState,
+        options: {...options, mode: algorithmMode},
+      }).promise,
+    [recoveryWorker, baseState, algorithmMode],
+  );
+
+  /**
+   * Replaces the system with a recovered state and analyzes it again
+   */
+  const applyRecoveryPlan = useCallback(
+    (plan: RecoveryPlan) => {
+      const notify = onInfo || onSuccess;
+      notify?.(
+        'Recovery Applied',
+        `${
+          plan.strategy === 'terminate' ? 'Terminated' : 'Preempted'
+        } ${formatProcessSequence(baseState.processNames, plan.victims, ', ')}`,
+        3000,
+      );
+
+      if (algorithmMode === 'detection') {
+        runDeadlockDetection(shareRowsWith(plan.newState, baseState));
+      } else {
+        runSafetyCheck(shareRowsWith(plan.newState, baseState));
+      }
+    },
+    [
+      algorithmMode,
+      baseState,
+      onInfo,
+      onSuccess,
+      runDeadlockDetection,
+      runSafetyCheck,
+    ],
+  );
+
+  /**
+   * Changes how the safety scan picks processes and re-runs the trace
+   */
+  const changeSafetyOptions = useCallback(
+    (options: SafetyOptions) => {
+      setSafetyOptions(options);
+
+      if (algorithmMode === 'avoidance') {
+        runSafetyCheck(baseState, options);
+      }
+    },
+    [algorithmMode, baseState, runSafetyCheck],
+  );
+
+  /**
+   * Switches between avoidance and detection analysis, clearing old results
+   */
+  const changeAlgorithmMode = useCallback(
+    (mode: AlgorithmMode) => {
+      if (mode === algorithmMode) return;
+
+      if (originalStateBeforeSteps && currentStepIndex !== undefined) {
+        setAlgorithmState((prev) => ({
+          ...prev,
+          available: originalStateBeforeSteps.available,
+          allocation: originalStateBeforeSteps.allocation,
+          need: originalStateBeforeSteps.need,
+        }));
+      }
+
+      setAlgorithmMode(mode);
+      setAlgorithmState((prev) => ({
+        ...prev,
+        algorithmSteps: [],
+        safeSequence: [],
+        finish: Array(prev.processCount).fill(false),
+        isSafe: undefined,
+      }));
+      setRequestResult({isRequest: false});
+      setCurrentStepIndex(undefined);
+      setStepStates([]);
+      setSafeSequenceEnumeration(null);
+      setAvailableIncrease(null);
+      setDeadlockedProcesses([]);
+    },
+    [algorithmMode, currentStepIndex, originalStateBeforeSteps],
+  );
+
+  // Request and trace step of an opened link, shown once the system is
+  const [linkedRequest, setLinkedRequest] = useState<ResourceRequest | null>(
+    null,
+  );
+  const linkedStepRef = useRef<number | null>(null);
+
+  // Open the scenario of a shared link, or else restore the one saved by the
+  // last visit; either replaces the preview of the default example
+  const hasRestoredScenario = useRef(false);
+  useEffect(() => {
+    if (hasRestoredScenario.current) return;
+    hasRestoredScenario.current = true;
+
+    const linked = decodeScenarioLink(window.location.hash, calculator);
+    if (linked) {
+      // The link is only read once, so a reload keeps the edits made since
+      const {pathname, search} = window.location;
+      window.history.replaceState(null, '', `${pathname}${search}`);
+    }
+
+    if (linked?.link) {
+      const {scenario, step, request} = linked.link;
+      const options = linked.link.safetyOptions ?? safetyOptions;
+      const state = createStateFromScenario(scenario);
+      hasShownInitialPreview.current = true;
+      restoreSnapshot(takeSnapshot(state));
+      setLinkedRequest(request ?? null);
+      if (step !== undefined) {
+        linkedStepRef.current = step;
+        setSafetyOptions(options);
+        runSafetyCheck(state, options);
+      }
+      return;
+    }
+    if (linked) {
+      onError?.('Link Not Opened', summarizeErrors(linked.errors), 8000);
+    }
+
+    const savedState = loadSavedScenario();
+    if (savedState) {
+      hasShownInitialPreview.current = true;
+      restoreSnapshot(takeSnapshot(savedState));
+    }
+  }, [calculator, safetyOptions, restoreSnapshot, runSafetyCheck, onError]);
+
+  // Go to the step of an opened link once its safety check has a trace
+  useEffect(() => {
+    const step = linkedStepRef.current;
+    if (step === null || stepStates.length === 0) return;
+
+    linkedStepRef.current = null;
+    if (step < stepStates.length) {
+      handleStepChange(step);
+    }
+  }, [stepStates, handleStepChange]);
+
+  // Save the system as entered whenever it changes
+  useEffect(() => {
+    const timer = setTimeout(() => saveScenario(baseState), SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [baseState]);
+
   // Auto-preview on mount
   useEffect(() => {
     if (autoPreviewOnMount && !hasShownInitialPreview.current) {
@@ -711,18 +2061,54 @@ export function useBankersAlgorithm(
       stepStates,
       originalStateBeforeSteps,
     },
+    safeSequenceEnumeration,
+    availableIncrease,
+    algorithmMode,
+    deadlockedProcesses,
+    maxSafeRequest,
+    isMaxSafeRequestOff,
+    graphSystem,
+    waitForGraph,
+    safetyOptions,
+    taskProgress,
+    canUndo: !isBusy && history.past.length > 0,
+    canRedo: !isBusy && history.future.length > 0,
+    currentScenario,
+    linkedRequest,
 
     checkSafety,
+    cancelAnalysis,
+    detectDeadlock,
+    changeAlgorithmMode,
+    changeSafetyOptions,
+    planRecovery,
+    applyRecoveryPlan,
     processResourceRequest,
+    processResourceRelease,
+    admitProcess,
+    retireProcess,
     updateAllocation,
     updateMax,
+    updateRequest,
     updateAvailable,
+    updateTotal,
+    updateProcessName,
+    updateResourceName,
     updateProcessCount,
     updateResourceCount,
+    pasteMatrixText,
     resetAlgorithm,
     loadDefaultExample,
     completeProcess,
     randomizeData,
+    undo,
+    redo,
+    loadScenario,
+    importScenarioFile,
+    importTextProblem,
+    updateDraftRequest,
+    selectRequestProcess,
+    copyScenarioLink,
     handleStepChange,
     setRequestResult,
   };
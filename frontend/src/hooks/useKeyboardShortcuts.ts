@@ -2,14 +2,27 @@
 
 import {useEffect, useCallback} from 'react';
 
+// Text fields keep their own undo history
+function isTextField(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.tagName === 'INPUT' ||
+      target.tagName === 'TEXTAREA' ||
+      target.isContentEditable)
+  );
+}
+
 interface KeyboardShortcutsConfig {
   onToggleSidebar?: () => void;
   onToggleTheme?: () => void;
   onCheckSafety?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
 export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
-  const {onToggleSidebar, onToggleTheme, onCheckSafety} = config;
+  const {onToggleSidebar, onToggleTheme, onCheckSafety, onUndo, onRedo} =
+    config;
 
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
@@ -47,9 +60,21 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
             onToggleTheme();
           }
           break;
+
+        case 'z':
+        case 'Z': {
+          // Cmd+Z or Ctrl+Z - Undo, with Shift - Redo
+          if (isTextField(event.target)) break;
+          const handler = event.shiftKey ? onRedo : onUndo;
+          if (handler) {
+            event.preventDefault();
+            handler();
+          }
+          break;
+        }
       }
     },
-    [onToggleSidebar, onToggleTheme, onCheckSafety],
+    [onToggleSidebar, onToggleTheme, onCheckSafety, onUndo, onRedo],
   );
 
   useEffect(() => {
@@ -69,6 +94,10 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
       toggleSidebar: navigator.userAgent.includes('Mac') ? 'Cmd+[' : 'Ctrl+[',
       toggleTheme: navigator.userAgent.includes('Mac') ? 'Cmd+D' : 'Ctrl+D',
       checkSafety: 'Shift+Enter',
+      undo: navigator.userAgent.includes('Mac') ? 'Cmd+Z' : 'Ctrl+Z',
+      redo: navigator.userAgent.includes('Mac')
+        ? 'Shift+Cmd+Z'
+        : 'Shift+Ctrl+Z',
     },
   };
 }
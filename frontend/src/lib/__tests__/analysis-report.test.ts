@@ -0,0 +1,81 @@
+/**
+ * Analysis Report Tests
+ * npm test -- --testPathPatterns=analysis-report.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {buildAnalysisReport} from '../analysis-report';
+import {Scenario, toVersionedScenario} from '../scenario';
+
+describe('Analysis Report', () => {
+  let calculator: BankersAlgorithmCalculator;
+  let scenario: Scenario;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+    scenario = toVersionedScenario(calculator.createDefaultState()).scenario;
+  });
+
+  test('should report a plain safety check before any analysis', () => {
+    const report = buildAnalysisReport(calculator, {
+      scenario: {...scenario, processNames: ['', 'Server']},
+      mode: 'avoidance',
+      steps: [],
+      safeSequence: [],
+      finish: [],
+    });
+
+    expect(report.processes).toEqual(['P0', 'Server']);
+    expect(report.matrices.map(({name}) => name)).toEqual([
+      'Allocation',
+      'Max',
+      'Need',
+    ]);
+    expect(report.matrices[2].rows).toEqual([
+      [1, 1, 1],
+      [1, 1, 1],
+    ]);
+    expect(report.statistics[0]).toEqual({
+      resource: 'A',
+      total: 3,
+      allocated: 1,
+      available: 2,
+      utilization: (1 / 3) * 100,
+    });
+    expect(report.completedProcesses).toBeNull();
+    expect(report.verdict).toMatch(/^The system is safe\. Safe sequence: /);
+  });
+
+  test('should report the deadlock an analysis found', () => {
+    const {steps} = calculator.detectDeadlock({
+      processCount: 2,
+      resourceCount: 3,
+      allocation: scenario.allocation,
+      request: [
+        [0, 0, 9],
+        [0, 0, 9],
+      ],
+      available: scenario.available,
+    });
+    const report = buildAnalysisReport(calculator, {
+      scenario: {
+        ...scenario,
+        request: [
+          [0, 0, 9],
+          [0, 0, 9],
+        ],
+      },
+      mode: 'detection',
+      steps,
+      safeSequence: [],
+      finish: [false, false],
+      deadlockedProcesses: ['P0', 'P1'],
+    });
+
+    expect(report.matrices.map(({name}) => name)).toContain('Request');
+    expect(report.completedProcesses).toBe(0);
+    expect(report.verdict).toBe('Deadlock detected: P0, P1 are deadlocked.');
+  });
+});
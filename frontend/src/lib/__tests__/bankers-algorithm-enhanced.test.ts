@@ -11,6 +11,8 @@ import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
 import {
   BankersAlgorithmState,
   ResourceRequest,
+  SafetyOptions,
+  SelectionStrategy,
 } from '@/types/bankers-algorithm';
 import {calculateNeedMatrix} from '@/utils/matrix-utils';
 
@@ -221,6 +223,7 @@ describe("Enhanced Banker's Algorithm Calculator", () => {
           [2, 2, 2], // P1 - lower maximum need
         ],
         available: [1, 1, 1], // Limited resources
+        total: [2, 2, 2],
         need: [], // Will be calculated
         finish: [false, false],
         safeSequence: [],
@@ -277,6 +280,7 @@ describe("Enhanced Banker's Algorithm Calculator", () => {
           [9, 0, 2], // P2
         ],
         available: [3, 3, 2],
+        total: [8, 4, 4],
         need: [], // Will be calculated
         finish: [false, false, false],
         safeSequence: [],
@@ -461,6 +465,40 @@ describe("Enhanced Banker's Algorithm Calculator", () => {
       );
     });
 
+    test('should detect resources missing from the total', () => {
+      const state = calculator.createDefaultState();
+      state.available = [...state.available];
+      state.available[0] += 1;
+
+      const errors = calculator.validateSystemData(state);
+
+      expect(errors.some((e) => e.field === 'total[0]')).toBe(true);
+      expect(errors.some((e) => e.message.includes('must equal Total'))).toBe(
+        true,
+      );
+    });
+
+    test('should detect max exceeding the total', () => {
+      const state = calculator.createDefaultState();
+      state.max = state.max.map((row) => [...row]);
+      state.max[1][2] = state.total[2] + 1;
+
+      const errors = calculator.validateSystemData(state);
+
+      expect(errors.some((e) => e.field === 'max[1][2]')).toBe(true);
+    });
+
+    test('should keep the total consistent when resizing', () => {
+      const state = calculator.resizeMatrices(
+        calculator.createDefaultState(),
+        3,
+        4,
+      );
+
+      expect(state.total).toHaveLength(4);
+      expect(calculator.validateSystemData(state)).toHaveLength(0);
+    });
+
     test('should detect dimension mismatches', () => {
       const state = calculator.createDefaultState();
       state.allocation = [[1, 2]]; // Wrong dimensions - should have 3 columns
@@ -650,6 +688,786 @@ describe("Enhanced Banker's Algorithm Calculator", () => {
     });
   });
 
+  describe('Safe Sequence Enumeration', () => {
+    test('should list every safe sequence of the default state', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.enumerateSafeSequences(
+        state.available,
+        state.allocation,
+        state.need,
+      );
+
+      expect(result.sequences).toEqual([
+        ['P0', 'P1'],
+        ['P1', 'P0'],
+      ]);
+      expect(result.totalCount).toBe(2);
+      expect(result.isTruncated).toBe(false);
+    });
+
+    test('should include the sequence found by checkSafety', () => {
+      // Classical five-process textbook example
+      const available = [3, 3, 2];
+      const allocation = [
+        [0, 1, 0],
+        [2, 0, 0],
+        [3, 0, 2],
+        [2, 1, 1],
+        [0, 0, 2],
+      ];
+      const max = [
+        [7, 5, 3],
+        [3, 2, 2],
+        [9, 0, 2],
+        [2, 2, 2],
+        [4, 3, 3],
+      ];
+      const need = calculateNeedMatrix(max, allocation);
+
+      const safety = calculator.checkSafety(available, allocation, need);
+      const result = calculator.enumerateSafeSequences(
+        available,
+        allocation,
+        need,
+      );
+
+      expect(result.sequences).toContainEqual(safety.safeSequence);
+      expect(result.totalCount).toBe(result.sequences.length);
+      expect(new Set(result.sequences.map((s) => s.join())).size).toBe(
+        result.sequences.length,
+      );
+    });
+
+    test('should count all sequences when listing is truncated', () => {
+      // Four processes with no remaining need can finish in any order
+      const available = [0];
+      const allocation = [[1], [1], [1], [1]];
+      const need = [[0], [0], [0], [0]];
+
+      const result = calculator.enumerateSafeSequences(
+        available,
+        allocation,
+        need,
+        5,
+      );
+
+      expect(result.sequences).toHaveLength(5);
+      expect(result.totalCount).toBe(24);
+      expect(result.isTruncated).toBe(true);
+    });
+
+    test('should return no sequences for unsafe state', () => {
+      const state = calculator.createDefaultState();
+      state.available = [0, 0, 0];
+
+      const result = calculator.enumerateSafeSequences(
+        state.available,
+        state.allocation,
+        state.need,
+      );
+
+      expect(result.sequences).toEqual([]);
+      expect(result.totalCount).toBe(0);
+      expect(result.isTruncated).toBe(false);
+    });
+  });
+
+  describe('Deadlock Detection', () => {
+    // Classical detection example with outstanding requests
+    const detectionState = {
+      processCount: 5,
+      resourceCount: 3,
+      allocation: [
+        [0, 1, 0],
+        [2, 0, 0],
+        [3, 0, 3],
+        [2, 1, 1],
+        [0, 0, 2],
+      ],
+      request: [
+        [0, 0, 0],
+        [2, 0, 2],
+        [0, 0, 0],
+        [1, 0, 0],
+        [0, 0, 2],
+      ],
+      available: [0, 0, 0],
+    };
+
+    test('should report no deadlock when every request can be met', () => {
+      const result = calculator.detectDeadlock(detectionState);
+
+      expect(result.isDeadlocked).toBe(false);
+      expect(result.deadlockedProcesses).toEqual([]);
+      expect(result.completionSequence).toEqual(['P0', 'P2', 'P1', 'P3', 'P4']);
+      expect(result.finalFinishState.every((f) => f)).toBe(true);
+    });
+
+    test('should report exactly which processes are deadlocked', () => {
+      const request = detectionState.request.map((row) => [...row]);
+      request[2] = [0, 0, 1]; // P2 asks for one more instance of C
+
+      const result = calculator.detectDeadlock({...detectionState, request});
+
+      expect(result.isDeadlocked).toBe(true);
+      expect(result.deadlockedProcesses).toEqual(['P1', 'P2', 'P3', 'P4']);
+      expect(result.finalFinishState).toEqual([
+        true,
+        false,
+        false,
+        false,
+        false,
+      ]);
+
+      const finalStep = result.steps[result.steps.length - 1];
+      expect(finalStep.stepNumber).toBe(4);
+      expect(finalStep.description).toContain('Deadlock DETECTED');
+    });
+
+    test('should mark processes holding nothing as finished up front', () => {
+      const result = calculator.detectDeadlock({
+        processCount: 2,
+        resourceCount: 1,
+        allocation: [[0], [1]],
+        request: [[5], [5]],
+        available: [0],
+      });
+
+      expect(result.deadlockedProcesses).toEqual(['P1']);
+      expect(result.steps[1].description).toBe(
+        'allocation[P0] = 0: finish[P0] = true',
+      );
+    });
+
+    test('should trace request comparisons instead of need', () => {
+      const result = calculator.detectDeadlock(detectionState);
+      const checkSteps = result.steps.filter((step) => step.stepNumber === 2);
+
+      expect(checkSteps.length).toBeGreaterThan(0);
+      checkSteps.forEach((step) => {
+        expect(step.description).toContain('request[P');
+        expect(step.description).not.toContain('need[P');
+      });
+    });
+
+    test('should validate the Request matrix', () => {
+      const errors = calculator.validateDetectionData({
+        ...detectionState,
+        request: [[-1, 0, 0]],
+      });
+
+      expect(errors.some((e) => e.field === 'request')).toBe(true);
+      expect(errors.some((e) => e.message.includes('non-negative'))).toBe(true);
+    });
+  });
+
+  describe('Largest Grantable Requests', () => {
+    const createTextbookState = (): BankersAlgorithmState => {
+      const allocation = [
+        [0, 1, 0],
+        [2, 0, 0],
+        [3, 0, 2],
+        [2, 1, 1],
+        [0, 0, 2],
+      ];
+      const max = [
+        [7, 5, 3],
+        [3, 2, 2],
+        [9, 0, 2],
+        [2, 2, 2],
+        [4, 3, 3],
+      ];
+
+      return {
+        ...calculator.createDefaultState(),
+        processCount: 5,
+        resourceCount: 3,
+        available: [3, 3, 2],
+        allocation,
+        max,
+        need: calculateNeedMatrix(max, allocation),
+      };
+    };
+
+    // Every request processRequest would grant, by exhaustive search
+    const grantedRequests = (
+      processId: number,
+      state: BankersAlgorithmState,
+    ) => {
+      const granted: number[][] = [];
+      const [a, b, c] = state.available;
+      for (let x = 0; x <= a; x++) {
+        for (let y = 0; y <= b; y++) {
+          for (let z = 0; z <= c; z++) {
+            const result = calculator.processRequest(
+              {processId, requestVector: [x, y, z]},
+              state,
+            );
+            if (result.canGrant) granted.push([x, y, z]);
+          }
+        }
+      }
+      return granted;
+    };
+
+    test('should match processRequest on every request', () => {
+      const state = createTextbookState();
+
+      for (let processId = 0; processId < state.processCount; processId++) {
+        const granted = grantedRequests(processId, state);
+        const result = calculator.findMaxSafeRequest(processId, state);
+
+        const expectedPerResourceMax = [0, 1, 2].map((j) =>
+          Math.max(
+            ...granted
+              .filter((r) => r.every((units, k) => k === j || units === 0))
+              .map((r) => r[j]),
+          ),
+        );
+        const expectedMaximal = granted.filter(
+          (r) =>
+            r.some((units) => units > 0) &&
+            !granted.some(
+              (other) =>
+                other !== r && other.every((units, k) => units >= r[k]),
+            ),
+        );
+
+        expect(result.perResourceMax).toEqual(expectedPerResourceMax);
+        expect(
+          [...result.maximalRequests].sort().map((r) => r.join(',')),
+        ).toEqual(expectedMaximal.sort().map((r) => r.join(',')));
+        expect(result.isTruncated).toBe(false);
+      }
+    });
+
+    test('should report the textbook bounds for P1', () => {
+      const result = calculator.findMaxSafeRequest(1, createTextbookState());
+
+      expect(result.perResourceMax).toEqual([1, 2, 2]);
+      expect(result.maximalRequests).toEqual([[1, 2, 2]]);
+    });
+
+    test('should grant nothing in an unsafe state', () => {
+      const state = {
+        ...createTextbookState(),
+        available: [0, 0, 0],
+      };
+
+      const results = calculator.findMaxSafeRequests(state);
+
+      expect(results).toHaveLength(5);
+      results.forEach((result) => {
+        expect(result.perResourceMax).toEqual([0, 0, 0]);
+        expect(result.maximalRequests).toEqual([]);
+      });
+    });
+
+    test('should stop after the safety check limit', () => {
+      const result = calculator.findMaxSafeRequest(0, createTextbookState(), 1);
+
+      expect(result.isTruncated).toBe(true);
+    });
+  });
+
+  describe('Minimal Available Increase', () => {
+    test('should find a one-unit fix for a circular wait', () => {
+      const available = [0, 0];
+      const allocation = [
+        [1, 0],
+        [0, 1],
+      ];
+      const need = [
+        [0, 1],
+        [1, 0],
+      ];
+
+      const result = calculator.findMinimalAvailableIncrease(
+        available,
+        allocation,
+        need,
+      );
+
+      expect(result.isOptimal).toBe(true);
+      expect(result.minTotal?.totalUnits).toBe(1);
+      expect(result.minTotal?.safeSequence).toHaveLength(2);
+      expect(result.perResource.map((remedy) => remedy?.increase)).toEqual([
+        [1, 0],
+        [0, 1],
+      ]);
+    });
+
+    test('should report resources that cannot fix the state alone', () => {
+      const result = calculator.findMinimalAvailableIncrease(
+        [0, 0],
+        [[0, 0]],
+        [[1, 1]],
+      );
+
+      expect(result.minTotal?.increase).toEqual([1, 1]);
+      expect(result.minTotal?.safeSequence).toEqual(['P0']);
+      expect(result.perResource).toEqual([null, null]);
+    });
+
+    test('should match an exhaustive search over small increases', () => {
+      const available = [1, 0, 0];
+      const allocation = [
+        [0, 1, 0],
+        [2, 0, 0],
+        [3, 0, 2],
+        [2, 1, 1],
+      ];
+      const need = [
+        [3, 2, 2],
+        [1, 2, 2],
+        [0, 0, 1],
+        [0, 1, 1],
+      ];
+
+      let expectedTotal = Infinity;
+      for (let a = 0; a <= 4; a++) {
+        for (let b = 0; b <= 4; b++) {
+          for (let c = 0; c <= 4; c++) {
+            const isSafe = calculator.checkSafety(
+              [available[0] + a, available[1] + b, available[2] + c],
+              allocation,
+              need,
+            ).isSafe;
+            if (isSafe) expectedTotal = Math.min(expectedTotal, a + b + c);
+          }
+        }
+      }
+
+      const result = calculator.findMinimalAvailableIncrease(
+        available,
+        allocation,
+        need,
+      );
+
+      expect(calculator.checkSafety(available, allocation, need).isSafe).toBe(
+        false,
+      );
+      expect(result.minTotal?.totalUnits).toBe(expectedTotal);
+    });
+
+    test('should need no increase for a safe state', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.findMinimalAvailableIncrease(
+        state.available,
+        state.allocation,
+        state.need,
+      );
+
+      expect(result.minTotal?.totalUnits).toBe(0);
+    });
+  });
+
+  describe('Recovery Planner', () => {
+    // P0 holds A and still needs B, P1 holds B and still needs A
+    const createCircularState = (): BankersAlgorithmState => {
+      const allocation = [
+        [1, 0],
+        [0, 1],
+        [0, 0],
+      ];
+      const max = [
+        [1, 1],
+        [1, 1],
+        [1, 1],
+      ];
+
+      return {
+        ...calculator.createDefaultState(),
+        processCount: 3,
+        resourceCount: 2,
+        available: [0, 0],
+        allocation,
+        max,
+        need: calculateNeedMatrix(max, allocation),
+        request: [
+          [0, 1],
+          [1, 0],
+          [0, 0],
+        ],
+      };
+    };
+
+    test('should terminate a single cheapest victim', () => {
+      const state = createCircularState();
+      const plan = calculator.planRecovery(state, {
+        strategy: 'terminate',
+        cost: 'heldUnits',
+      });
+
+      expect(plan?.victims).toHaveLength(1);
+      expect(plan?.totalCost).toBe(1);
+      expect(plan?.isOptimal).toBe(true);
+
+      const {newState} = plan!;
+      const safetyResult = calculator.checkSafety(
+        newState.available,
+        newState.allocation,
+        newState.need,
+      );
+      expect(safetyResult.isSafe).toBe(true);
+      expect(plan?.safeSequence).toEqual(safetyResult.safeSequence);
+    });
+
+    test('should spare high-priority processes', () => {
+      const plan = calculator.planRecovery(createCircularState(), {
+        strategy: 'terminate',
+        cost: 'priority',
+        priorities: [5, 1, 1],
+      });
+
+      expect(plan?.victims).toEqual(['P1']);
+      expect(plan?.newState.max[1]).toEqual([0, 0]);
+      expect(plan?.newState.available).toEqual([0, 1]);
+    });
+
+    test('should preempt the fewest units and grow the victim need', () => {
+      const plan = calculator.planRecovery(createCircularState(), {
+        strategy: 'preempt',
+        cost: 'heldUnits',
+      });
+
+      expect(plan?.preemptedUnits).toBe(1);
+      expect(plan?.victims).toHaveLength(1);
+
+      const victim = Number(plan!.victims[0].slice(1));
+      expect(plan?.newState.max[victim]).toEqual(
+        createCircularState().max[victim],
+      );
+      expect(
+        calculator.checkSafety(
+          plan!.newState.available,
+          plan!.newState.allocation,
+          plan!.newState.need,
+        ).isSafe,
+      ).toBe(true);
+    });
+
+    test('should break a deadlock in detection mode', () => {
+      const plan = calculator.planRecovery(createCircularState(), {
+        strategy: 'preempt',
+        cost: 'remainingNeed',
+        mode: 'detection',
+      });
+
+      const {newState} = plan!;
+      const detectionResult = calculator.detectDeadlock({
+        processCount: newState.processCount,
+        resourceCount: newState.resourceCount,
+        allocation: newState.allocation,
+        request: newState.request!,
+        available: newState.available,
+      });
+
+      expect(plan?.preemptedUnits).toBe(1);
+      expect(detectionResult.isDeadlocked).toBe(false);
+      expect(plan?.safeSequence).toEqual(detectionResult.completionSequence);
+    });
+
+    test('should fall back to cheapest-first termination on large searches', () => {
+      // 13 processes each hold one unit and need 12 more, so 12 of them have
+      // to go; the idle processes make every candidate check costly
+      const allocation = [
+        ...Array.from({length: 13}, () => [1]),
+        ...Array.from({length: 40}, () => [0]),
+      ];
+      const max = allocation.map(([units]) => [units * 13]);
+      const state: BankersAlgorithmState = {
+        ...calculator.createDefaultState(),
+        processCount: allocation.length,
+        resourceCount: 1,
+        available: [0],
+        allocation,
+        max,
+        need: calculateNeedMatrix(max, allocation),
+      };
+
+      const plan = calculator.planRecovery(state, {
+        strategy: 'terminate',
+        cost: 'heldUnits',
+      });
+
+      expect(plan?.isOptimal).toBe(false);
+      expect(plan?.victims).toHaveLength(12);
+      expect(
+        calculator.checkSafety(
+          plan!.newState.available,
+          plan!.newState.allocation,
+          plan!.newState.need,
+        ).isSafe,
+      ).toBe(true);
+    });
+
+    test('should terminate a victim that holds nothing', () => {
+      // P0 holds nothing but needs more than the system will ever have
+      const allocation = [[0], [1]];
+      const max = [[5], [2]];
+      const state: BankersAlgorithmState = {
+        ...calculator.createDefaultState(),
+        processCount: 2,
+        resourceCount: 1,
+        available: [1],
+        allocation,
+        max,
+        need: calculateNeedMatrix(max, allocation),
+        request: [[5], [1]],
+      };
+
+      (['heldUnits', 'priority', 'remainingNeed'] as const).forEach((cost) => {
+        const plan = calculator.planRecovery(state, {
+          strategy: 'terminate',
+          cost,
+        });
+
+        expect(plan?.victims).toEqual(['P0']);
+        expect(plan?.newState.allocation[0]).toEqual([0]);
+        expect(plan?.newState.max[0]).toEqual([0]);
+        expect(plan?.newState.request?.[0]).toEqual([0]);
+        expect(
+          calculator.checkSafety(
+            plan!.newState.available,
+            plan!.newState.allocation,
+            plan!.newState.need,
+          ).isSafe,
+        ).toBe(true);
+      });
+    });
+
+    test('should need no victims when the system is already safe', () => {
+      const plan = calculator.planRecovery(calculator.createDefaultState(), {
+        strategy: 'terminate',
+        cost: 'heldUnits',
+      });
+
+      expect(plan?.victims).toEqual([]);
+      expect(plan?.totalCost).toBe(0);
+    });
+  });
+
+  describe('Selection Strategies', () => {
+    const available = [3, 3, 2];
+    const allocation = [
+      [0, 1, 0],
+      [2, 0, 0],
+      [3, 0, 2],
+      [2, 1, 1],
+      [0, 0, 2],
+    ];
+    const need = calculateNeedMatrix(
+      [
+        [7, 5, 3],
+        [3, 2, 2],
+        [9, 0, 2],
+        [2, 2, 2],
+        [4, 3, 3],
+      ],
+      allocation,
+    );
+
+    test('should restart from P0 by default', () => {
+      const result = calculator.checkSafety(available, allocation, need);
+
+      expect(result.safeSequence).toEqual(['P1', 'P3', 'P0', 'P2', 'P4']);
+      expect(result.steps[0].description).toBe('init: work = available');
+    });
+
+    test('should change the sequence but not the verdict', () => {
+      const sequenceFor = (options: SafetyOptions) =>
+        calculator.checkSafety(available, allocation, need, options)
+          .safeSequence;
+
+      expect(sequenceFor({strategy: 'roundRobin'})).toEqual([
+        'P1',
+        'P3',
+        'P4',
+        'P0',
+        'P2',
+      ]);
+      expect(sequenceFor({strategy: 'smallestNeed'})).toEqual([
+        'P3',
+        'P1',
+        'P2',
+        'P4',
+        'P0',
+      ]);
+      expect(sequenceFor({strategy: 'largestAllocation'})).toEqual([
+        'P3',
+        'P1',
+        'P2',
+        'P4',
+        'P0',
+      ]);
+      expect(
+        sequenceFor({strategy: 'priority', priorities: [5, 0, 0, 0, 9]}),
+      ).toEqual(['P1', 'P4', 'P3', 'P0', 'P2']);
+    });
+
+    test('should describe the strategy in the trace', () => {
+      const result = calculator.checkSafety(available, allocation, need, {
+        strategy: 'smallestNeed',
+      });
+
+      expect(result.steps[0].description).toContain(
+        'selection: smallest remaining need first',
+      );
+      expect(result.steps[1].processChecked).toBe('P3');
+      expect(result.steps[1].description).toContain('remaining need: 2');
+    });
+
+    test('should report the same unsafe verdict for every strategy', () => {
+      const strategies: SelectionStrategy[] = [
+        'restartFromZero',
+        'roundRobin',
+        'smallestNeed',
+        'largestAllocation',
+        'priority',
+      ];
+
+      strategies.forEach((strategy) => {
+        const result = calculator.checkSafety([0], [[2], [1]], [[3], [4]], {
+          strategy,
+        });
+        expect(result.isSafe).toBe(false);
+      });
+    });
+  });
+
+  describe('Resource Release', () => {
+    test('should return released units to Available and grow Need', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.processRelease(
+        {processId: 0, requestVector: [1, 0, 0]},
+        state,
+      );
+
+      expect(result.canGrant).toBe(true);
+      expect(result.newState?.available).toEqual([3, 2, 3]);
+      expect(result.newState?.allocation[0]).toEqual([0, 0, 0]);
+      expect(result.newState?.need[0]).toEqual([2, 1, 1]);
+      expect(result.newState?.total).toEqual(state.total);
+      expect(result.newState?.isSafe).toBe(true);
+      expect(result.simulationSteps?.[1].description).toStartWith(
+        'Release resources',
+      );
+    });
+
+    test('should reject releasing more than the process holds', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.processRelease(
+        {processId: 1, requestVector: [1, 0, 0]},
+        state,
+      );
+
+      expect(result.canGrant).toBe(false);
+      expect(result.newState).toBeUndefined();
+      expect(result.simulationSteps).toHaveLength(1);
+      expect(result.simulationSteps?.[0].canFinish).toBe(false);
+    });
+
+    test('should report an unsafe state that the release does not fix', () => {
+      const state: BankersAlgorithmState = {
+        processCount: 2,
+        resourceCount: 1,
+        allocation: [[2], [1]],
+        max: [[5], [5]],
+        available: [0],
+        total: [3],
+        need: [[3], [4]],
+        finish: [false, false],
+        safeSequence: [],
+        algorithmSteps: [],
+        isCalculating: false,
+      };
+
+      const result = calculator.processRelease(
+        {processId: 1, requestVector: [1]},
+        state,
+      );
+
+      expect(result.canGrant).toBe(true);
+      expect(result.newState?.available).toEqual([1]);
+      expect(result.newState?.isSafe).toBe(false);
+    });
+  });
+
+  describe('Process Admission and Retirement', () => {
+    test('should admit a process whose claim fits the total resources', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.admitProcess([3, 3, 3], state);
+
+      expect(result.canGrant).toBe(true);
+      expect(result.newState?.processCount).toBe(3);
+      expect(result.newState?.allocation[2]).toEqual([0, 0, 0]);
+      expect(result.newState?.need[2]).toEqual([3, 3, 3]);
+      expect(result.newState?.available).toEqual(state.available);
+      expect(result.newState?.safeSequence).toHaveLength(3);
+    });
+
+    test('should deny a claim that exceeds the total resources', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.admitProcess([4, 0, 0], state);
+
+      expect(result.canGrant).toBe(false);
+      expect(result.errorMessage).toContain('Admission DENIED');
+      expect(result.simulationSteps).toHaveLength(1);
+    });
+
+    test('should deny admission to an unsafe system', () => {
+      const state: BankersAlgorithmState = {
+        processCount: 2,
+        resourceCount: 1,
+        allocation: [[2], [1]],
+        max: [[5], [5]],
+        available: [0],
+        total: [3],
+        need: [[3], [4]],
+        finish: [false, false],
+        safeSequence: [],
+        algorithmSteps: [],
+        isCalculating: false,
+      };
+
+      const result = calculator.admitProcess([1], state);
+
+      expect(result.canGrant).toBe(false);
+      expect(result.simulationSteps?.[2].description).toContain('UNSAFE');
+    });
+
+    test('should retire any process and return what it holds', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.retireProcess(0, state);
+
+      expect(result.canGrant).toBe(true);
+      expect(result.newState?.processCount).toBe(1);
+      expect(result.newState?.available).toEqual([3, 2, 3]);
+      expect(result.newState?.max).toEqual([[1, 2, 1]]);
+      expect(result.newState?.total).toEqual(state.total);
+      expect(result.simulationSteps?.[0].description).toContain(
+        'P1 becomes P0',
+      );
+    });
+
+    test('should not retire the only process', () => {
+      const state = calculator.createDefaultState();
+      const single = calculator.retireProcess(0, state).newState!;
+
+      const result = calculator.retireProcess(0, single);
+
+      expect(result.canGrant).toBe(false);
+    });
+  });
+
   describe('Matrix Resizing', () => {
     test('should resize matrices correctly', () => {
       const state = calculator.createDefaultState();
@@ -672,5 +1490,90 @@ describe("Enhanced Banker's Algorithm Calculator", () => {
 
       expect(resized.allocation[0][0]).toBe(originalValue);
     });
+
+    test('should keep rows that already fit when only processes change', () => {
+      const state = calculator.createDefaultState();
+
+      const resized = calculator.resizeMatrices(state, 4, state.resourceCount);
+
+      expect(resized.allocation[0]).toBe(state.allocation[0]);
+      expect(resized.max[1]).toBe(state.max[1]);
+      expect(resized.need[1]).toBe(state.need[1]);
+      expect(resized.allocation[3]).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('Structural Sharing', () => {
+    test('should only replace the rows a granted request changes', () => {
+      const state = calculator.createDefaultState();
+
+      const result = calculator.processRequest(
+        {processId: 1, requestVector: [1, 0, 0]},
+        state,
+      );
+      const newState = result.newState!;
+
+      expect(newState.allocation[1]).not.toBe(state.allocation[1]);
+      expect(newState.need[1]).toEqual(
+        calculateNeedMatrix(newState.max, newState.allocation)[1],
+      );
+      expect(newState.allocation[0]).toBe(state.allocation[0]);
+      expect(newState.need[0]).toBe(state.need[0]);
+      expect(newState.max).toBe(state.max);
+    });
+
+    test('should leave the original state untouched', () => {
+      const state = calculator.createDefaultState();
+      const allocationBefore = state.allocation.map((row) => [...row]);
+      const availableBefore = [...state.available];
+
+      calculator.processRequest(
+        {processId: 1, requestVector: [1, 0, 0]},
+        state,
+      );
+      calculator.processRelease(
+        {processId: 0, requestVector: [1, 0, 0]},
+        state,
+      );
+      calculator.completeProcess(state, 1);
+
+      expect(state.allocation).toEqual(allocationBefore);
+      expect(state.available).toEqual(availableBefore);
+    });
+
+    test('should share the rows of processes kept by a recovery plan', () => {
+      const allocation = [
+        [1, 0],
+        [0, 1],
+        [0, 0],
+      ];
+      const max = [
+        [1, 1],
+        [1, 1],
+        [1, 1],
+      ];
+      const state: BankersAlgorithmState = {
+        ...calculator.createDefaultState(),
+        processCount: 3,
+        resourceCount: 2,
+        available: [0, 0],
+        total: [1, 1],
+        allocation,
+        max,
+        need: calculateNeedMatrix(max, allocation),
+        request: undefined,
+      };
+
+      const plan = calculator.planRecovery(state, {
+        strategy: 'terminate',
+        cost: 'priority',
+        priorities: [5, 1, 1],
+      });
+
+      expect(plan?.victims).toEqual(['P1']);
+      expect(plan?.newState.allocation[0]).toBe(allocation[0]);
+      expect(plan?.newState.max[2]).toBe(max[2]);
+      expect(plan?.newState.need[2]).toBe(state.need[2]);
+    });
   });
 });
@@ -0,0 +1,192 @@
+/**
+ * Banker's Algorithm Task and Worker Client Tests
+ * npm test -- --testPathPatterns=bankers-algorithm-tasks.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {
+  runBankersTask,
+  TaskProgress,
+  WorkerRequest,
+} from '../bankers-algorithm-tasks';
+import {
+  BankersAlgorithmWorkerClient,
+  TaskCancelledError,
+} from '../bankers-algorithm-worker-client';
+
+describe('Banker Algorithm Tasks', () => {
+  let calculator: BankersAlgorithmCalculator;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+  });
+
+  describe('Running Tasks', () => {
+    test('should bundle the safety trace with its follow-up analyses', () => {
+      const state = calculator.createDefaultState();
+      const progress: TaskProgress[] = [];
+
+      const analysis = runBankersTask(
+        calculator,
+        {kind: 'checkSafety', state},
+        (update) => progress.push(update),
+      );
+
+      expect(analysis.safety.isSafe).toBe(true);
+      expect(analysis.enumeration.sequences.length).toBeGreaterThan(0);
+      expect(analysis.availableIncrease).toBeNull();
+      expect(progress.map((update) => update.completed)).toEqual([0, 1, 2, 3]);
+      expect(progress.every((update) => update.total === 3)).toBe(true);
+    });
+
+    test('should skip follow-up analyses for a denied request', () => {
+      const state = calculator.createDefaultState();
+
+      const analysis = runBankersTask(calculator, {
+        kind: 'processRequest',
+        request: {processId: 0, requestVector: [5, 0, 0]},
+        state,
+      });
+
+      expect(analysis.result.canGrant).toBe(false);
+      expect(analysis.enumeration).toBeNull();
+      expect(analysis.availableIncrease).toBeNull();
+    });
+
+    test('should search the largest requests of one process', () => {
+      const state = calculator.createDefaultState();
+      const stages: string[] = [];
+
+      const maxSafeRequest = runBankersTask(
+        calculator,
+        {kind: 'findMaxSafeRequest', processId: 1, state},
+        (update) => stages.push(update.stage),
+      );
+
+      expect(maxSafeRequest).toEqual(calculator.findMaxSafeRequest(1, state));
+      expect(stages).toEqual(['Searching largest requests of P1', 'Done']);
+    });
+
+    test('should build the wait-for graph of the system shown', () => {
+      // P0 holds A and waits for B, P1 holds B and waits for A
+      const graph = runBankersTask(
+        calculator,
+        {
+          kind: 'buildWaitForGraph',
+          system: {
+            allocation: [
+              [1, 0],
+              [0, 1],
+            ],
+            demand: [
+              [0, 1],
+              [1, 0],
+            ],
+            available: [0, 0],
+            finish: [false, false],
+          },
+        },
+        () => {},
+      );
+
+      expect(graph.edges.map(({from, to}) => [from, to])).toEqual([
+        [0, 1],
+        [1, 0],
+      ]);
+      expect(graph.cycles).toEqual([[0, 1]]);
+    });
+  });
+
+  describe('Worker Client', () => {
+    // Without a worker the client runs tasks inline on a later tick
+    const createClient = () => new BankersAlgorithmWorkerClient(() => null);
+
+    test('should resolve tasks run inline', async () => {
+      const client = createClient();
+      const state = calculator.createDefaultState();
+
+      const detection = await client.run({
+        kind: 'detectDeadlock',
+        state: {
+          processCount: state.processCount,
+          resourceCount: state.resourceCount,
+          allocation: state.allocation,
+          request: [
+            [0, 0, 0],
+            [0, 0, 0],
+          ],
+          available: state.available,
+        },
+      }).promise;
+
+      expect(detection.isDeadlocked).toBe(false);
+    });
+
+    test('should reject a cancelled task and keep running the others', async () => {
+      const client = createClient();
+      const state = calculator.createDefaultState();
+
+      const cancelled = client.run({kind: 'checkSafety', state});
+      const kept = client.run({kind: 'checkSafety', state});
+      client.cancel(cancelled.id);
+
+      await expect(cancelled.promise).rejects.toBeInstanceOf(
+        TaskCancelledError,
+      );
+      expect((await kept.promise).safety.isSafe).toBe(true);
+    });
+
+    test('should replace the worker when cancelling the task it runs', () => {
+      // Workers that never answer, recording what they were sent
+      const workers: Array<{messages: WorkerRequest[]; terminated: boolean}> =
+        [];
+      const client = new BankersAlgorithmWorkerClient(() => {
+        const worker = {messages: [] as WorkerRequest[], terminated: false};
+        workers.push(worker);
+        return {
+          postMessage: (message: WorkerRequest) =>
+            worker.messages.push(message),
+          terminate: () => (worker.terminated = true),
+          addEventListener: () => {},
+        } as unknown as Worker;
+      });
+      const state = calculator.createDefaultState();
+
+      const running = client.run({kind: 'checkSafety', state});
+      const queued = client.run({kind: 'checkSafety', state});
+      const next = client.run({kind: 'checkSafety', state});
+      [running, queued, next].forEach(({promise}) => promise.catch(() => {}));
+
+      // A queued task is dropped from the worker's queue
+      client.cancel(queued.id);
+      expect(workers).toHaveLength(1);
+      expect(workers[0].messages.at(-1)).toEqual({
+        type: 'cancel',
+        id: queued.id,
+      });
+
+      // The oldest task may have started before reporting any progress
+      client.cancel(running.id);
+      expect(workers[0].terminated).toBe(true);
+      expect(workers[1].messages).toEqual([
+        {type: 'run', id: next.id, task: {kind: 'checkSafety', state}},
+      ]);
+
+      client.dispose();
+    });
+
+    test('should cancel every pending task when disposed', async () => {
+      const client = createClient();
+      const task = client.run({
+        kind: 'checkSafety',
+        state: calculator.createDefaultState(),
+      });
+
+      client.dispose();
+
+      await expect(task.promise).rejects.toBeInstanceOf(TaskCancelledError);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Image Export Tests
+ * npm test -- --testPathPatterns=image-export.test.ts --verbose
+ */
+
+import {describe, test, expect} from 'bun:test';
+
+import {
+  getImagePalette,
+  renderSequenceImage,
+  renderTableImage,
+  TableImage,
+} from '../image-export';
+
+describe('Image Export', () => {
+  const table: TableImage = {
+    mode: 'avoidance',
+    allocation: [
+      [1, 0, 0],
+      [0, 1, 0],
+    ],
+    max: [
+      [2, 1, 1],
+      [1, 2, 1],
+    ],
+    need: [
+      [1, 1, 1],
+      [1, 1, 1],
+    ],
+    available: [2, 2, 3],
+    finish: [true, false],
+  };
+
+  test('should draw the table as shown, in the theme', () => {
+    const image = renderTableImage(
+      {...table, processNames: ['Build & <Test>']},
+      true,
+    );
+
+    expect(image.markup).toStartWith('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(image.markup).toContain(`width="${image.width}"`);
+    expect(image.markup).toContain('>Build &amp; &lt;Test&gt;</text>');
+    ['Allocation', 'Max', 'Need', '✓ true', '✗ false'].forEach((label) =>
+      expect(image.markup).toContain(`>${label}</text>`),
+    );
+    expect(image.markup).toContain('>Available: A 2, B 2, C 3</text>');
+    expect(image.markup).toContain(
+      `fill="${getImagePalette(true).background}"`,
+    );
+    expect(image.markup).not.toContain(getImagePalette(false).background);
+  });
+
+  test('should show the Request matrix and the checked process', () => {
+    const detection = renderTableImage(
+      {
+        ...table,
+        mode: 'detection',
+        request: [
+          [0, 0, 7],
+          [0, 0, 0],
+        ],
+        highlightedProcess: 1,
+      },
+      false,
+    );
+
+    expect(detection.markup).toContain('>Request</text>');
+    expect(detection.markup).toContain('>7</text>');
+    expect(detection.markup).not.toContain('>Max</text>');
+    expect(detection.markup).toContain(
+      `fill="${getImagePalette(false).highlight}"`,
+    );
+    // Fewer matrices make a narrower image
+    expect(detection.width).toBeLessThan(renderTableImage(table, false).width);
+  });
+
+  test('should draw the safe sequence and wrap long ones', () => {
+    const image = renderSequenceImage(
+      {
+        mode: 'avoidance',
+        safeSequence: ['P1', 'P0'],
+        processNames: ['', 'Server'],
+      },
+      false,
+    );
+
+    expect(image.markup).toContain('>Safe Sequence</text>');
+    expect(image.markup.indexOf('>Server</text>')).toBeLessThan(
+      image.markup.indexOf('>P0</text>'),
+    );
+    expect(image.markup.match(/>→<\/text>/g)).toHaveLength(1);
+
+    const long = renderSequenceImage(
+      {
+        mode: 'detection',
+        safeSequence: Array.from({length: 30}, (_, i) => `P${i}`),
+      },
+      false,
+    );
+    expect(long.markup).toContain('>Completion Order</text>');
+    expect(long.width).toBeLessThanOrEqual(720 + 2 * 24);
+    expect(long.height).toBeGreaterThan(image.height);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Matrix Text Tests
+ * npm test -- --testPathPatterns=matrix-text.test.ts --verbose
+ */
+
+import {describe, test, expect} from 'bun:test';
+
+import {
+  formatMatrixCsv,
+  isMultiCellText,
+  parseMatrixText,
+  splitDelimitedText,
+} from '../matrix-text';
+import {setMatrixBlock} from '@/utils/matrix-utils';
+
+describe('Matrix Text', () => {
+  test('should read cells copied from a spreadsheet', () => {
+    const text = '1\t2\t3\r\n4\t\t6\r\n';
+
+    expect(isMultiCellText(text)).toBe(true);
+    expect(isMultiCellText('7\n')).toBe(false);
+    expect(parseMatrixText(text)).toEqual({
+      values: [
+        [1, 2, 3],
+        [4, 0, 6],
+      ],
+      errors: [],
+    });
+  });
+
+  test('should import what it exports', () => {
+    const matrix = [
+      [0, 1, 0],
+      [2, 0, 0],
+    ];
+    const csv = formatMatrixCsv(matrix, ['Editor, v2', ''], ['CPU']);
+
+    expect(csv.split('\n')[0]).toBe('Process,CPU,B,C');
+    expect(splitDelimitedText(csv, ',')[1]).toEqual([
+      'Editor, v2',
+      '0',
+      '1',
+      '0',
+    ]);
+    expect(parseMatrixText(csv).values).toEqual(matrix);
+  });
+
+  test('should give the row and column of an invalid value', () => {
+    const {values, errors} = parseMatrixText('1,2\n3,x\n-1,4');
+
+    expect(values).toBeUndefined();
+    expect(errors).toEqual([
+      {
+        field: 'row 2, column 2',
+        message: 'Value must be a non-negative integer, got "x"',
+      },
+      {
+        field: 'row 3, column 1',
+        message: 'Value must be a non-negative integer, got -1',
+      },
+    ]);
+    expect(parseMatrixText('\n\n').errors[0].field).toBe('text');
+  });
+
+  test('should write a block of values within the matrix', () => {
+    const matrix = [
+      [0, 0],
+      [0, 0],
+      [5, 5],
+    ];
+    const next = setMatrixBlock(matrix, 1, 1, [
+      [1, 2],
+      [5, 3],
+    ]);
+
+    expect(next).toEqual([
+      [0, 0],
+      [0, 1],
+      [5, 5],
+    ]);
+    expect(next[0]).toBe(matrix[0]);
+    expect(next[2]).toBe(matrix[2]);
+    expect(setMatrixBlock(matrix, 2, 0, [[5]])).toBe(matrix);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Resource-Allocation Graph Tests
+ * npm test -- --testPathPatterns=resource-graph.test.ts --verbose
+ */
+
+import {describe, test, expect} from 'bun:test';
+
+import {
+  buildAllocationGraphEdges,
+  buildWaitForGraph,
+  findCycles,
+} from '../resource-graph';
+
+describe('Resource Graph', () => {
+  describe('Allocation Graph Edges', () => {
+    test('should create assignment and claim edges with unit counts', () => {
+      const allocation = [
+        [1, 0],
+        [0, 2],
+      ];
+      const need = [
+        [0, 3],
+        [0, 0],
+      ];
+
+      const edges = buildAllocationGraphEdges(allocation, need, [false, true]);
+
+      expect(edges).toEqual([
+        {
+          process: 0,
+          resource: 0,
+          units: 1,
+          kind: 'assignment',
+          released: false,
+        },
+        {process: 0, resource: 1, units: 3, kind: 'claim', released: false},
+        {process: 1, resource: 1, units: 2, kind: 'assignment', released: true},
+      ]);
+    });
+
+    test('should label demand as request edges in detection mode', () => {
+      const edges = buildAllocationGraphEdges([[0]], [[1]], [false], 'request');
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0].kind).toBe('request');
+    });
+  });
+
+  describe('Wait-For Graph', () => {
+    test('should find a cycle between processes holding what the other needs', () => {
+      // P0 holds A and needs B, P1 holds B and needs A, nothing available
+      const allocation = [
+        [1, 0],
+        [0, 1],
+        [0, 0],
+      ];
+      const request = [
+        [0, 1],
+        [1, 0],
+        [0, 0],
+      ];
+
+      const graph = buildWaitForGraph(
+        allocation,
+        request,
+        [0, 0],
+        [false, false, false],
+      );
+
+      expect(graph.edges.map((edge) => [edge.from, edge.to])).toEqual([
+        [0, 1],
+        [1, 0],
+      ]);
+      expect(graph.cycles).toEqual([[0, 1]]);
+    });
+
+    test('should not add edges when the demand can be met from available', () => {
+      const graph = buildWaitForGraph(
+        [
+          [1, 0],
+          [0, 1],
+        ],
+        [
+          [0, 1],
+          [1, 0],
+        ],
+        [1, 1],
+        [false, false],
+      );
+
+      expect(graph.edges).toHaveLength(0);
+      expect(graph.cycles).toHaveLength(0);
+    });
+
+    test('should ignore edges of finished processes when finding cycles', () => {
+      const graph = buildWaitForGraph(
+        [
+          [1, 0],
+          [0, 1],
+        ],
+        [
+          [0, 1],
+          [1, 0],
+        ],
+        [0, 0],
+        [true, false],
+      );
+
+      expect(graph.edges.every((edge) => edge.released)).toBe(true);
+      expect(graph.cycles).toHaveLength(0);
+    });
+  });
+
+  describe('Cycle Detection', () => {
+    test('should return only the cyclic components', () => {
+      const cycles = findCycles(5, [
+        {from: 0, to: 1},
+        {from: 1, to: 2},
+        {from: 2, to: 0},
+        {from: 2, to: 3},
+        {from: 3, to: 4},
+      ]);
+
+      expect(cycles).toEqual([[0, 1, 2]]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Scenario File Tests
+ * npm test -- --testPathPatterns=scenario-file.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {SCENARIO_VERSION, toVersionedScenario} from '../scenario';
+import {
+  formatScenarioFile,
+  formatScenarioFileError,
+  parseScenarioFile,
+} from '../scenario-file';
+
+describe('Scenario File', () => {
+  let calculator: BankersAlgorithmCalculator;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+  });
+
+  const defaultScenario = () =>
+    toVersionedScenario(calculator.createDefaultState()).scenario;
+
+  test('should import what it exports', () => {
+    const scenario = {...defaultScenario(), resourceNames: ['CPU', '', 'Disk']};
+    const text = formatScenarioFile(scenario);
+
+    expect(text).toContain('[0, 1, 0]');
+    expect(parseScenarioFile(text, calculator)).toEqual({
+      scenario,
+      errors: [],
+    });
+  });
+
+  test('should give the line of a syntax error', () => {
+    const text = formatScenarioFile(defaultScenario()).replace(
+      '"max": [',
+      '"max": [,',
+    );
+    const line = text.split('\n').findIndex((row) => row.includes('"max"')) + 1;
+
+    const {scenario, errors} = parseScenarioFile(text, calculator);
+    expect(scenario).toBeUndefined();
+    expect(errors).toEqual([
+      {field: 'file', line, message: 'Unexpected ",", expected a value'},
+    ]);
+    expect(parseScenarioFile('{"version": 1', calculator).errors).toEqual([
+      {
+        field: 'file',
+        line: 1,
+        message: 'Unexpected end of file, expected "," or "}"',
+      },
+    ]);
+  });
+
+  test('should give the line and field of an invalid value', () => {
+    const scenario = defaultScenario();
+    scenario.allocation = [scenario.allocation[0], [4, 0, 0]];
+    const text = formatScenarioFile(scenario);
+    const line =
+      text.split('\n').findIndex((row) => row.includes('[4, 0, 0]')) + 1;
+
+    const {errors} = parseScenarioFile(text, calculator);
+    expect(errors[0]).toMatchObject({field: 'allocation[1][0]', line});
+    expect(formatScenarioFileError(errors[0])).toStartWith(
+      `Line ${line}, allocation[1][0]: Allocation (4) cannot exceed Max`,
+    );
+  });
+
+  test('should read Total in place of Available', () => {
+    const {available, ...scenario} = defaultScenario();
+    const state = calculator.createDefaultState();
+
+    const {scenario: parsed} = parseScenarioFile(
+      JSON.stringify({
+        version: SCENARIO_VERSION,
+        scenario: {...scenario, total: state.total},
+      }),
+      calculator,
+    );
+    expect(parsed?.available).toEqual(available);
+
+    const {errors} = parseScenarioFile(
+      formatScenarioFile({
+        ...scenario,
+        available,
+        total: state.total.map((units) => units + 1),
+      }),
+      calculator,
+    );
+    expect(errors.map((error) => error.field)).toContain('total[0]');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Scenario Library Tests
+ * npm test -- --testPathPatterns=scenario-library.test.ts --verbose
+ */
+
+import {describe, test, expect} from 'bun:test';
+
+import {
+  getCopyName,
+  LibraryEntry,
+  MAX_SCENARIO_NAME_LENGTH,
+  normalizeScenarioName,
+  ScenarioLibrary,
+  searchEntries,
+} from '../scenario-library';
+
+const createEntry = (name: string): LibraryEntry => ({
+  id: name,
+  name,
+  processCount: 5,
+  resourceCount: 3,
+  savedAt: 0,
+});
+
+describe('Scenario Library', () => {
+  test('should clean up names as entered', () => {
+    expect(normalizeScenarioName('  Exam   2024 \n')).toBe('Exam 2024');
+    expect(normalizeScenarioName('   ')).toBe('');
+    expect(normalizeScenarioName('x'.repeat(100))).toHaveLength(
+      MAX_SCENARIO_NAME_LENGTH,
+    );
+  });
+
+  test('should find entries containing every word of the query', () => {
+    const entries = ['Textbook Example', 'Exam 2024', 'Exam 2023 (copy)'].map(
+      createEntry,
+    );
+
+    const names = (query: string) =>
+      searchEntries(entries, query).map((entry) => entry.name);
+
+    expect(names('')).toEqual([
+      'Textbook Example',
+      'Exam 2024',
+      'Exam 2023 (copy)',
+    ]);
+    expect(names('exam')).toHaveLength(3);
+    expect(names('exam 20')).toEqual(['Exam 2024', 'Exam 2023 (copy)']);
+    expect(names('COPY exam')).toEqual(['Exam 2023 (copy)']);
+    expect(names('exam 2025')).toEqual([]);
+  });
+
+  test('should name copies after the first free copy number', () => {
+    expect(getCopyName('Exam', [])).toBe('Exam (copy)');
+    expect(getCopyName('Exam', ['Exam (copy)'])).toBe('Exam (copy 2)');
+    expect(getCopyName('Exam (copy)', ['Exam (copy)'])).toBe('Exam (copy 2)');
+    expect(getCopyName('x'.repeat(MAX_SCENARIO_NAME_LENGTH), [])).toHaveLength(
+      MAX_SCENARIO_NAME_LENGTH,
+    );
+  });
+
+  test('should report an error when IndexedDB is unavailable', async () => {
+    const library = new ScenarioLibrary(null);
+
+    expect(library.isAvailable).toBe(false);
+    await expect(library.list()).rejects.toThrow('not supported');
+  });
+});
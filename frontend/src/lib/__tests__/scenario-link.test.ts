@@ -0,0 +1,89 @@
+/**
+ * Scenario Link Tests
+ * npm test -- --testPathPatterns=scenario-link.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {Scenario, toVersionedScenario} from '../scenario';
+import {decodeScenarioLink, encodeScenarioLink} from '../scenario-link';
+
+describe('Scenario Link', () => {
+  let calculator: BankersAlgorithmCalculator;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+  });
+
+  // The default example, without its outstanding requests (none are made)
+  const defaultScenario = (): Scenario => {
+    const scenario = toVersionedScenario(
+      calculator.createDefaultState(),
+    ).scenario;
+    delete scenario.request;
+    return scenario;
+  };
+
+  test('should open what it encodes', () => {
+    const scenario = {
+      ...defaultScenario(),
+      processNames: ['Build & Test', 'P1, again'],
+    };
+    const hash = encodeScenarioLink({scenario});
+
+    expect(hash).toContain('alloc=1.0.0_0.1.0&max=2.1.1_1.2.1');
+    expect(hash).not.toContain('req=');
+    expect(decodeScenarioLink(`#${hash}`, calculator)).toEqual({
+      link: {scenario},
+      errors: [],
+    });
+  });
+
+  test('should keep the step, its ordering and a drafted request', () => {
+    const link = {
+      scenario: defaultScenario(),
+      step: 3,
+      safetyOptions: {
+        strategy: 'priority' as const,
+        priorities: [1, 0],
+      },
+      request: {processId: 1, requestVector: [1, 0, 2]},
+    };
+    const hash = encodeScenarioLink(link);
+
+    expect(hash).toContain('&step=3&strategy=priority&priorities=1.0');
+    expect(hash).toContain('&pending=1:1.0.2');
+    expect(decodeScenarioLink(hash, calculator)?.link).toEqual(link);
+  });
+
+  test('should name what is wrong with a link', () => {
+    const hash = encodeScenarioLink({scenario: defaultScenario()});
+
+    expect(
+      decodeScenarioLink(
+        hash.replace('avail=2.2.3', 'avail=2.x.3'),
+        calculator,
+      ),
+    ).toEqual({
+      errors: [
+        {
+          field: 'available[1]',
+          message: 'Value must be a non-negative integer, got "x"',
+        },
+      ],
+    });
+    expect(
+      decodeScenarioLink(`${hash}&pending=7:1.0.2`, calculator)?.errors,
+    ).toEqual([{field: 'pending', message: 'Must name a process from 0 to 1'}]);
+    expect(
+      decodeScenarioLink(hash.replace('max=2.1.1', 'max=0.0.0'), calculator)
+        ?.errors.length,
+    ).toBeGreaterThan(0);
+  });
+
+  test('should ignore hashes that hold no scenario', () => {
+    expect(decodeScenarioLink('', calculator)).toBeNull();
+    expect(decodeScenarioLink('#results', calculator)).toBeNull();
+  });
+});
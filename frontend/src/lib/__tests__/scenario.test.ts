@@ -0,0 +1,116 @@
+/**
+ * Scenario Tests
+ * npm test -- --testPathPatterns=scenario.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {
+  createStateFromScenario,
+  migrateScenarioData,
+  parseScenario,
+  SCENARIO_VERSION,
+  ScenarioMigration,
+  toVersionedScenario,
+} from '../scenario';
+
+describe('Scenario', () => {
+  let calculator: BankersAlgorithmCalculator;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+  });
+
+  test('should restore the inputs of a stored system', () => {
+    const state = {
+      ...calculator.createDefaultState(),
+      processNames: ['Editor', ''],
+    };
+    const stored = JSON.parse(JSON.stringify(toVersionedScenario(state)));
+    expect(stored.version).toBe(SCENARIO_VERSION);
+
+    const {scenario, errors} = parseScenario(stored);
+    expect(errors).toEqual([]);
+
+    const restored = createStateFromScenario(scenario!);
+    expect(restored.allocation).toEqual(state.allocation);
+    expect(restored.max).toEqual(state.max);
+    expect(restored.available).toEqual(state.available);
+    expect(restored.need).toEqual(state.need);
+    expect(restored.total).toEqual(state.total);
+    expect(restored.request).toEqual(state.request!);
+    expect(restored.processNames).toEqual(['Editor', '']);
+    expect(restored.resourceNames).toBeUndefined();
+    expect(restored.algorithmSteps).toEqual([]);
+  });
+
+  test('should name every invalid field', () => {
+    const {scenario} = toVersionedScenario(calculator.createDefaultState());
+    const {errors} = parseScenario({
+      version: SCENARIO_VERSION,
+      scenario: {
+        ...scenario,
+        allocation: [
+          [1, -1, 0],
+          [0, 1],
+        ],
+        available: [2, 2, 'x'],
+        processNames: ['Editor'],
+      },
+    });
+
+    expect(errors.map((error) => error.field)).toEqual([
+      'allocation[0][1]',
+      'allocation[1]',
+      'available[2]',
+      'processNames',
+    ]);
+  });
+
+  test('should reject data it cannot read', () => {
+    const {scenario} = toVersionedScenario(calculator.createDefaultState());
+
+    expect(parseScenario(null).errors[0].field).toBe('scenario');
+    expect(parseScenario({scenario}).errors[0].field).toBe('version');
+    expect(
+      parseScenario({version: SCENARIO_VERSION + 1, scenario}).errors[0]
+        .message,
+    ).toContain('newer');
+    expect(
+      parseScenario({
+        version: SCENARIO_VERSION,
+        scenario: {...scenario, processCount: 501},
+      }).errors,
+    ).toEqual([
+      {field: 'processCount', message: 'Must be a whole number from 1 to 500'},
+    ]);
+  });
+
+  test('should read version 1 data as written', () => {
+    const {scenario} = toVersionedScenario(calculator.createDefaultState());
+    const stored = JSON.parse(JSON.stringify({version: 1, scenario}));
+
+    expect(parseScenario(stored)).toEqual({scenario, errors: []});
+  });
+
+  test('should upgrade older data through every later migration', () => {
+    // Version 2 renamed `free` to `available`, version 3 added names
+    const migrations: ScenarioMigration[] = [
+      ({free, ...data}) => ({...data, available: free}),
+      (data) => ({...data, resourceNames: ['CPU']}),
+    ];
+    const older = {processCount: 1, free: [2]};
+
+    expect(migrateScenarioData(older, 1, migrations)).toEqual({
+      processCount: 1,
+      available: [2],
+      resourceNames: ['CPU'],
+    });
+    expect(migrateScenarioData({available: [2]}, 2, migrations)).toEqual({
+      available: [2],
+      resourceNames: ['CPU'],
+    });
+    expect(migrateScenarioData(older, 3, migrations)).toBe(older);
+  });
+});
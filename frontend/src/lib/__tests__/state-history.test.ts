@@ -0,0 +1,101 @@
+/**
+ * State History Tests
+ * npm test -- --testPathPatterns=state-history.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {
+  COALESCE_INTERVAL,
+  EMPTY_HISTORY,
+  isSameSnapshot,
+  MAX_HISTORY_LENGTH,
+  recordChange,
+  redoChange,
+  SystemSnapshot,
+  takeSnapshot,
+  undoChange,
+} from '../state-history';
+import {setMatrixCell} from '@/utils/matrix-utils';
+
+describe('State History', () => {
+  let initial: SystemSnapshot;
+
+  // Snapshot with allocation[0][0] set to `value`
+  const withAllocation = (value: number): SystemSnapshot => ({
+    ...initial,
+    allocation: setMatrixCell(initial.allocation, 0, 0, value),
+  });
+
+  beforeEach(() => {
+    initial = takeSnapshot(
+      new BankersAlgorithmCalculator().createDefaultState(),
+    );
+  });
+
+  test('should compare snapshots by the values they hold', () => {
+    expect(isSameSnapshot(initial, {...initial})).toBe(true);
+    expect(isSameSnapshot(initial, withAllocation(5))).toBe(false);
+    expect(isSameSnapshot(initial, {...initial, processNames: ['A']})).toBe(
+      false,
+    );
+  });
+
+  test('should undo and redo changes in order', () => {
+    const first = withAllocation(3);
+    const second = withAllocation(4);
+    let history = recordChange(EMPTY_HISTORY, initial, null);
+    history = recordChange(history, first, null);
+
+    const undone = undoChange(history, second);
+    expect(undone?.snapshot).toBe(first);
+    const undoneTwice = undoChange(undone!.history, first);
+    expect(undoneTwice?.snapshot).toBe(initial);
+    expect(undoChange(undoneTwice!.history, initial)).toBeNull();
+
+    const redone = redoChange(undoneTwice!.history, initial);
+    expect(redone?.snapshot).toBe(first);
+    expect(redoChange(redone!.history, first)?.snapshot).toBe(second);
+  });
+
+  test('should coalesce rapid edits of the same value', () => {
+    const key = 'allocation:0:0';
+    let history = recordChange(EMPTY_HISTORY, initial, {key, time: 0});
+    history = recordChange(history, withAllocation(1), {key, time: 300});
+    history = recordChange(history, withAllocation(2), {
+      key,
+      time: 300 + COALESCE_INTERVAL - 1,
+    });
+    expect(history.past).toEqual([initial]);
+
+    // Another cell, a pause or a change that is not an edit starts an entry
+    history = recordChange(history, withAllocation(3), {
+      key: 'max:0:0',
+      time: 2000,
+    });
+    history = recordChange(history, withAllocation(4), {
+      key: 'max:0:0',
+      time: 2000 + COALESCE_INTERVAL,
+    });
+    history = recordChange(history, withAllocation(5), null);
+    expect(history.past).toHaveLength(4);
+  });
+
+  test('should clear redo on a new change and cap its length', () => {
+    let history = recordChange(EMPTY_HISTORY, initial, null);
+    history = undoChange(history, withAllocation(1))!.history;
+    expect(history.future).toHaveLength(1);
+
+    history = recordChange(history, initial, null);
+    expect(history.future).toEqual([]);
+
+    for (let i = 0; i < MAX_HISTORY_LENGTH + 10; i++) {
+      history = recordChange(history, withAllocation(i), null);
+    }
+    expect(history.past).toHaveLength(MAX_HISTORY_LENGTH);
+    expect(history.past[MAX_HISTORY_LENGTH - 1].allocation[0][0]).toBe(
+      MAX_HISTORY_LENGTH + 9,
+    );
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Step State Tests
+ * npm test -- --testPathPatterns=step-states.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {buildStepStates} from '../step-states';
+
+describe('Step States', () => {
+  let calculator: BankersAlgorithmCalculator;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+  });
+
+  test('should mark processes finished from the step that finishes them', () => {
+    const state = calculator.createDefaultState();
+    const {steps} = calculator.checkSafety(
+      state.available,
+      state.allocation,
+      state.need,
+    );
+
+    const states = buildStepStates(steps, state);
+
+    steps.forEach((step, index) => {
+      const finished = steps
+        .slice(0, index + 1)
+        .filter((s) => s.processChecked && s.canFinish)
+        .map((s) => parseInt(s.processChecked!.replace('P', '')));
+      expect(states[index].finish).toEqual(
+        Array.from({length: state.processCount}, (_, i) =>
+          finished.includes(i),
+        ),
+      );
+      expect(states[index].work).toBe(step.workVector);
+    });
+  });
+
+  test('should share matrices and unchanged finish arrays between steps', () => {
+    const state = calculator.createDefaultState();
+    const {steps} = calculator.checkSafety(
+      state.available,
+      state.allocation,
+      state.need,
+    );
+
+    const states = buildStepStates(steps, state);
+
+    expect(states.every((s) => s.allocation === state.allocation)).toBe(true);
+    expect(states.every((s) => s.need === state.need)).toBe(true);
+    steps.forEach((step, index) => {
+      if (index > 0 && !(step.processChecked && step.canFinish)) {
+        expect(states[index].finish).toBe(states[index - 1].finish);
+      }
+    });
+  });
+
+  test('should switch to the new matrices once a granted request applies', () => {
+    const state = calculator.createDefaultState();
+    const result = calculator.processRequest(
+      {processId: 1, requestVector: [1, 0, 0]},
+      state,
+    );
+
+    const steps = result.simulationSteps ?? [];
+
+    const states = buildStepStates(steps, state, result.newState, true);
+    const applyIndex = steps.findIndex(
+      (step) => step.event.kind === 'allocate',
+    );
+
+    expect(applyIndex).toBeGreaterThan(0);
+    expect(states[applyIndex - 1].allocation).toBe(state.allocation);
+    expect(states[applyIndex].allocation).toBe(result.newState!.allocation);
+    expect(states[applyIndex].available).toBe(result.newState!.available);
+  });
+
+  test('should build traces of hundreds of processes without copying', () => {
+    const processCount = 500;
+    const resourceCount = 50;
+    const allocation = Array.from({length: processCount}, () =>
+      Array(resourceCount).fill(1),
+    );
+    const need = Array.from({length: processCount}, () =>
+      Array(resourceCount).fill(0),
+    );
+    const available = Array(resourceCount).fill(0);
+    const {steps, isSafe} = calculator.checkSafety(available, allocation, need);
+
+    const states = buildStepStates(steps, {
+      available,
+      allocation,
+      need,
+      processCount,
+    });
+
+    expect(isSafe).toBe(true);
+    expect(states).toHaveLength(steps.length);
+    expect(states[states.length - 1].finish.every(Boolean)).toBe(true);
+    expect(states[states.length - 1].allocation).toBe(allocation);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * System Labels Tests
+ * npm test -- --testPathPatterns=system-labels.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {describeTraceEvent} from '../trace-events';
+import {
+  formatProcessSequence,
+  getProcessName,
+  getResourceName,
+  MAX_NAME_LENGTH,
+  setName,
+} from '../system-labels';
+
+describe('System Labels', () => {
+  describe('Names', () => {
+    test('should fall back to the default labels', () => {
+      const processNames = ['', 'Editor'];
+      expect(getProcessName(undefined, 3)).toBe('P3');
+      expect(getProcessName(processNames, 0)).toBe('P0');
+      expect(getProcessName(processNames, 1)).toBe('Editor');
+      expect(getResourceName(undefined, 2)).toBe('C');
+      expect(getResourceName(undefined, 12)).toBe('R12');
+      expect(getResourceName(['Printer'], 0)).toBe('Printer');
+    });
+
+    test('should name the processes of a sequence', () => {
+      expect(formatProcessSequence(['', 'Editor'], ['P1', 'P0'])).toBe(
+        'Editor → P0',
+      );
+    });
+
+    test('should normalize names and only store them when set', () => {
+      const names = setName(undefined, 1, 3, '  Disk   writer ');
+      expect(names).toEqual(['', 'Disk writer', '']);
+
+      expect(setName(names, 1, 3, 'Disk writer')).toBe(names);
+      expect(setName(names, 1, 3, '   ')).toBeUndefined();
+      expect(setName(names, 0, 3, 'x'.repeat(40))?.[0]).toHaveLength(
+        MAX_NAME_LENGTH,
+      );
+    });
+  });
+
+  describe('Scenario', () => {
+    let calculator: BankersAlgorithmCalculator;
+
+    beforeEach(() => {
+      calculator = new BankersAlgorithmCalculator();
+    });
+
+    test('should keep names aligned with processes when they change', () => {
+      const state = {
+        ...calculator.createDefaultState(),
+        processNames: ['Editor', 'Compiler'],
+      };
+
+      const admitted = calculator.admitProcess([0, 0, 0], state).newState;
+      expect(admitted?.processNames).toEqual(['Editor', 'Compiler', '']);
+
+      const retired = calculator.retireProcess(1, state);
+      expect(retired.newState?.processNames).toEqual(['Editor']);
+      const retire = retired.simulationSteps?.[0].event;
+      expect(retire?.kind === 'retire' && retire.name).toBe('Compiler');
+
+      const resized = calculator.resizeMatrices(state, 3, 4);
+      expect(resized.processNames).toEqual(['Editor', 'Compiler', '']);
+      expect(calculator.resizeMatrices(state, 1, 3).processNames).toEqual([
+        'Editor',
+      ]);
+      expect(resized.resourceNames).toBeUndefined();
+    });
+
+    test('should use names in messages and rendered steps', () => {
+      const state = {
+        ...calculator.createDefaultState(),
+        processNames: ['Editor', 'Compiler'],
+      };
+
+      const result = calculator.processRequest(
+        {processId: 1, requestVector: [9, 0, 0]},
+        state,
+      );
+      expect(result.errorMessage).toContain('Compiler');
+
+      const [check] = result.simulationSteps ?? [];
+      expect(check.description).toContain('Request[P1]');
+      expect(describeTraceEvent(check.event, state.processNames)).toContain(
+        'Request[Compiler] ≤ Need[Compiler]',
+      );
+    });
+  });
+});
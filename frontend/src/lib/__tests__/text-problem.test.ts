@@ -0,0 +1,124 @@
+/**
+ * Text Problem Tests
+ * npm test -- --testPathPatterns=text-problem.test.ts --verbose
+ */
+
+import {describe, test, expect} from 'bun:test';
+
+import {parseTextProblem} from '../text-problem';
+
+describe('Text Problem', () => {
+  test('should read a textbook snapshot', () => {
+    const {scenario, errors, warnings} = parseTextProblem(`
+      Consider the following snapshot of the system:
+
+              Allocation   Max      Available
+              A B C        A B C    A B C
+        P0    0 1 0        7 5 3    3 3 2
+        P1    2 0 0        3 2 2
+        P2    3 0 2        9 0 2
+        P3    2 1 1        2 2 2
+        P4    0 0 2        4 3 3
+    `);
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(scenario).toEqual({
+      processCount: 5,
+      resourceCount: 3,
+      allocation: [
+        [0, 1, 0],
+        [2, 0, 0],
+        [3, 0, 2],
+        [2, 1, 1],
+        [0, 0, 2],
+      ],
+      max: [
+        [7, 5, 3],
+        [3, 2, 2],
+        [9, 0, 2],
+        [2, 2, 2],
+        [4, 3, 3],
+      ],
+      available: [3, 3, 2],
+    });
+  });
+
+  test('should take names, Need and vector lines in any order', () => {
+    const {scenario, errors, warnings} = parseTextProblem(`
+      Total resources: (CPU=6, Disk=4)
+      Thread  Need      Allocation
+              CPU Disk  CPU Disk
+      T0      1 2       1 0
+      T1      0 0       2 1
+    `);
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(scenario).toMatchObject({
+      processCount: 2,
+      resourceCount: 2,
+      allocation: [
+        [1, 0],
+        [2, 1],
+      ],
+      max: [
+        [2, 2],
+        [2, 1],
+      ],
+      available: [3, 3],
+      processNames: ['T0', 'T1'],
+      resourceNames: ['CPU', 'Disk'],
+    });
+  });
+
+  test('should report what it had to guess', () => {
+    const {scenario, warnings} = parseTextProblem(`
+      Allocation Max Available
+      P0 1 0 2 1 1 1
+    `);
+
+    expect(scenario).toMatchObject({
+      resourceCount: 2,
+      allocation: [[1, 0]],
+      max: [[2, 1]],
+      available: [1, 1],
+    });
+    expect(warnings).toEqual([
+      {
+        field: 'line 3',
+        message: 'The 6 numbers could be 2 or 3 resources; read as 2',
+      },
+    ]);
+
+    const {scenario: withNeed, warnings: needWarnings} = parseTextProblem(`
+      Allocation Max Need
+      P0 1 0 2 1 0 0
+    `);
+    expect(withNeed?.max).toEqual([[2, 1]]);
+    expect(needWarnings.map((warning) => warning.field)).toEqual([
+      'line 3',
+      'available',
+    ]);
+  });
+
+  test('should name the line that cannot be read', () => {
+    const {scenario, errors} = parseTextProblem(`
+      Allocation Max
+      P0 0 1 0 7 5 3
+      P1 2 0 0 3 2
+    `);
+
+    expect(scenario).toBeUndefined();
+    expect(errors).toEqual([
+      {
+        field: 'line 4',
+        message:
+          'Expected 6 numbers (Allocation, Max for 3 resources), found 5',
+      },
+    ]);
+    expect(parseTextProblem('Max Available').errors[0].message).toContain(
+      'Allocation',
+    );
+  });
+});
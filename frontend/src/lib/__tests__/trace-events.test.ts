@@ -0,0 +1,134 @@
+/**
+ * Trace Event Tests
+ * npm test -- --testPathPatterns=trace-events.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {
+  describeTraceEvent,
+  getFinishedProcess,
+  getTraceEventProcess,
+} from '../trace-events';
+
+describe('Trace Events', () => {
+  let calculator: BankersAlgorithmCalculator;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+  });
+
+  test('should render every step description from its event', () => {
+    const state = calculator.createDefaultState();
+    const traces = [
+      calculator.checkSafety(state.available, state.allocation, state.need, {
+        strategy: 'smallestNeed',
+      }).steps,
+      calculator.processRequest({processId: 1, requestVector: [1, 0, 0]}, state)
+        .simulationSteps ?? [],
+      calculator.retireProcess(0, state).simulationSteps ?? [],
+    ];
+
+    for (const steps of traces) {
+      expect(steps.length).toBeGreaterThan(0);
+      steps.forEach((step) => {
+        expect(step.description).toBe(describeTraceEvent(step.event));
+      });
+    }
+  });
+
+  test('should record the safety scan as comparisons and releases', () => {
+    const state = calculator.createDefaultState();
+    const {steps, safeSequence} = calculator.checkSafety(
+      state.available,
+      state.allocation,
+      state.need,
+    );
+
+    const init = steps[0].event;
+    expect(init).toEqual({
+      kind: 'init',
+      algorithm: 'safety',
+      work: state.available,
+      strategy: 'restartFromZero',
+    });
+
+    const finishes = steps.flatMap(({event}) =>
+      event.kind === 'finish' ? [event] : [],
+    );
+    expect(finishes.map((event) => `P${event.process}`)).toEqual(safeSequence);
+    finishes.forEach((event) => {
+      expect(event.result).toEqual(
+        event.work.map((units, j) => units + event.allocation[j]),
+      );
+    });
+
+    const result = steps[steps.length - 1].event;
+    expect(result.kind).toBe('safetyResult');
+    expect(result.kind === 'safetyResult' && result.isSafe).toBe(true);
+    expect(steps[steps.length - 1].stepType).toBe('completion');
+  });
+
+  test('should carry the check and its vectors for a denied request', () => {
+    const state = calculator.createDefaultState();
+    const result = calculator.processRequest(
+      {processId: 0, requestVector: [5, 0, 0]},
+      state,
+    );
+
+    const [check] = result.simulationSteps ?? [];
+    expect(check.event).toEqual({
+      kind: 'check',
+      check: 'requestNeed',
+      process: 0,
+      vector: [5, 0, 0],
+      bound: state.need[0],
+      satisfied: false,
+    });
+    expect(check.canFinish).toBe(false);
+    expect(check.stepType).toBe('process_check');
+  });
+
+  test('should report the process a step finishes', () => {
+    const {steps} = calculator.detectDeadlock({
+      processCount: 2,
+      resourceCount: 1,
+      allocation: [[0], [1]],
+      request: [[0], [2]],
+      available: [0],
+    });
+
+    expect(steps.map((step) => getFinishedProcess(step.event))).toEqual([
+      undefined,
+      0,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(steps[steps.length - 1].event).toEqual({
+      kind: 'detectionResult',
+      isDeadlocked: true,
+      sequence: [0],
+      deadlocked: [1],
+    });
+  });
+
+  test('should report the process a step is about', () => {
+    const {steps} = calculator.detectDeadlock({
+      processCount: 2,
+      resourceCount: 1,
+      allocation: [[0], [1]],
+      request: [[0], [2]],
+      available: [0],
+    });
+
+    expect(steps.map((step) => getTraceEventProcess(step.event))).toEqual([
+      undefined,
+      0,
+      1,
+      undefined,
+      undefined,
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Trace Export Tests
+ * npm test -- --testPathPatterns=trace-export.test.ts --verbose
+ */
+
+import {describe, test, expect, beforeEach} from 'bun:test';
+
+import {AlgorithmStep} from '@/types/bankers-algorithm';
+import {BankersAlgorithmCalculator} from '../bankers-algorithm-calculator';
+import {formatTraceLatex, formatTraceMarkdown} from '../trace-export';
+
+describe('Trace Export', () => {
+  let calculator: BankersAlgorithmCalculator;
+
+  beforeEach(() => {
+    calculator = new BankersAlgorithmCalculator();
+  });
+
+  const exportOf = (steps: AlgorithmStep[]) => {
+    const {available, allocation, need} = calculator.createDefaultState();
+    return {
+      mode: 'avoidance' as const,
+      steps,
+      system: {available, allocation, need},
+    };
+  };
+
+  const requestSteps = (requestVector: number[]) =>
+    calculator.processRequest(
+      {processId: 1, requestVector},
+      calculator.createDefaultState(),
+    ).simulationSteps ?? [];
+
+  test('should write the matrices, steps and verdict as Markdown', () => {
+    const {available, allocation, need} = calculator.createDefaultState();
+    const {steps} = calculator.checkSafety(available, allocation, need);
+    const markdown = formatTraceMarkdown(exportOf(steps));
+
+    expect(markdown).toStartWith('# Safety Algorithm Trace\n');
+    expect(markdown).toContain('| Process | A | B | C |');
+    expect(markdown).toContain('**Max**\n\n| Process | A | B | C |');
+    expect(markdown).toContain('| P0 | 2 | 1 | 1 |');
+    expect(markdown).toContain('**Available:** $(2, 2, 3)$');
+    expect(markdown).toContain('| 1 | init: work = available | $(2, 2, 3)$ |');
+    expect(markdown).toContain('need\\[P0\\] ≤ work:<br>(1, 1, 1) ≤ (2, 2, 3)');
+    expect(markdown).toContain('## Result\n\nAll processes can finish safely');
+    expect(markdown).not.toContain('## Checks');
+  });
+
+  test('should list the three checks of a request', () => {
+    const granted = formatTraceMarkdown(exportOf(requestSteps([1, 0, 0])));
+
+    expect(granted).toStartWith('# Resource Request Trace\n');
+    expect(granted).toContain(
+      '1. Check if Request\\[P1\\] ≤ Need\\[P1\\]: (1, 0, 0) ≤ (1, 1, 1) — passed',
+    );
+    expect(granted).toContain(
+      '3. Run Safety Algorithm: System is SAFE — passed',
+    );
+    expect(granted).toContain('Request granted.');
+
+    const denied = formatTraceMarkdown(exportOf(requestSteps([2, 0, 0])));
+    expect(denied).toContain('(2, 0, 0) ≰ (1, 1, 1) — failed');
+    expect(denied).toContain(
+      '2. Check if Request\\[P1\\] ≤ Available — not reached',
+    );
+    expect(denied).toContain('3. Run Safety Algorithm — not reached');
+    expect(denied).toContain('Request denied.');
+  });
+
+  test('should write a LaTeX document with escaped names', () => {
+    const latex = formatTraceLatex({
+      ...exportOf(requestSteps([1, 0, 0])),
+      processNames: ['R&D_1', ''],
+    });
+
+    expect(latex).toStartWith('\\documentclass{article}\n');
+    expect(latex).toContain('\\usepackage{longtable}');
+    expect(latex).toContain('R\\&D\\_1 & 1 & 0 & 0 \\\\');
+    expect(latex).toContain(
+      '\\item Check if Request[P1] $\\leq$ Need[P1]: (1, 0, 0) $\\leq$ (1, 1, 1) \\hfill \\emph{passed}',
+    );
+    expect(latex).toMatch(/^1 & .* & \$\(2, 2, 3\)\$ \\\\$/m);
+    expect(latex).toContain('R\\&D\\_1 $\\rightarrow$');
+    expect(latex).toEndWith('\\end{document}\n');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Virtual Window Tests
+ * npm test -- --testPathPatterns=virtual-window.test.ts --verbose
+ */
+
+import {describe, test, expect} from 'bun:test';
+
+import {getVisibleRange, sliceRange} from '../virtual-window';
+
+describe('Virtual Window', () => {
+  describe('Visible Range', () => {
+    test('should cover the items overlapping the viewport', () => {
+      expect(getVisibleRange(0, 300, 64, 500)).toEqual({start: 0, end: 5});
+      expect(getVisibleRange(640, 300, 64, 500)).toEqual({start: 10, end: 15});
+    });
+
+    test('should widen the range by the overscan and clamp it', () => {
+      expect(getVisibleRange(640, 300, 64, 500, 4)).toEqual({
+        start: 6,
+        end: 19,
+      });
+      expect(getVisibleRange(0, 300, 64, 500, 4)).toEqual({start: 0, end: 9});
+      expect(getVisibleRange(31900, 300, 64, 500, 4)).toEqual({
+        start: 494,
+        end: 500,
+      });
+    });
+
+    test('should return everything for a list shorter than the viewport', () => {
+      expect(getVisibleRange(0, 1000, 80, 9, 2)).toEqual({start: 0, end: 9});
+    });
+
+    test('should return an empty range for an empty list', () => {
+      expect(getVisibleRange(0, 300, 64, 0)).toEqual({start: 0, end: 0});
+    });
+  });
+
+  describe('Slicing', () => {
+    test('should index the part of the range inside a slice', () => {
+      const range = {start: 45, end: 60};
+
+      expect(sliceRange(range, 0, 50)).toEqual({start: 45, end: 50});
+      expect(sliceRange(range, 50, 50)).toEqual({start: 0, end: 10});
+      expect(sliceRange(range, 100, 50)).toEqual({start: 0, end: 0});
+    });
+  });
+});
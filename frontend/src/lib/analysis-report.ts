@@ -0,0 +1,126 @@
+/**
+ * Analysis Report
+ * What the printable report says about a system: its matrices, resource
+ * statistics and the verdict of the analysis shown, or of a plain safety
+ * check when nothing has been analyzed yet.
+ */
+
+import {AlgorithmMode, AlgorithmStep} from '@/types/bankers-algorithm';
+import {BankersAlgorithmCalculator} from './bankers-algorithm-calculator';
+import {createStateFromScenario, Scenario} from './scenario';
+import {
+  formatProcessSequence,
+  getProcessName,
+  getResourceName,
+} from './system-labels';
+
+export interface AnalysisReportInput {
+  // System as entered, not the step being inspected
+  scenario: Scenario;
+  mode: AlgorithmMode;
+  steps: AlgorithmStep[];
+  safeSequence: string[];
+  isSafe?: boolean;
+  // Processes the last analysis finished
+  finish: boolean[];
+  deadlockedProcesses?: string[];
+}
+
+export interface ResourceStatistics {
+  resource: string;
+  total: number;
+  allocated: number;
+  available: number;
+  // Percentage of the total that is allocated
+  utilization: number;
+}
+
+export interface AnalysisReportContent {
+  processes: string[];
+  resources: string[];
+  // Printed one table each, so wide systems still fit the page
+  matrices: Array<{name: string; rows: number[][]}>;
+  statistics: ResourceStatistics[];
+  // Processes the analysis finished, null without an analysis
+  completedProcesses: number | null;
+  verdict: string;
+}
+
+/**
+ * Gathers what the report prints about a scenario and its analysis
+ */
+export function buildAnalysisReport(
+  calculator: BankersAlgorithmCalculator,
+  {
+    scenario,
+    mode,
+    steps,
+    safeSequence,
+    isSafe,
+    finish,
+    deadlockedProcesses = [],
+  }: AnalysisReportInput,
+): AnalysisReportContent {
+  const {processCount, resourceCount, processNames, resourceNames} = scenario;
+
+  const state = createStateFromScenario(scenario);
+  // An analysis of an earlier system has nothing to say about this one
+  if (finish.length === processCount) {
+    state.finish = finish;
+  }
+  const snapshot = calculator.getSystemSnapshot(state);
+
+  const {allocation, maximum, need} = snapshot.matrices;
+  const matrices = [
+    {name: 'Allocation', rows: allocation},
+    {name: 'Max', rows: maximum},
+    {name: 'Need', rows: need},
+  ];
+  if (mode === 'detection' && scenario.request) {
+    matrices.push({name: 'Request', rows: scenario.request});
+  }
+
+  const resources = Array.from({length: resourceCount}, (_, j) =>
+    getResourceName(resourceNames, j),
+  );
+  const {totalAllocatedResources, resourceUtilization, completedProcesses} =
+    snapshot.statistics;
+
+  // The shown analysis when there is one, else a plain safety check
+  const hasAnalysis = steps.length > 0;
+  const verdict =
+    hasAnalysis && mode === 'detection'
+      ? deadlockedProcesses.length > 0
+        ? `Deadlock detected: ${formatProcessSequence(
+            processNames,
+            deadlockedProcesses,
+            ', ',
+          )} are deadlocked.`
+        : `No deadlock: all processes can complete in the order ${formatProcessSequence(
+            processNames,
+            safeSequence,
+          )}.`
+      : (hasAnalysis ? isSafe : snapshot.safetyInfo.isSafe)
+        ? `The system is safe. Safe sequence: ${formatProcessSequence(
+            processNames,
+            hasAnalysis ? safeSequence : snapshot.safetyInfo.safeSequence,
+          )}.`
+        : 'The system is unsafe: no order lets every process finish.';
+
+  return {
+    processes: Array.from({length: processCount}, (_, i) =>
+      getProcessName(processNames, i),
+    ),
+    resources,
+    matrices,
+    statistics: resources.map((resource, j) => ({
+      resource,
+      total: totalAllocatedResources[j] + scenario.available[j],
+      allocated: totalAllocatedResources[j],
+      available: scenario.available[j],
+      utilization: resourceUtilization[j],
+    })),
+    completedProcesses: hasAnalysis ? completedProcesses : null,
+    verdict,
+  };
+}
@@ -6,14 +6,33 @@
 import {
   BankersAlgorithmState,
   AlgorithmStep,
+  AvailableIncrease,
+  AvailableIncreaseAnalysis,
+  DeadlockDetectionState,
+  DetectionResult,
+  MaxSafeRequest,
+  RecoveryOptions,
+  RecoveryPlan,
   ResourceRequest,
   SafetyResult,
   RequestResult,
+  SafeSequenceEnumeration,
+  SafetyOptions,
+  SelectionKey,
   ValidationError,
 } from '@/types/bankers-algorithm';
 
+import {createTraceStep} from './trace-events';
+import {
+  formatProcessSequence,
+  getProcessName,
+  getResourceName,
+  resizeNames,
+} from './system-labels';
+
 import {
   calculateNeedMatrix,
+  calculateTotalResources,
   isVectorLessOrEqual,
   addVectors,
   cloneMatrix,
@@ -23,8 +42,31 @@ import {
   validateAllocationConstraints,
   createZeroMatrix,
   createZeroVector,
+  matrixColumnSums,
+  replaceRow,
+  resizeMatrix,
+  subtractVectors,
+  updateNeedMatrix,
+  updateResourceVectors,
+  vectorSum,
 } from '@/utils/matrix-utils';
 
+// Upper bound on listed safe sequences (the count may still be exact)
+const DEFAULT_SEQUENCE_LIMIT = 1000;
+
+// Exact counting walks finished-process subsets (2^n states)
+const MAX_COUNTABLE_PROCESSES = 16;
+
+// Upper bound on safety checks spent searching for maximal safe requests
+const DEFAULT_SAFETY_CHECK_LIMIT = 5000;
+
+// Upper bound on search nodes spent minimizing the Available increase
+const MAX_INCREASE_SEARCH_NODES = 100000;
+
+// Upper bound on search nodes spent looking for a recovery plan; checking
+// a set of processes to terminate costs one node per process
+const MAX_RECOVERY_SEARCH_NODES = 100000;
+
 export class BankersAlgorithmCalculator {
   /**
    * Safety Algorithm Implementation
@@ -34,13 +76,40 @@ export class BankersAlgorithmCalculator {
    * 2. Find process Pi such that Finish[i] = false and Need[i] <= Work
    * 3. If found: Work = Work + Allocation[i], Finish[i] = true, repeat step 2
    * 4. If all Finish[i] = true, system is safe; otherwise unsafe
+   *
+   * The selection strategy only decides which eligible process is picked in
+   * step 2, so it can change the safe sequence but never the verdict.
    */
   checkSafety(
     available: number[],
     allocation: number[][],
     need: number[][],
+    options: SafetyOptions = {},
   ): SafetyResult {
     const processCount = allocation.length;
+    const {strategy = 'restartFromZero', priorities = []} = options;
+
+    // Scan order for the ordered strategies, fixed for the whole run
+    const keyOf = (i: number): number =>
+      strategy === 'smallestNeed'
+        ? vectorSum(need[i])
+        : strategy === 'largestAllocation'
+          ? -vectorSum(allocation[i])
+          : -(priorities[i] ?? 0);
+    const selectionKey = (i: number): SelectionKey | undefined =>
+      strategy === 'smallestNeed'
+        ? {label: 'remaining need', value: vectorSum(need[i])}
+        : strategy === 'largestAllocation'
+          ? {label: 'allocation', value: vectorSum(allocation[i])}
+          : strategy === 'priority'
+            ? {label: 'priority', value: priorities[i] ?? 0}
+            : undefined;
+    const indices = Array.from({length: processCount}, (_, i) => i);
+    const fixedOrder =
+      strategy === 'restartFromZero' || strategy === 'roundRobin'
+        ? indices
+        : [...indices].sort((a, b) => keyOf(a) - keyOf(b));
+    let roundRobinStart = 0;
 
     // Step 1: Initialize Work = Available and Finish[i] = false
     let work = cloneVector(available);
@@ -49,14 +118,17 @@ export class BankersAlgorithmCalculator {
     // Track algorithm execution for step-by-step visualization
     const steps: AlgorithmStep[] = [];
     const safeSequence: string[] = [];
+    const finishOrder: number[] = [];
 
     // Step (1): Initialize Work = Available and Finish[i] = false
-    steps.push({
-      stepNumber: 1,
-      description: `init: work = available`,
-      workVector: cloneVector(work),
-      isHighlighted: true,
-    });
+    steps.push(
+      createTraceStep(
+        1,
+        {kind: 'init', algorithm: 'safety', work: cloneVector(work), strategy},
+        cloneVector(work),
+        true,
+      ),
+    );
 
     let foundProcess = true;
     let iterationCount = 0;
@@ -67,8 +139,13 @@ export class BankersAlgorithmCalculator {
       foundProcess = false;
       iterationCount++;
 
+      const order =
+        strategy === 'roundRobin'
+          ? indices.map((k) => (roundRobinStart + k) % processCount)
+          : fixedOrder;
+
       // Check each process to see if it can finish
-      for (let i = 0; i < processCount; i++) {
+      for (const i of order) {
         const processName = `P${i}`;
 
         // Step (2): Find Pi such that Finish[i] = false and Need[i] <= Work
@@ -76,16 +153,22 @@ export class BankersAlgorithmCalculator {
           const canFinish = isVectorLessOrEqual(need[i], work);
 
           // Show the comparison step using step (2)
-          steps.push({
-            stepNumber: 2,
-            description: `need[${processName}] ≤ work:\n(${need[i].join(
-              ', ',
-            )}) ${canFinish ? '≤' : '≰'} (${work.join(', ')})`,
-            workVector: cloneVector(work),
-            processChecked: processName,
-            canFinish,
-            isHighlighted: canFinish,
-          });
+          steps.push(
+            createTraceStep(
+              2,
+              {
+                kind: 'compare',
+                process: i,
+                demand: 'need',
+                vector: need[i],
+                work: cloneVector(work),
+                satisfied: canFinish,
+                selectionKey: selectionKey(i),
+              },
+              cloneVector(work),
+              canFinish,
+            ),
+          );
 
           if (canFinish) {
             // store origin' work before change
@@ -95,21 +178,27 @@ export class BankersAlgorithmCalculator {
             work = addVectors(work, allocation[i]);
             finish[i] = true;
             safeSequence.push(processName);
+            finishOrder.push(i);
             foundProcess = true;
+            roundRobinStart = (i + 1) % processCount;
 
             // Show resource release step using step (3)
-            steps.push({
-              stepNumber: 3,
-              description: `work = work + allocation[${processName}]: (${prevWork.join(', ')}) + (${allocation[
-                i
-              ].join(', ')})`,
-              workVector: cloneVector(work),
-              processChecked: processName,
-              canFinish: true,
-              isHighlighted: true,
-            });
-
-            // Important: Start over from the beginning
+            steps.push(
+              createTraceStep(
+                3,
+                {
+                  kind: 'finish',
+                  process: i,
+                  work: prevWork,
+                  allocation: allocation[i],
+                  result: cloneVector(work),
+                },
+                cloneVector(work),
+                true,
+              ),
+            );
+
+            // Important: Start a new scan (from P0 unless the strategy says otherwise)
             break;
           }
         }
@@ -117,53 +206,40 @@ export class BankersAlgorithmCalculator {
 
       // If no process was found in this iteration, show why we're stopping
       if (!foundProcess && iterationCount > 1) {
-        // Optimize: Use Set for O(1) membership test vs O(n) array operations
-        const finishedSet = new Set(safeSequence);
-        const unfinishedProcesses: string[] = [];
+        const unfinishedProcesses: number[] = [];
         for (let i = 0; i < processCount; i++) {
-          if (!finishedSet.has(`P${i}`)) {
-            unfinishedProcesses.push(`P${i}`);
+          if (!finish[i]) {
+            unfinishedProcesses.push(i);
           }
         }
 
-        steps.push({
-          stepNumber: 2,
-          description: `No more processes can finish. Remaining processes ${unfinishedProcesses.join(
-            ', ',
-          )} cannot satisfy their needs with current available resources.`,
-          workVector: cloneVector(work),
-          isHighlighted: false,
-        });
+        steps.push(
+          createTraceStep(
+            2,
+            {kind: 'blocked', processes: unfinishedProcesses, demand: 'need'},
+            cloneVector(work),
+            false,
+          ),
+        );
       }
     }
 
     // Step (4): Check if all processes finished (system safety)
     const isSafe = finish.every((f) => f);
 
-    if (isSafe) {
-      steps.push({
-        stepNumber: 4,
-        description: `All processes can finish safely. Safe sequence: ${safeSequence.join(
-          ' → ',
-        )}`,
-        workVector: cloneVector(work),
-        isHighlighted: true,
-      });
-    } else {
-      // Find which processes couldn't finish
-      const unfinishedProcesses = finish
-        .map((finished, index) => (finished ? null : `P${index}`))
-        .filter((p) => p !== null);
-
-      steps.push({
-        stepNumber: 4,
-        description: `System is UNSAFE • Processes ${unfinishedProcesses.join(
-          ', ',
-        )} cannot finish (potential deadlock)`,
-        workVector: cloneVector(work),
-        isHighlighted: true,
-      });
-    }
+    steps.push(
+      createTraceStep(
+        4,
+        {
+          kind: 'safetyResult',
+          isSafe,
+          sequence: finishOrder,
+          unfinished: indices.filter((i) => !finish[i]),
+        },
+        cloneVector(work),
+        true,
+      ),
+    );
 
     return {
       isSafe,
@@ -173,6 +249,813 @@ export class BankersAlgorithmCalculator {
     };
   }
 
+  /**
+   * Deadlock Detection Algorithm Implementation
+   * Works from the outstanding Request matrix instead of Max (Coffman et al.)
+   *
+   * Algorithm Steps:
+   * 1. Initialize Work = Available; Finish[i] = true if Allocation[i] = 0
+   * 2. Find process Pi such that Finish[i] = false and Request[i] <= Work
+   * 3. If found: Work = Work + Allocation[i], Finish[i] = true, repeat step 2
+   * 4. Every process with Finish[i] = false is deadlocked
+   */
+  detectDeadlock(state: DeadlockDetectionState): DetectionResult {
+    const {processCount, allocation, request, available} = state;
+
+    // Step 1: Initialize Work = Available
+    let work = cloneVector(available);
+    const finish: boolean[] = Array(processCount).fill(false);
+
+    const steps: AlgorithmStep[] = [];
+    const completionSequence: string[] = [];
+    const completionOrder: number[] = [];
+
+    // Detection always scans from P0
+    steps.push(
+      createTraceStep(
+        1,
+        {
+          kind: 'init',
+          algorithm: 'detection',
+          work: cloneVector(work),
+          strategy: 'restartFromZero',
+        },
+        cloneVector(work),
+        true,
+      ),
+    );
+
+    // Step (1): A process holding nothing cannot be part of a deadlock
+    for (let i = 0; i < processCount; i++) {
+      if (allocation[i].every((value) => value === 0)) {
+        finish[i] = true;
+        completionSequence.push(`P${i}`);
+        completionOrder.push(i);
+
+        steps.push(
+          createTraceStep(
+            1,
+            {kind: 'idle', process: i},
+            cloneVector(work),
+            false,
+          ),
+        );
+      }
+    }
+
+    let foundProcess = true;
+    let iterationCount = 0;
+    const maxIterations = processCount * 2; // Prevent infinite loops
+
+    // Step (2): Main algorithm loop - find processes whose requests can be met
+    while (foundProcess && iterationCount < maxIterations) {
+      foundProcess = false;
+      iterationCount++;
+
+      for (let i = 0; i < processCount; i++) {
+        const processName = `P${i}`;
+
+        if (!finish[i]) {
+          const canFinish = isVectorLessOrEqual(request[i], work);
+
+          steps.push(
+            createTraceStep(
+              2,
+              {
+                kind: 'compare',
+                process: i,
+                demand: 'request',
+                vector: request[i],
+                work: cloneVector(work),
+                satisfied: canFinish,
+              },
+              cloneVector(work),
+              canFinish,
+            ),
+          );
+
+          if (canFinish) {
+            const prevWork = cloneVector(work);
+
+            // Step (3): Optimistically assume Pi finishes and releases everything
+            work = addVectors(work, allocation[i]);
+            finish[i] = true;
+            completionSequence.push(processName);
+            completionOrder.push(i);
+            foundProcess = true;
+
+            steps.push(
+              createTraceStep(
+                3,
+                {
+                  kind: 'finish',
+                  process: i,
+                  work: prevWork,
+                  allocation: allocation[i],
+                  result: cloneVector(work),
+                },
+                cloneVector(work),
+                true,
+              ),
+            );
+
+            // Start over from the beginning
+            break;
+          }
+        }
+      }
+
+      if (!foundProcess && finish.some((f) => !f)) {
+        const blockedProcesses = finish
+          .map((finished, index) => (finished ? -1 : index))
+          .filter((index) => index >= 0);
+
+        steps.push(
+          createTraceStep(
+            2,
+            {kind: 'blocked', processes: blockedProcesses, demand: 'request'},
+            cloneVector(work),
+            false,
+          ),
+        );
+      }
+    }
+
+    // Step (4): Unfinished processes are deadlocked
+    const deadlocked = finish
+      .map((finished, index) => (finished ? -1 : index))
+      .filter((index) => index >= 0);
+    const deadlockedProcesses = deadlocked.map((index) => `P${index}`);
+    const isDeadlocked = deadlockedProcesses.length > 0;
+
+    steps.push(
+      createTraceStep(
+        4,
+        {
+          kind: 'detectionResult',
+          isDeadlocked,
+          sequence: completionOrder,
+          deadlocked,
+        },
+        cloneVector(work),
+        true,
+      ),
+    );
+
+    return {
+      isDeadlocked,
+      deadlockedProcesses,
+      completionSequence,
+      steps,
+      finalFinishState: finish,
+    };
+  }
+
+  /**
+   * Safe Sequence Enumeration
+   *
+   * Lists every order in which all processes can finish, not only the one
+   * found by checkSafety. Work only grows as processes finish, so once a
+   * process is eligible it stays eligible: in a safe state every branch of
+   * the search completes, and in an unsafe state no sequence exists at all.
+   *
+   * Listing stops after `limit` sequences. The total is counted over
+   * finished-process subsets, which is exact up to MAX_COUNTABLE_PROCESSES;
+   * beyond that totalCount is null unless the listing itself was complete.
+   */
+  enumerateSafeSequences(
+    available: number[],
+    allocation: number[][],
+    need: number[][],
+    limit: number = DEFAULT_SEQUENCE_LIMIT,
+  ): SafeSequenceEnumeration {
+    const processCount = allocation.length;
+
+    if (!this.checkSafety(available, allocation, need).isSafe) {
+      return {sequences: [], totalCount: 0, isTruncated: false};
+    }
+
+    const sequences: string[][] = [];
+    const finish = Array(processCount).fill(false);
+    const order: number[] = [];
+    let reachedLimit = false;
+
+    const explore = (work: number[]) => {
+      if (order.length === processCount) {
+        sequences.push(order.map((i) => `P${i}`));
+        reachedLimit = sequences.length >= limit;
+        return;
+      }
+
+      for (let i = 0; i < processCount && !reachedLimit; i++) {
+        if (!finish[i] && isVectorLessOrEqual(need[i], work)) {
+          finish[i] = true;
+          order.push(i);
+          explore(addVectors(work, allocation[i]));
+          order.pop();
+          finish[i] = false;
+        }
+      }
+    };
+
+    explore(cloneVector(available));
+
+    let totalCount: number | null = reachedLimit ? null : sequences.length;
+
+    if (reachedLimit && processCount <= MAX_COUNTABLE_PROCESSES) {
+      // Number of ways to finish the remaining processes, keyed by the
+      // bitmask of processes that have already finished
+      const fullMask = (1 << processCount) - 1;
+      const memo = new Map<number, number>();
+
+      const countFrom = (mask: number, work: number[]): number => {
+        if (mask === fullMask) return 1;
+
+        const cached = memo.get(mask);
+        if (cached !== undefined) return cached;
+
+        let count = 0;
+        for (let i = 0; i < processCount; i++) {
+          if (!(mask & (1 << i)) && isVectorLessOrEqual(need[i], work)) {
+            count += countFrom(
+              mask | (1 << i),
+              addVectors(work, allocation[i]),
+            );
+          }
+        }
+
+        memo.set(mask, count);
+        return count;
+      };
+
+      totalCount = countFrom(0, cloneVector(available));
+    }
+
+    return {
+      sequences,
+      totalCount,
+      isTruncated: totalCount === null || sequences.length < totalCount,
+    };
+  }
+
+  /**
+   * Largest Grantable Requests
+   *
+   * Describes every request processRequest would grant to a process. Asking
+   * for less never hurts: the safe sequence found for a request still works
+   * for any smaller one, so the grantable requests are closed downwards
+   * within min(Need[i], Available). They are summarized by the most of each
+   * resource that can be requested on its own and by the componentwise-
+   * maximal grantable requests (the zero request is never listed).
+   *
+   * The search for maximal requests stops after `checkLimit` safety checks.
+   */
+  findMaxSafeRequest(
+    processId: number,
+    state: BankersAlgorithmState,
+    checkLimit: number = DEFAULT_SAFETY_CHECK_LIMIT,
+  ): MaxSafeRequest {
+    const {allocation, available, need} = state;
+    const processCount = allocation.length;
+    const resourceCount = available.length;
+    const bounds = available.map((units, j) =>
+      Math.max(0, Math.min(units, need[processId]?.[j] ?? 0)),
+    );
+
+    const cache = new Map<string, boolean>();
+    let checks = 0;
+
+    // Same outcome as processRequest for a request within bounds, without
+    // building the step trace
+    const isGrantable = (request: number[]): boolean => {
+      const key = request.join(',');
+      const cached = cache.get(key);
+      if (cached !== undefined) return cached;
+      checks++;
+
+      const work = available.map((units, j) => units - request[j]);
+      const finish = Array(processCount).fill(false);
+      let finishedCount = 0;
+      let progressed = true;
+
+      while (progressed) {
+        progressed = false;
+        for (let i = 0; i < processCount; i++) {
+          if (finish[i]) continue;
+
+          const delta = i === processId ? request : null;
+          const canFinish = need[i].every(
+            (units, j) => units - (delta ? delta[j] : 0) <= work[j],
+          );
+
+          if (canFinish) {
+            for (let j = 0; j < resourceCount; j++) {
+              work[j] += allocation[i][j] + (delta ? delta[j] : 0);
+            }
+            finish[i] = true;
+            finishedCount++;
+            progressed = true;
+          }
+        }
+      }
+
+      const result = finishedCount === processCount;
+      cache.set(key, result);
+      return result;
+    };
+
+    // Largest value of request[j] up to `high` that keeps the request
+    // grantable; request[j] = 0 is assumed grantable
+    const largestAt = (request: number[], j: number, high: number) => {
+      const original = request[j];
+      let low = 0;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        request[j] = mid;
+        if (isGrantable(request)) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      request[j] = original;
+      return low;
+    };
+
+    const zero = createZeroVector(resourceCount);
+
+    if (processId < 0 || processId >= processCount || !isGrantable(zero)) {
+      return {
+        processId,
+        perResourceMax: zero,
+        maximalRequests: [],
+        isTruncated: false,
+      };
+    }
+
+    const perResourceMax = bounds.map((bound, j) =>
+      largestAt(cloneVector(zero), j, bound),
+    );
+
+    // Fix resources one at a time from their largest grantable value
+    // downwards; the last resource always takes its largest value, and the
+    // resulting request is kept if no single resource can be raised further
+    const maximalRequests: number[][] = [];
+    const request = cloneVector(zero);
+    let isTruncated = false;
+
+    const explore = (j: number) => {
+      if (checks >= checkLimit) {
+        isTruncated = true;
+        return;
+      }
+
+      const top = largestAt(request, j, perResourceMax[j]);
+
+      if (j === resourceCount - 1) {
+        request[j] = top;
+        const isMaximal =
+          request.some((units) => units > 0) &&
+          request.every((units, k) => {
+            if (k === j || units >= perResourceMax[k]) return true;
+            const raised = cloneVector(request);
+            raised[k]++;
+            return !isGrantable(raised);
+          });
+        if (isMaximal) {
+          maximalRequests.push(cloneVector(request));
+        }
+        request[j] = 0;
+        return;
+      }
+
+      for (let units = top; units >= 0 && !isTruncated; units--) {
+        request[j] = units;
+        explore(j + 1);
+      }
+      request[j] = 0;
+    };
+
+    if (resourceCount > 0) {
+      explore(0);
+    }
+
+    return {processId, perResourceMax, maximalRequests, isTruncated};
+  }
+
+  /**
+   * Largest grantable requests for every process
+   */
+  findMaxSafeRequests(state: BankersAlgorithmState): MaxSafeRequest[] {
+    return Array.from({length: state.processCount}, (_, i) =>
+      this.findMaxSafeRequest(i, state),
+    );
+  }
+
+  /**
+   * Minimal Available Increase
+   *
+   * Finds the fewest extra units of Available that would make an unsafe state
+   * safe, both overall (smallest total over all resources) and for each
+   * resource on its own (null when raising that resource alone cannot help).
+   *
+   * For a fixed completion order the cheapest increase is, per resource, the
+   * largest shortfall Need[i] - Work met along the way. The search only
+   * branches on which process to pay for next: processes that already fit
+   * are finished first, since finishing never lowers Work. Partial increases
+   * dominated by one already seen for the same finished set are pruned.
+   */
+  findMinimalAvailableIncrease(
+    available: number[],
+    allocation: number[][],
+    need: number[][],
+  ): AvailableIncreaseAnalysis {
+    const processCount = allocation.length;
+    const resourceCount = available.length;
+
+    const describe = (increase: number[]): AvailableIncrease | null => {
+      const safetyResult = this.checkSafety(
+        addVectors(available, increase),
+        allocation,
+        need,
+      );
+      if (!safetyResult.isSafe) return null;
+      return {
+        increase,
+        totalUnits: increase.reduce((sum, units) => sum + units, 0),
+        safeSequence: safetyResult.safeSequence,
+      };
+    };
+
+    // Smallest total increase: depth-first branch and bound over orders
+    let best: number[] | null = null;
+    let bestTotal = Infinity;
+    let nodes = 0;
+    let isOptimal = true;
+    const seen = new Map<string, number[][]>();
+
+    const search = (finish: boolean[], work: number[], extra: number[]) => {
+      if (++nodes > MAX_INCREASE_SEARCH_NODES) {
+        isOptimal = false;
+        return;
+      }
+
+      // Finish every process that already fits within Work + extra
+      finish = [...finish];
+      work = cloneVector(work);
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+        for (let i = 0; i < processCount; i++) {
+          if (
+            !finish[i] &&
+            need[i].every((units, j) => units <= work[j] + extra[j])
+          ) {
+            finish[i] = true;
+            work = addVectors(work, allocation[i]);
+            progressed = true;
+          }
+        }
+      }
+
+      const total = extra.reduce((sum, units) => sum + units, 0);
+      if (finish.every(Boolean)) {
+        if (total < bestTotal) {
+          best = extra;
+          bestTotal = total;
+        }
+        return;
+      }
+
+      const key = finish.map(Number).join('');
+      const reached = seen.get(key) ?? [];
+      if (
+        reached.some((other) => other.every((units, j) => units <= extra[j]))
+      ) {
+        return;
+      }
+      seen.set(key, [...reached, extra]);
+
+      // Pay for one more process, cheapest first
+      const candidates = need
+        .map((row, i) => ({
+          process: i,
+          extra: row.map((units, j) => Math.max(extra[j], units - work[j])),
+        }))
+        .filter(({process}) => !finish[process])
+        .map((candidate) => ({
+          ...candidate,
+          total: candidate.extra.reduce((sum, units) => sum + units, 0),
+        }))
+        .sort((a, b) => a.total - b.total);
+
+      for (const candidate of candidates) {
+        if (candidate.total >= bestTotal) break;
+        search(finish, work, candidate.extra);
+      }
+    };
+
+    search(
+      Array(processCount).fill(false),
+      cloneVector(available),
+      createZeroVector(resourceCount),
+    );
+
+    // Each resource alone: safety only improves as Available grows, so
+    // binary search up to the largest need, beyond which it never blocks
+    const perResource = available.map((_, j) => {
+      const increaseOf = (units: number) => {
+        const increase = createZeroVector(resourceCount);
+        increase[j] = units;
+        return increase;
+      };
+      const isSafeWith = (units: number) =>
+        this.checkSafety(
+          addVectors(available, increaseOf(units)),
+          allocation,
+          need,
+        ).isSafe;
+
+      let high = Math.max(0, ...need.map((row) => row[j] - available[j]));
+      if (!isSafeWith(high)) return null;
+
+      let low = 0;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (isSafeWith(mid)) {
+          high = mid;
+        } else {
+          low = mid + 1;
+        }
+      }
+      return describe(increaseOf(low));
+    });
+
+    return {
+      minTotal: best ? describe(best) : null,
+      perResource,
+      isOptimal,
+    };
+  }
+
+  /**
+   * Deadlock Recovery Planner
+   *
+   * Chooses victims that restore safety (avoidance mode, Need) or remove the
+   * deadlock (detection mode, Request):
+   * - terminate: cheapest set of processes to abort; a victim gives back its
+   *   allocation and drops its claim entirely
+   * - preempt: fewest units to take back, cheapest first on ties; a victim
+   *   keeps its claim, so its Need or Request grows by what it lost
+   *
+   * The cost of a victim is its held units, its priority (default 1) or its
+   * remaining Need/Request; preempted units cost the victim's weight each.
+   * Processes that can already finish are never chosen. Termination is
+   * exact over subsets of blocked processes up to MAX_COUNTABLE_PROCESSES,
+   * greedy beyond; preemption returns null when the search limit is hit
+   * before any plan is found.
+   */
+  planRecovery(
+    state: BankersAlgorithmState,
+    options: RecoveryOptions,
+  ): RecoveryPlan | null {
+    const {strategy, cost, mode = 'avoidance', priorities = []} = options;
+    const {processCount, resourceCount, allocation, available} = state;
+    const isDetection = mode === 'detection';
+    const demand = isDetection
+      ? (state.request ?? createZeroMatrix(processCount, resourceCount))
+      : state.need;
+
+    const weightOf = (i: number) => {
+      switch (cost) {
+        case 'heldUnits':
+          return vectorSum(allocation[i]);
+        case 'priority':
+          return priorities[i] ?? 1;
+        case 'remainingNeed':
+          return vectorSum(demand[i]);
+      }
+    };
+
+    // Lean safety/detection check returning the processes left unfinished
+    const unfinished = (
+      currentAvailable: number[],
+      currentAllocation: number[][],
+      currentDemand: number[][],
+    ): number[] => {
+      let work = cloneVector(currentAvailable);
+      const finish = currentAllocation.map(
+        (row) => isDetection && row.every((units) => units === 0),
+      );
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+        for (let i = 0; i < processCount; i++) {
+          if (!finish[i] && isVectorLessOrEqual(currentDemand[i], work)) {
+            work = addVectors(work, currentAllocation[i]);
+            finish[i] = true;
+            progressed = true;
+          }
+        }
+      }
+      return finish.flatMap((finished, i) => (finished ? [] : [i]));
+    };
+
+    const blocked = unfinished(available, allocation, demand);
+    let isOptimal = true;
+    let preempted: number[][] | null = null;
+    // Chosen by the search, since a terminated process may hold nothing
+    let victimIndices: number[] = [];
+
+    if (strategy === 'terminate') {
+      const terminate = (victims: number[]) => {
+        const taken = createZeroMatrix(processCount, resourceCount);
+        victims.forEach((i) => (taken[i] = cloneVector(allocation[i])));
+        return taken;
+      };
+      const survives = (victims: number[]) => {
+        const taken = terminate(victims);
+        const nextDemand = demand.map((row, i) =>
+          victims.includes(i) ? createZeroVector(resourceCount) : row,
+        );
+        return (
+          unfinished(
+            addVectors(available, matrixColumnSums(taken)),
+            allocation.map((row, i) => subtractVectors(row, taken[i])),
+            nextDemand,
+          ).length === 0
+        );
+      };
+
+      const costOf = (victims: number[]) => vectorSum(victims.map(weightOf));
+      let victims: number[] | null = null;
+
+      if (blocked.length <= MAX_COUNTABLE_PROCESSES) {
+        // Each candidate checked costs a safety pass over every process
+        let nodes = 0;
+        let bestCost = Infinity;
+        for (let mask = 0; mask < 1 << blocked.length; mask++) {
+          const candidate = blocked.filter((_, k) => mask & (1 << k));
+          const candidateCost = costOf(candidate);
+          const isCheaper =
+            candidateCost < bestCost ||
+            (candidateCost === bestCost &&
+              candidate.length < (victims?.length ?? Infinity));
+          if (!isCheaper) continue;
+
+          nodes += processCount;
+          if (nodes > MAX_RECOVERY_SEARCH_NODES) {
+            isOptimal = false;
+            break;
+          }
+          if (survives(candidate)) {
+            victims = candidate;
+            bestCost = candidateCost;
+          }
+        }
+      } else {
+        isOptimal = false;
+      }
+
+      if (!isOptimal) {
+        // Abort the cheapest still-blocked process until the rest can finish
+        let greedy: number[] = [];
+        while (!survives(greedy)) {
+          const remaining = blocked.filter((i) => !greedy.includes(i));
+          const cheapest = remaining.reduce((best, i) =>
+            weightOf(i) < weightOf(best) ? i : best,
+          );
+          greedy = [...greedy, cheapest];
+        }
+        // Keep what the cut-short search found when it is cheaper
+        if (!victims || costOf(greedy) < costOf(victims)) {
+          victims = greedy;
+        }
+      }
+
+      victimIndices = victims ?? [];
+      preempted = terminate(victimIndices);
+    } else {
+      // Iterative deepening on the number of preempted units; cells are
+      // taken in non-decreasing order so each multiset is visited once
+      const cells = blocked.flatMap((i) =>
+        allocation[i].flatMap((units, j) => (units > 0 ? [{i, j}] : [])),
+      );
+      const maxUnits = vectorSum(cells.map(({i, j}) => allocation[i][j]));
+      const taken = createZeroMatrix(processCount, resourceCount);
+      let nodes = 0;
+      let bestCost = Infinity;
+
+      const plans = (remaining: number, from: number, costSoFar: number) => {
+        if (++nodes > MAX_RECOVERY_SEARCH_NODES) {
+          isOptimal = false;
+          return;
+        }
+        if (costSoFar >= bestCost) return;
+
+        if (remaining === 0) {
+          const isRecovered =
+            unfinished(
+              addVectors(available, matrixColumnSums(taken)),
+              allocation.map((row, i) =>
+                row.map((units, j) => units - taken[i][j]),
+              ),
+              demand.map((row, i) =>
+                row.map((units, j) => units + taken[i][j]),
+              ),
+            ).length === 0;
+          if (isRecovered) {
+            preempted = cloneMatrix(taken);
+            bestCost = costSoFar;
+          }
+          return;
+        }
+
+        for (let c = from; c < cells.length && isOptimal; c++) {
+          const {i, j} = cells[c];
+          if (taken[i][j] >= allocation[i][j]) continue;
+          taken[i][j]++;
+          plans(remaining - 1, c, costSoFar + weightOf(i));
+          taken[i][j]--;
+        }
+      };
+
+      for (
+        let units = 0;
+        units <= maxUnits && !preempted && isOptimal;
+        units++
+      ) {
+        plans(units, 0, 0);
+      }
+
+      if (!preempted) return null;
+    }
+
+    // Build the recovered system
+    const taken: number[][] = preempted;
+    if (strategy === 'preempt') {
+      victimIndices = taken.flatMap((row, i) =>
+        row.some((units) => units > 0) ? [i] : [],
+      );
+    }
+    const isTerminated = (i: number) =>
+      strategy === 'terminate' && victimIndices.includes(i);
+
+    // Processes that lose nothing keep their rows
+    const newAllocation = allocation.map((row, i) =>
+      victimIndices.includes(i) ? subtractVectors(row, taken[i]) : row,
+    );
+    const newAvailable = addVectors(available, matrixColumnSums(taken));
+    const newMax = state.max.map((row, i) =>
+      isTerminated(i) ? createZeroVector(resourceCount) : row,
+    );
+    const newRequest = state.request?.map((row, i) => {
+      if (isTerminated(i)) return createZeroVector(resourceCount);
+      return isDetection && victimIndices.includes(i)
+        ? addVectors(row, taken[i])
+        : row;
+    });
+    const newNeed = updateNeedMatrix(state, newMax, newAllocation);
+
+    const newState: BankersAlgorithmState = {
+      ...state,
+      available: newAvailable,
+      allocation: newAllocation,
+      max: newMax,
+      need: newNeed,
+      request: newRequest,
+      finish: Array(processCount).fill(false),
+      safeSequence: [],
+      algorithmSteps: [],
+      isSafe: undefined,
+    };
+
+    const safeSequence = isDetection
+      ? this.detectDeadlock({
+          processCount,
+          resourceCount,
+          allocation: newAllocation,
+          request: newRequest ?? createZeroMatrix(processCount, resourceCount),
+          available: newAvailable,
+        }).completionSequence
+      : this.checkSafety(newAvailable, newAllocation, newNeed).safeSequence;
+
+    return {
+      strategy,
+      cost,
+      victims: victimIndices.map((i) => `P${i}`),
+      preempted: taken,
+      preemptedUnits: vectorSum(taken.map(vectorSum)),
+      totalCost:
+        strategy === 'terminate'
+          ? vectorSum(victimIndices.map(weightOf))
+          : vectorSum(taken.map((row, i) => vectorSum(row) * weightOf(i))),
+      isOptimal,
+      safeSequence,
+      newState,
+    };
+  }
+
   /**
    * Resource Request Algorithm Implementation
    *
@@ -185,6 +1068,7 @@ export class BankersAlgorithmCalculator {
   processRequest(
     request: ResourceRequest,
     currentState: BankersAlgorithmState,
+    options: SafetyOptions = {},
   ): RequestResult {
     const {processId, requestVector} = request;
     const {allocation, max, available, need} = currentState;
@@ -212,6 +1096,8 @@ export class BankersAlgorithmCalculator {
       };
     }
 
+    const processName = getProcessName(currentState.processNames, processId);
+
     // Step (1): Check if Request[i] <= Need[i]
     let step1Valid = true;
     for (let j = 0; j < requestVector.length; j++) {
@@ -221,20 +1107,26 @@ export class BankersAlgorithmCalculator {
       }
     }
 
-    requestSteps.push({
-      stepNumber: 1,
-      description: `Check if Request[P${processId}] ≤ Need[P${processId}]: (${requestVector.join(
-        ', ',
-      )}) ${step1Valid ? '≤' : '≰'} (${need[processId].join(', ')})`,
-      workVector: cloneVector(available),
-      canFinish: step1Valid,
-      isHighlighted: step1Valid,
-    });
+    requestSteps.push(
+      createTraceStep(
+        1,
+        {
+          kind: 'check',
+          check: 'requestNeed',
+          process: processId,
+          vector: requestVector,
+          bound: need[processId],
+          satisfied: step1Valid,
+        },
+        cloneVector(available),
+        step1Valid,
+      ),
+    );
 
     if (!step1Valid) {
       return {
         canGrant: false,
-        errorMessage: `Request DENIED: Process P${processId} request [${requestVector.join(
+        errorMessage: `Request DENIED: Process ${processName} request [${requestVector.join(
           ', ',
         )}] exceeds declared maximum need [${need[processId].join(
           ', ',
@@ -252,20 +1144,26 @@ export class BankersAlgorithmCalculator {
       }
     }
 
-    requestSteps.push({
-      stepNumber: 2,
-      description: `Check if Request[P${processId}] ≤ Available: (${requestVector.join(
-        ', ',
-      )}) ${step2Valid ? '≤' : '≰'} (${available.join(', ')})`,
-      workVector: cloneVector(available),
-      canFinish: step2Valid,
-      isHighlighted: step2Valid,
-    });
+    requestSteps.push(
+      createTraceStep(
+        2,
+        {
+          kind: 'check',
+          check: 'requestAvailable',
+          process: processId,
+          vector: requestVector,
+          bound: available,
+          satisfied: step2Valid,
+        },
+        cloneVector(available),
+        step2Valid,
+      ),
+    );
 
     if (!step2Valid) {
       return {
         canGrant: false,
-        errorMessage: `Request DENIED: Insufficient resources available. Process P${processId} requested [${requestVector.join(
+        errorMessage: `Request DENIED: Insufficient resources available. Process ${processName} requested [${requestVector.join(
           ', ',
         )}] but only [${available.join(
           ', ',
@@ -275,47 +1173,51 @@ export class BankersAlgorithmCalculator {
     }
 
     // Step (3): Temporarily allocate resources (simulation)
-    const newAllocation = cloneMatrix(allocation);
-    const newAvailable = cloneVector(available);
-
-    // Simulate the allocation
-    for (let i = 0; i < requestVector.length; i++) {
-      newAllocation[processId][i] += requestVector[i];
-      newAvailable[i] -= requestVector[i];
-    }
-
-    // Recalculate need matrix after temporary allocation
-    const newNeed = calculateNeedMatrix(max, newAllocation);
-
-    requestSteps.push({
-      stepNumber: 3,
-      description: `Temporarily allocate resources:\nAvailable = (${available.join(
-        ', ',
-      )}) - (${requestVector.join(', ')}) = (${newAvailable.join(
-        ', ',
-      )})\nAllocation[P${processId}] = (${allocation[processId].join(
-        ', ',
-      )}) + (${requestVector.join(', ')}) = (${newAllocation[processId].join(
-        ', ',
-      )})\nNeed[P${processId}] = (${need[processId].join(
-        ', ',
-      )}) - (${requestVector.join(', ')}) = (${newNeed[processId].join(', ')})`,
-      workVector: cloneVector(newAvailable),
-      isHighlighted: true,
-    });
+    const newAllocation = replaceRow(
+      allocation,
+      processId,
+      addVectors(allocation[processId], requestVector),
+    );
+    const newAvailable = subtractVectors(available, requestVector);
+
+    // Only the requesting process's Need changes
+    const newNeed = updateNeedMatrix(currentState, max, newAllocation);
+
+    requestSteps.push(
+      createTraceStep(
+        3,
+        {
+          kind: 'allocate',
+          process: processId,
+          vector: requestVector,
+          available,
+          newAvailable,
+          allocation: allocation[processId],
+          newAllocation: newAllocation[processId],
+          need: need[processId],
+          newNeed: newNeed[processId],
+        },
+        cloneVector(newAvailable),
+        true,
+      ),
+    );
 
     // Step (4): Run Safety Algorithm to check if new state is safe
-    const safetyResult = this.checkSafety(newAvailable, newAllocation, newNeed);
+    const safetyResult = this.checkSafety(
+      newAvailable,
+      newAllocation,
+      newNeed,
+      options,
+    );
 
-    requestSteps.push({
-      stepNumber: 4,
-      description: `Run Safety Algorithm: System is ${
-        safetyResult.isSafe ? 'SAFE' : 'UNSAFE'
-      }`,
-      workVector: cloneVector(newAvailable),
-      canFinish: safetyResult.isSafe,
-      isHighlighted: true,
-    });
+    requestSteps.push(
+      createTraceStep(
+        4,
+        {kind: 'runSafety', isSafe: safetyResult.isSafe},
+        cloneVector(newAvailable),
+        true,
+      ),
+    );
 
     // Combine request steps with safety algorithm steps
     const allSteps = [...requestSteps, ...safetyResult.steps];
@@ -337,10 +1239,11 @@ export class BankersAlgorithmCalculator {
         canGrant: true,
         newState,
         simulationSteps: allSteps,
-        errorMessage: `Request GRANTED: Process P${processId} successfully allocated [${requestVector.join(
+        errorMessage: `Request GRANTED: Process ${processName} successfully allocated [${requestVector.join(
           ', ',
-        )}] resources. System remains in SAFE state with execution sequence: ${safetyResult.safeSequence.join(
-          ' → ',
+        )}] resources. System remains in SAFE state with execution sequence: ${formatProcessSequence(
+          currentState.processNames,
+          safetyResult.safeSequence,
         )}.`,
       };
     } else {
@@ -349,12 +1252,385 @@ export class BankersAlgorithmCalculator {
         canGrant: false,
         errorMessage: `Request DENIED: Granting request [${requestVector.join(
           ', ',
-        )}] to Process P${processId} would lead to an UNSAFE state (potential deadlock). The system cannot guarantee that all processes can complete their execution. Process must wait for a safer system state.`,
+        )}] to Process ${processName} would lead to an UNSAFE state (potential deadlock). The system cannot guarantee that all processes can complete their execution. Process must wait for a safer system state.`,
         simulationSteps: allSteps,
       };
     }
   }
 
+  /**
+   * Resource Release Implementation
+   *
+   * Algorithm Steps:
+   * 1. Check if Release[i] <= Allocation[i] (process holds what it releases)
+   * 2. Release resources: Available += Release[i], Allocation[i] -= Release[i],
+   *    Need[i] = Max[i] - Allocation[i] (the claim itself is unchanged)
+   * 3. Run Safety Algorithm on the resulting state
+   *
+   * A valid release is always carried out; the safety check only reports the
+   * state the system is left in.
+   */
+  processRelease(
+    release: ResourceRequest,
+    currentState: BankersAlgorithmState,
+    options: SafetyOptions = {},
+  ): RequestResult {
+    const {processId, requestVector: releaseVector} = release;
+    const {allocation, max, available} = currentState;
+    const releaseSteps: AlgorithmStep[] = [];
+
+    if (processId < 0 || processId >= currentState.processCount) {
+      return {
+        canGrant: false,
+        errorMessage: `Invalid process ID: ${processId}`,
+      };
+    }
+
+    if (allocation.length === 0 || !allocation[processId]) {
+      return {
+        canGrant: false,
+        errorMessage: 'Invalid system state: allocation matrix is malformed',
+      };
+    }
+
+    const processName = getProcessName(currentState.processNames, processId);
+
+    // Step (1): Check if Release[i] <= Allocation[i]
+    const step1Valid = isVectorLessOrEqual(
+      releaseVector,
+      allocation[processId],
+    );
+
+    releaseSteps.push(
+      createTraceStep(
+        1,
+        {
+          kind: 'check',
+          check: 'releaseAllocation',
+          process: processId,
+          vector: releaseVector,
+          bound: allocation[processId],
+          satisfied: step1Valid,
+        },
+        cloneVector(available),
+        step1Valid,
+      ),
+    );
+
+    if (!step1Valid) {
+      return {
+        canGrant: false,
+        errorMessage: `Release REJECTED: Process ${processName} cannot release [${releaseVector.join(
+          ', ',
+        )}] because it only holds [${allocation[processId].join(', ')}].`,
+        simulationSteps: releaseSteps,
+      };
+    }
+
+    // Step (2): Return the resources to the system
+    const newAllocation = replaceRow(
+      allocation,
+      processId,
+      subtractVectors(allocation[processId], releaseVector),
+    );
+    const newAvailable = addVectors(available, releaseVector);
+    const newNeed = updateNeedMatrix(currentState, max, newAllocation);
+
+    releaseSteps.push(
+      createTraceStep(
+        2,
+        {
+          kind: 'release',
+          process: processId,
+          vector: releaseVector,
+          available,
+          newAvailable,
+          allocation: allocation[processId],
+          newAllocation: newAllocation[processId],
+          need: currentState.need[processId],
+          newNeed: newNeed[processId],
+        },
+        cloneVector(newAvailable),
+        true,
+      ),
+    );
+
+    // Step (3): Run Safety Algorithm on the new state
+    const safetyResult = this.checkSafety(
+      newAvailable,
+      newAllocation,
+      newNeed,
+      options,
+    );
+
+    releaseSteps.push(
+      createTraceStep(
+        3,
+        {kind: 'runSafety', isSafe: safetyResult.isSafe},
+        cloneVector(newAvailable),
+        true,
+      ),
+    );
+
+    const allSteps = [...releaseSteps, ...safetyResult.steps];
+
+    return {
+      canGrant: true,
+      newState: {
+        ...currentState,
+        allocation: newAllocation,
+        available: newAvailable,
+        need: newNeed,
+        finish: safetyResult.finalFinishState,
+        safeSequence: safetyResult.safeSequence,
+        algorithmSteps: allSteps,
+        isSafe: safetyResult.isSafe,
+      },
+      simulationSteps: allSteps,
+      errorMessage: `Release COMPLETED: Process ${processName} returned [${releaseVector.join(
+        ', ',
+      )}] resources. System is ${
+        safetyResult.isSafe
+          ? `in SAFE state with execution sequence: ${formatProcessSequence(currentState.processNames, safetyResult.safeSequence)}.`
+          : 'in UNSAFE state.'
+      }`,
+    };
+  }
+
+  /**
+   * Process Admission Implementation
+   *
+   * Algorithm Steps:
+   * 1. Check if Max[new] <= Total (otherwise the process could never finish)
+   * 2. Admit the process: Allocation[new] = 0, Need[new] = Max[new]
+   * 3. Run Safety Algorithm; the process is admitted only if the state is SAFE
+   */
+  admitProcess(
+    maxClaim: number[],
+    currentState: BankersAlgorithmState,
+    options: SafetyOptions = {},
+  ): RequestResult {
+    const {processCount, resourceCount, allocation, max, available, total} =
+      currentState;
+    const processId = processCount;
+    const processName = getProcessName(currentState.processNames, processId);
+    const admissionSteps: AlgorithmStep[] = [];
+
+    if (maxClaim.length !== resourceCount) {
+      return {
+        canGrant: false,
+        errorMessage: `Max claim must have ${resourceCount} resource values`,
+      };
+    }
+
+    // Step (1): Check if Max[new] <= Total
+    const step1Valid = isVectorLessOrEqual(maxClaim, total);
+
+    admissionSteps.push(
+      createTraceStep(
+        1,
+        {
+          kind: 'check',
+          check: 'maxTotal',
+          process: processId,
+          vector: maxClaim,
+          bound: total,
+          satisfied: step1Valid,
+        },
+        cloneVector(available),
+        step1Valid,
+      ),
+    );
+
+    if (!step1Valid) {
+      return {
+        canGrant: false,
+        errorMessage: `Admission DENIED: Max claim [${maxClaim.join(
+          ', ',
+        )}] of Process ${processName} exceeds the total resources [${total.join(
+          ', ',
+        )}]. The process could never finish.`,
+        simulationSteps: admissionSteps,
+      };
+    }
+
+    // Step (2): Add the process without any resources
+    const newAllocation = [...allocation, createZeroVector(resourceCount)];
+    const newMax = [...max, cloneVector(maxClaim)];
+    const newNeed = updateNeedMatrix(currentState, newMax, newAllocation);
+
+    admissionSteps.push(
+      createTraceStep(
+        2,
+        {
+          kind: 'admit',
+          process: processId,
+          allocation: newAllocation[processId],
+          need: newNeed[processId],
+        },
+        cloneVector(available),
+        true,
+      ),
+    );
+
+    // Step (3): Run Safety Algorithm with the new process included
+    const safetyResult = this.checkSafety(
+      available,
+      newAllocation,
+      newNeed,
+      options,
+    );
+
+    admissionSteps.push(
+      createTraceStep(
+        3,
+        {kind: 'runSafety', isSafe: safetyResult.isSafe},
+        cloneVector(available),
+        true,
+      ),
+    );
+
+    const allSteps = [...admissionSteps, ...safetyResult.steps];
+
+    if (!safetyResult.isSafe) {
+      return {
+        canGrant: false,
+        errorMessage: `Admission DENIED: Admitting Process ${processName} with Max claim [${maxClaim.join(
+          ', ',
+        )}] would leave the system in an UNSAFE state.`,
+        simulationSteps: allSteps,
+      };
+    }
+
+    return {
+      canGrant: true,
+      newState: {
+        ...currentState,
+        processCount: processCount + 1,
+        allocation: newAllocation,
+        max: newMax,
+        need: newNeed,
+        request: currentState.request && [
+          ...currentState.request,
+          createZeroVector(resourceCount),
+        ],
+        processNames: resizeNames(currentState.processNames, processCount + 1),
+        finish: safetyResult.finalFinishState,
+        safeSequence: safetyResult.safeSequence,
+        algorithmSteps: allSteps,
+        isSafe: true,
+      },
+      simulationSteps: allSteps,
+      errorMessage: `Admission GRANTED: Process ${processName} admitted with Max claim [${maxClaim.join(
+        ', ',
+      )}]. System remains in SAFE state with execution sequence: ${formatProcessSequence(
+        currentState.processNames,
+        safetyResult.safeSequence,
+      )}.`,
+    };
+  }
+
+  /**
+   * Process Retirement Implementation
+   *
+   * Algorithm Steps:
+   * 1. Retire the process: Available += Allocation[i], then drop its row from
+   *    Allocation, Max and Need (later processes are renumbered)
+   * 2. Run Safety Algorithm on the remaining processes
+   */
+  retireProcess(
+    processId: number,
+    currentState: BankersAlgorithmState,
+    options: SafetyOptions = {},
+  ): RequestResult {
+    const {processCount, allocation, max, available} = currentState;
+
+    if (processId < 0 || processId >= processCount) {
+      return {
+        canGrant: false,
+        errorMessage: `Invalid process ID: ${processId}`,
+      };
+    }
+
+    if (processCount <= 1) {
+      return {
+        canGrant: false,
+        errorMessage: 'Cannot retire the only process in the system',
+      };
+    }
+
+    // Step (1): Return everything the process holds and remove it
+    const newAvailable = addVectors(available, allocation[processId]);
+    const keep = (_: unknown, i: number) => i !== processId;
+    const newAllocation = allocation.filter(keep);
+    const newMax = max.filter(keep);
+    const newNeed = currentState.need.filter(keep);
+    const newProcessNames = currentState.processNames?.filter(keep);
+    const processName = getProcessName(currentState.processNames, processId);
+
+    const retirementSteps: AlgorithmStep[] = [
+      createTraceStep(
+        1,
+        {
+          kind: 'retire',
+          process: processId,
+          name: processName,
+          processCount,
+          available,
+          released: allocation[processId],
+          newAvailable,
+        },
+        cloneVector(newAvailable),
+        true,
+      ),
+    ];
+
+    // Step (2): Run Safety Algorithm on the remaining processes
+    const safetyResult = this.checkSafety(
+      newAvailable,
+      newAllocation,
+      newNeed,
+      options,
+    );
+
+    retirementSteps.push(
+      createTraceStep(
+        2,
+        {kind: 'runSafety', isSafe: safetyResult.isSafe},
+        cloneVector(newAvailable),
+        true,
+      ),
+    );
+
+    const allSteps = [...retirementSteps, ...safetyResult.steps];
+
+    return {
+      canGrant: true,
+      newState: {
+        ...currentState,
+        processCount: processCount - 1,
+        allocation: newAllocation,
+        max: newMax,
+        need: newNeed,
+        available: newAvailable,
+        request: currentState.request?.filter(keep),
+        processNames: newProcessNames,
+        finish: safetyResult.finalFinishState,
+        safeSequence: safetyResult.safeSequence,
+        algorithmSteps: allSteps,
+        isSafe: safetyResult.isSafe,
+      },
+      simulationSteps: allSteps,
+      errorMessage: `Process ${processName} RETIRED: returned [${allocation[
+        processId
+      ].join(', ')}] resources. System is ${
+        safetyResult.isSafe
+          ? `in SAFE state with execution sequence: ${formatProcessSequence(newProcessNames, safetyResult.safeSequence)}.`
+          : 'in UNSAFE state.'
+      }`,
+    };
+  }
+
   /**
    * Creates a default system state with example values
    * Based on classical Banker's Algorithm textbook example (guaranteed safe)
@@ -388,12 +1664,14 @@ export class BankersAlgorithmCalculator {
       allocation,
       max,
       available,
+      total: calculateTotalResources(allocation, available),
       need,
       finish: Array(processCount).fill(false),
       safeSequence: safetyResult.safeSequence,
       algorithmSteps: safetyResult.steps,
       isCalculating: false,
       isSafe: safetyResult.isSafe,
+      request: createZeroMatrix(processCount, resourceCount),
     };
   }
 
@@ -415,11 +1693,13 @@ export class BankersAlgorithmCalculator {
       allocation,
       max,
       available,
+      total: calculateTotalResources(allocation, available),
       need,
       finish: Array(processCount).fill(false),
       safeSequence: [],
       algorithmSteps: [],
       isCalculating: false,
+      request: createZeroMatrix(processCount, resourceCount),
     };
   }
 
@@ -431,27 +1711,38 @@ export class BankersAlgorithmCalculator {
     newProcessCount: number,
     newResourceCount: number,
   ): BankersAlgorithmState {
-    // Create new matrices with appropriate dimensions
-    const newAllocation = createZeroMatrix(newProcessCount, newResourceCount);
-    const newMax = createZeroMatrix(newProcessCount, newResourceCount);
-    const newAvailable = createZeroVector(newResourceCount);
-
-    // Copy existing values where possible
-    const minProcesses = Math.min(currentState.processCount, newProcessCount);
-    const minResources = Math.min(currentState.resourceCount, newResourceCount);
-
-    for (let i = 0; i < minProcesses; i++) {
-      for (let j = 0; j < minResources; j++) {
-        newAllocation[i][j] = currentState.allocation[i]?.[j] || 0;
-        newMax[i][j] = currentState.max[i]?.[j] || 0;
-      }
-    }
-
-    for (let j = 0; j < minResources; j++) {
-      newAvailable[j] = currentState.available[j] || 0;
-    }
+    // Copy existing values where possible, keeping rows that fit as they are
+    const newAllocation = resizeMatrix(
+      currentState.allocation,
+      newProcessCount,
+      newResourceCount,
+    );
+    const newMax = resizeMatrix(
+      currentState.max,
+      newProcessCount,
+      newResourceCount,
+    );
+    const newRequest = resizeMatrix(
+      currentState.request ?? [],
+      newProcessCount,
+      newResourceCount,
+    );
+    const {available: newAvailable, total: newTotal} = updateResourceVectors(
+      {
+        available: Array.from(
+          {length: newResourceCount},
+          (_, j) => currentState.available[j] || 0,
+        ),
+        total: Array.from(
+          {length: newResourceCount},
+          (_, j) => currentState.total[j] || 0,
+        ),
+        isTotalSet: currentState.isTotalSet,
+      },
+      newAllocation,
+    );
 
-    const newNeed = calculateNeedMatrix(newMax, newAllocation);
+    const newNeed = updateNeedMatrix(currentState, newMax, newAllocation);
 
     return {
       ...currentState,
@@ -460,7 +1751,11 @@ export class BankersAlgorithmCalculator {
       allocation: newAllocation,
       max: newMax,
       available: newAvailable,
+      total: newTotal,
       need: newNeed,
+      request: newRequest,
+      processNames: resizeNames(currentState.processNames, newProcessCount),
+      resourceNames: resizeNames(currentState.resourceNames, newResourceCount),
       finish: Array(newProcessCount).fill(false),
       safeSequence: [],
       algorithmSteps: [],
@@ -493,21 +1788,23 @@ export class BankersAlgorithmCalculator {
     }
 
     // Simulate process completion and resource release
-    const newAvailable = cloneVector(state.available);
-    const newAllocation = cloneMatrix(state.allocation);
-    const newFinish = [...state.finish];
-
     // Release all allocated resources back to the system
-    for (let j = 0; j < state.resourceCount; j++) {
-      newAvailable[j] += state.allocation[processId][j];
-      newAllocation[processId][j] = 0;
-    }
+    const newAvailable = addVectors(
+      state.available,
+      state.allocation[processId],
+    );
+    const newAllocation = replaceRow(
+      state.allocation,
+      processId,
+      createZeroVector(state.resourceCount),
+    );
 
     // Mark process as finished
+    const newFinish = [...state.finish];
     newFinish[processId] = true;
 
-    // Recalculate need matrix
-    const newNeed = calculateNeedMatrix(state.max, newAllocation);
+    // Only the completed process's Need changes
+    const newNeed = updateNeedMatrix(state, state.max, newAllocation);
 
     // Check safety of new state
     const safetyResult = this.checkSafety(newAvailable, newAllocation, newNeed);
@@ -589,9 +1886,72 @@ export class BankersAlgorithmCalculator {
     // Validate allocation constraints (Allocation <= Maximum)
     errors.push(...validateAllocationConstraints(state.allocation, state.max));
 
-    // Note: Resource consistency validation (total allocated + available)
-    // would require knowing the initial total resources, which is not available
-    // in the current system state structure
+    // Resource conservation: every unit is either allocated or available
+    if (state.total.length !== state.resourceCount) {
+      errors.push({
+        field: 'total',
+        message: `Total vector must have ${state.resourceCount} elements`,
+      });
+    } else {
+      const allocated = matrixColumnSums(state.allocation);
+
+      state.total.forEach((units, j) => {
+        const accounted = (allocated[j] || 0) + (state.available[j] || 0);
+        if (accounted !== units) {
+          errors.push({
+            field: `total[${j}]`,
+            message: `Allocated plus Available (${accounted}) must equal Total (${units}) for resource ${getResourceName(state.resourceNames, j)}`,
+          });
+        }
+      });
+
+      // No process can ever be granted more than the system owns
+      state.max.forEach((row, i) => {
+        row.forEach((units, j) => {
+          if (units > (state.total[j] ?? 0)) {
+            errors.push({
+              field: `max[${i}][${j}]`,
+              message: `Max (${units}) of ${getProcessName(state.processNames, i)} cannot exceed Total (${state.total[j]})`,
+            });
+          }
+        });
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Deadlock Detection Validation
+   * Validates the Request matrix together with Allocation and Available
+   */
+  validateDetectionData(state: DeadlockDetectionState): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (state.allocation.length !== state.processCount) {
+      errors.push({
+        field: 'allocation',
+        message: `Allocation matrix must have ${state.processCount} rows`,
+      });
+    }
+
+    if (state.request.length !== state.processCount) {
+      errors.push({
+        field: 'request',
+        message: `Request matrix must have ${state.processCount} rows`,
+      });
+    }
+
+    if (state.available.length !== state.resourceCount) {
+      errors.push({
+        field: 'available',
+        message: `Available vector must have ${state.resourceCount} elements`,
+      });
+    }
+
+    errors.push(...validateMatrixValues(state.allocation));
+    errors.push(...validateMatrixValues(state.request));
+    errors.push(...validateVectorValues(state.available));
 
     return errors;
   }
@@ -0,0 +1,249 @@
+/**
+ * Banker's Algorithm Tasks
+ * Units of calculator work that run off the main thread, and the typed
+ * messages exchanged with the worker that runs them
+ */
+
+import {
+  AvailableIncreaseAnalysis,
+  BankersAlgorithmState,
+  DeadlockDetectionState,
+  DetectionResult,
+  MaxSafeRequest,
+  RecoveryOptions,
+  RecoveryPlan,
+  RequestResult,
+  ResourceRequest,
+  SafeSequenceEnumeration,
+  SafetyOptions,
+  SafetyResult,
+  WaitForGraph,
+} from '@/types/bankers-algorithm';
+import {BankersAlgorithmCalculator} from './bankers-algorithm-calculator';
+import {buildWaitForGraph} from './resource-graph';
+import {getProcessName} from './system-labels';
+
+export type BankersTask =
+  | {kind: 'checkSafety'; state: BankersAlgorithmState; options?: SafetyOptions}
+  | {
+      kind: 'processRequest';
+      request: ResourceRequest;
+      state: BankersAlgorithmState;
+      options?: SafetyOptions;
+    }
+  | {
+      kind: 'processRelease';
+      release: ResourceRequest;
+      state: BankersAlgorithmState;
+      options?: SafetyOptions;
+    }
+  | {
+      kind: 'admitProcess';
+      maxClaim: number[];
+      state: BankersAlgorithmState;
+      options?: SafetyOptions;
+    }
+  | {
+      kind: 'retireProcess';
+      processId: number;
+      state: BankersAlgorithmState;
+      options?: SafetyOptions;
+    }
+  | {kind: 'detectDeadlock'; state: DeadlockDetectionState}
+  | {
+      kind: 'findMaxSafeRequest';
+      processId: number;
+      state: BankersAlgorithmState;
+    }
+  | {
+      kind: 'planRecovery';
+      state: BankersAlgorithmState;
+      options: RecoveryOptions;
+    }
+  | {kind: 'buildWaitForGraph'; system: GraphSystem};
+
+// System a resource graph is drawn for; demand is Need (claims) or Request
+export interface GraphSystem {
+  allocation: number[][];
+  demand: number[][];
+  available: number[];
+  finish: boolean[];
+}
+
+export type BankersTaskKind = BankersTask['kind'];
+
+export interface SafetyAnalysis {
+  safety: SafetyResult;
+  enumeration: SafeSequenceEnumeration;
+  availableIncrease: AvailableIncreaseAnalysis | null;
+}
+
+export interface OperationAnalysis {
+  result: RequestResult;
+  enumeration: SafeSequenceEnumeration | null;
+  availableIncrease: AvailableIncreaseAnalysis | null;
+}
+
+export interface BankersTaskResults {
+  checkSafety: SafetyAnalysis;
+  processRequest: OperationAnalysis;
+  processRelease: OperationAnalysis;
+  admitProcess: OperationAnalysis;
+  retireProcess: OperationAnalysis;
+  detectDeadlock: DetectionResult;
+  findMaxSafeRequest: MaxSafeRequest;
+  planRecovery: RecoveryPlan | null;
+  buildWaitForGraph: WaitForGraph;
+}
+
+export interface TaskProgress {
+  stage: string;
+  completed: number;
+  total: number;
+}
+
+// Main thread -> worker
+export type WorkerRequest =
+  {type: 'run'; id: number; task: BankersTask} | {type: 'cancel'; id: number};
+
+// Worker -> main thread
+export type WorkerResponse =
+  | {type: 'progress'; id: number; progress: TaskProgress}
+  | {
+      type: 'result';
+      id: number;
+      result: BankersTaskResults[BankersTaskKind];
+    }
+  | {type: 'error'; id: number; message: string};
+
+/**
+ * Runs one task to completion, reporting progress between its stages
+ */
+export function runBankersTask<T extends BankersTask>(
+  calculator: BankersAlgorithmCalculator,
+  task: T,
+  onProgress?: (progress: TaskProgress) => void,
+): BankersTaskResults[T['kind']] {
+  return runTask(calculator, task, onProgress) as BankersTaskResults[T['kind']];
+}
+
+function runTask(
+  calculator: BankersAlgorithmCalculator,
+  task: BankersTask,
+  onProgress: (progress: TaskProgress) => void = () => {},
+): BankersTaskResults[BankersTaskKind] {
+  switch (task.kind) {
+    case 'checkSafety': {
+      const {available, allocation, need} = task.state;
+      const total = 3;
+
+      onProgress({stage: 'Running safety algorithm', completed: 0, total});
+      const safety = calculator.checkSafety(
+        available,
+        allocation,
+        need,
+        task.options,
+      );
+
+      onProgress({stage: 'Enumerating safe sequences', completed: 1, total});
+      const enumeration = calculator.enumerateSafeSequences(
+        available,
+        allocation,
+        need,
+      );
+
+      onProgress({stage: 'Finding smallest fix', completed: 2, total});
+      const availableIncrease = safety.isSafe
+        ? null
+        : calculator.findMinimalAvailableIncrease(available, allocation, need);
+
+      onProgress({stage: 'Done', completed: total, total});
+      return {safety, enumeration, availableIncrease};
+    }
+
+    case 'processRequest':
+    case 'processRelease':
+    case 'admitProcess':
+    case 'retireProcess': {
+      const total = 3;
+
+      onProgress({stage: 'Processing operation', completed: 0, total});
+      const result =
+        task.kind === 'processRequest'
+          ? calculator.processRequest(task.request, task.state, task.options)
+          : task.kind === 'processRelease'
+            ? calculator.processRelease(task.release, task.state, task.options)
+            : task.kind === 'admitProcess'
+              ? calculator.admitProcess(task.maxClaim, task.state, task.options)
+              : calculator.retireProcess(
+                  task.processId,
+                  task.state,
+                  task.options,
+                );
+
+      // Only a state the operation left behind is analyzed further
+      const {newState} = result;
+
+      onProgress({stage: 'Enumerating safe sequences', completed: 1, total});
+      const enumeration = newState
+        ? calculator.enumerateSafeSequences(
+            newState.available,
+            newState.allocation,
+            newState.need,
+          )
+        : null;
+
+      onProgress({stage: 'Finding smallest fix', completed: 2, total});
+      const availableIncrease =
+        newState && !newState.isSafe
+          ? calculator.findMinimalAvailableIncrease(
+              newState.available,
+              newState.allocation,
+              newState.need,
+            )
+          : null;
+
+      onProgress({stage: 'Done', completed: total, total});
+      return {result, enumeration, availableIncrease};
+    }
+
+    case 'detectDeadlock': {
+      onProgress({stage: 'Detecting deadlock', completed: 0, total: 1});
+      const detection = calculator.detectDeadlock(task.state);
+      onProgress({stage: 'Done', completed: 1, total: 1});
+      return detection;
+    }
+
+    case 'findMaxSafeRequest': {
+      onProgress({
+        stage: `Searching largest requests of ${getProcessName(
+          task.state.processNames,
+          task.processId,
+        )}`,
+        completed: 0,
+        total: 1,
+      });
+      const maxSafeRequest = calculator.findMaxSafeRequest(
+        task.processId,
+        task.state,
+      );
+      onProgress({stage: 'Done', completed: 1, total: 1});
+      return maxSafeRequest;
+    }
+
+    case 'planRecovery': {
+      onProgress({stage: 'Searching recovery plan', completed: 0, total: 1});
+      const plan = calculator.planRecovery(task.state, task.options);
+      onProgress({stage: 'Done', completed: 1, total: 1});
+      return plan;
+    }
+
+    case 'buildWaitForGraph': {
+      const {allocation, demand, available, finish} = task.system;
+      onProgress({stage: 'Building wait-for graph', completed: 0, total: 1});
+      const graph = buildWaitForGraph(allocation, demand, available, finish);
+      onProgress({stage: 'Done', completed: 1, total: 1});
+      return graph;
+    }
+  }
+}
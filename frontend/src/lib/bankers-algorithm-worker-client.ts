@@ -0,0 +1,192 @@
+/**
+ * Banker's Algorithm Worker Client
+ * Sends calculator tasks to a Web Worker and hands results back as promises.
+ * Falls back to running tasks inline (on a later tick) where workers are
+ * unavailable, e.g. during server rendering.
+ */
+
+import {BankersAlgorithmCalculator} from './bankers-algorithm-calculator';
+import {
+  BankersTask,
+  BankersTaskKind,
+  BankersTaskResults,
+  TaskProgress,
+  WorkerRequest,
+  WorkerResponse,
+  runBankersTask,
+} from './bankers-algorithm-tasks';
+
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('Task cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+export interface RunningTask<R> {
+  id: number;
+  promise: Promise<R>;
+}
+
+interface PendingTask {
+  task: BankersTask;
+  resolve: (result: BankersTaskResults[BankersTaskKind]) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: TaskProgress) => void;
+}
+
+const createDefaultWorker = (): Worker | null => {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return null;
+  }
+
+  try {
+    return new Worker(
+      new URL('./bankers-algorithm.worker.ts', import.meta.url),
+      {type: 'module'},
+    );
+  } catch {
+    return null;
+  }
+};
+
+export class BankersAlgorithmWorkerClient {
+  private worker: Worker | null = null;
+  // In the order the worker runs them
+  private readonly pending = new Map<number, PendingTask>();
+  private nextId = 1;
+  private readonly calculator = new BankersAlgorithmCalculator();
+
+  constructor(
+    private readonly createWorker: () => Worker | null = createDefaultWorker,
+  ) {}
+
+  /**
+   * Queues a task; progress is reported as each of its stages starts
+   */
+  run<T extends BankersTask>(
+    task: T,
+    onProgress?: (progress: TaskProgress) => void,
+  ): RunningTask<BankersTaskResults[T['kind']]> {
+    const id = this.nextId++;
+    const promise = new Promise<BankersTaskResults[T['kind']]>(
+      (resolve, reject) => {
+        this.pending.set(id, {
+          task,
+          resolve: resolve as PendingTask['resolve'],
+          reject,
+          onProgress,
+        });
+      },
+    );
+
+    this.dispatch(id, task);
+
+    return {id, promise};
+  }
+
+  /**
+   * Cancels a queued or running task; its promise rejects with
+   * TaskCancelledError
+   */
+  cancel(id: number): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    // The worker runs tasks first in, first out, so the oldest pending task
+    // is running or about to start, whether or not it has reported yet
+    const isRunning = this.pending.keys().next().value === id;
+    this.pending.delete(id);
+    entry.reject(new TaskCancelledError());
+
+    if (!this.worker) return;
+
+    if (isRunning) {
+      // A running task cannot be interrupted, so replace the worker and
+      // hand the remaining tasks to the new one
+      this.worker.terminate();
+      this.worker = null;
+      this.pending.forEach((pendingTask, pendingId) =>
+        this.dispatch(pendingId, pendingTask.task),
+      );
+    } else {
+      this.post({type: 'cancel', id});
+    }
+  }
+
+  /**
+   * Cancels every task and stops the worker (a later run starts a new one)
+   */
+  dispose(): void {
+    const ids = Array.from(this.pending.keys());
+    this.worker?.terminate();
+    this.worker = null;
+    ids.forEach((id) => this.cancel(id));
+  }
+
+  private dispatch(id: number, task: BankersTask): void {
+    if (!this.worker) {
+      this.worker = this.createWorker();
+      this.worker?.addEventListener('message', this.handleMessage);
+      this.worker?.addEventListener('error', this.handleError);
+    }
+
+    if (this.worker) {
+      this.post({type: 'run', id, task});
+    } else {
+      setTimeout(() => this.runInline(id), 0);
+    }
+  }
+
+  private post(message: WorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
+
+  private runInline(id: number): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    try {
+      const result = runBankersTask(this.calculator, entry.task, (progress) =>
+        entry.onProgress?.(progress),
+      );
+      this.pending.delete(id);
+      entry.resolve(result);
+    } catch (error) {
+      this.pending.delete(id);
+      entry.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private readonly handleMessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    const entry = this.pending.get(message.id);
+    if (!entry) return;
+
+    if (message.type === 'progress') {
+      entry.onProgress?.(message.progress);
+      return;
+    }
+
+    this.pending.delete(message.id);
+
+    if (message.type === 'result') {
+      entry.resolve(message.result);
+    } else {
+      entry.reject(new Error(message.message));
+    }
+  };
+
+  private readonly handleError = (event: ErrorEvent) => {
+    // The worker is unusable; fail what it held and start fresh next time
+    event.preventDefault();
+    this.worker?.terminate();
+    this.worker = null;
+
+    const entries = Array.from(this.pending.values());
+    this.pending.clear();
+    entries.forEach((entry) =>
+      entry.reject(new Error(event.message || 'Worker failed')),
+    );
+  };
+}
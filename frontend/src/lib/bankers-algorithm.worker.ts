@@ -0,0 +1,56 @@
+/**
+ * Banker's Algorithm Worker
+ * Runs calculator tasks off the main thread. Runs are queued and started on
+ * a later tick, so a cancel message can still drop a task that has not begun.
+ */
+
+import {BankersAlgorithmCalculator} from './bankers-algorithm-calculator';
+import {
+  BankersTask,
+  WorkerRequest,
+  WorkerResponse,
+  runBankersTask,
+} from './bankers-algorithm-tasks';
+
+const calculator = new BankersAlgorithmCalculator();
+const queue: Array<{id: number; task: BankersTask}> = [];
+
+const post = (response: WorkerResponse) => self.postMessage(response);
+
+const runNext = () => {
+  const next = queue.shift();
+  if (!next) return;
+
+  try {
+    const result = runBankersTask(calculator, next.task, (progress) =>
+      post({type: 'progress', id: next.id, progress}),
+    );
+    post({type: 'result', id: next.id, result});
+  } catch (error) {
+    post({
+      type: 'error',
+      id: next.id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (queue.length > 0) {
+    setTimeout(runNext, 0);
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'run') {
+    queue.push({id: message.id, task: message.task});
+    if (queue.length === 1) {
+      setTimeout(runNext, 0);
+    }
+  } else {
+    const index = queue.findIndex((entry) => entry.id === message.id);
+    if (index !== -1) {
+      queue.splice(index, 1);
+    }
+  }
+});
@@ -0,0 +1,488 @@
+/**
+ * Image Export
+ * Draws the matrix table and the safe sequence as standalone SVG images for
+ * slides, in the colors of the light or dark theme. Nothing is measured or
+ * fetched, so an image comes out the same offline and in every browser.
+ */
+
+import {AlgorithmMode} from '@/types/bankers-algorithm';
+import {
+  getProcessName,
+  getProcessNameById,
+  getResourceName,
+} from './system-labels';
+
+export const SVG_FILE_TYPE = 'image/svg+xml';
+export const SVG_FILE_EXTENSION = '.svg';
+export const PNG_FILE_TYPE = 'image/png';
+export const PNG_FILE_EXTENSION = '.png';
+
+export interface SvgImage {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+export interface ImagePalette {
+  background: string;
+  border: string;
+  text: string;
+  mutedText: string;
+  highlight: string;
+  trueFill: string;
+  trueText: string;
+  falseFill: string;
+  falseText: string;
+  arrow: string;
+}
+
+// Colors of the page (globals.css and the Tailwind classes it uses), with
+// translucent fills flattened onto the table background
+const IMAGE_PALETTES: Record<'light' | 'dark', ImagePalette> = {
+  light: {
+    background: '#fdfdfd',
+    border: '#e1e1e1',
+    text: '#111827',
+    mutedText: '#6b7280',
+    highlight: '#f3f4f6',
+    trueFill: '#dcfce7',
+    trueText: '#15803d',
+    falseFill: '#fee2e2',
+    falseText: '#b91c1c',
+    arrow: '#16a34a',
+  },
+  dark: {
+    background: '#141414',
+    border: '#272727',
+    text: '#f3f4f6',
+    mutedText: '#9e9e9e',
+    highlight: '#1f2937',
+    trueFill: '#112a1a',
+    trueText: '#86efac',
+    falseFill: '#32171a',
+    falseText: '#fca5a5',
+    arrow: '#4ade80',
+  },
+};
+
+export function getImagePalette(isDarkMode: boolean): ImagePalette {
+  return IMAGE_PALETTES[isDarkMode ? 'dark' : 'light'];
+}
+
+const FONT_FAMILY = 'Inter, system-ui, -apple-system, sans-serif';
+const FONT_SIZE = 13;
+// Generous advance of one character at FONT_SIZE; widths are estimated
+// rather than measured so the layout does not depend on installed fonts
+const CHAR_WIDTH = 7.5;
+const PADDING = 24;
+const CELL_PADDING = 12;
+
+const GROUP_HEADER_HEIGHT = 32;
+const LABEL_HEADER_HEIGHT = 28;
+const ROW_HEIGHT = 40;
+const MIN_PROCESS_WIDTH = 88;
+const MIN_RESOURCE_WIDTH = 48;
+const FINISH_WIDTH = 96;
+const BADGE_HEIGHT = 24;
+
+const CHIP_HEIGHT = 32;
+const ARROW_WIDTH = 32;
+const TITLE_HEIGHT = 36;
+// Widest row of the sequence before it wraps
+const MAX_SEQUENCE_WIDTH = 720;
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => XML_ENTITIES[char]);
+
+const textWidth = (text: string) => Math.ceil(text.length * CHAR_WIDTH);
+
+interface TextOptions {
+  anchor?: 'start' | 'middle' | 'end';
+  weight?: number;
+}
+
+function svgText(
+  x: number,
+  y: number,
+  content: string,
+  fill: string,
+  {anchor = 'middle', weight = 400}: TextOptions = {},
+) {
+  return `<text x="${x}" y="${y}" fill="${fill}" font-weight="${weight}" text-anchor="${anchor}" dominant-baseline="central">${escapeXml(content)}</text>`;
+}
+
+function svgRect(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  attributes: string,
+) {
+  return `<rect x="${x}" y="${y}" width="${width}" height="${height}" ${attributes}/>`;
+}
+
+const svgLine = (
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  stroke: string,
+) => `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${stroke}"/>`;
+
+function svgDocument(
+  width: number,
+  height: number,
+  palette: ImagePalette,
+  body: string[],
+): SvgImage {
+  const markup = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}">`,
+    svgRect(0, 0, width, height, `fill="${palette.background}"`),
+    ...body,
+    '</svg>',
+    '',
+  ].join('\n');
+  return {markup, width, height};
+}
+
+export interface TableImage {
+  mode: AlgorithmMode;
+  allocation: number[][];
+  max: number[][];
+  need: number[][];
+  request?: number[][];
+  available: number[];
+  finish: boolean[];
+  // Process checked at the step being inspected
+  highlightedProcess?: number;
+  processNames?: string[];
+  resourceNames?: string[];
+}
+
+/**
+ * Draws the matrix table as shown: Allocation, Max and Need (or Allocation
+ * and Request in detection mode), the Finish column and Available below
+ */
+export function renderTableImage(
+  table: TableImage,
+  isDarkMode: boolean,
+): SvgImage {
+  const palette = getImagePalette(isDarkMode);
+  const {allocation, available, finish, highlightedProcess} = table;
+
+  const groups: Array<{label: string; rows: number[][]}> =
+    table.mode === 'detection'
+      ? [
+          {label: 'Allocation', rows: allocation},
+          {label: 'Request', rows: table.request ?? []},
+        ]
+      : [
+          {label: 'Allocation', rows: allocation},
+          {label: 'Max', rows: table.max},
+          {label: 'Need', rows: table.need},
+        ];
+  const processes = allocation.map((_, i) =>
+    getProcessName(table.processNames, i),
+  );
+  const resources = available.map((_, j) =>
+    getResourceName(table.resourceNames, j),
+  );
+  const resourceCount = Math.max(resources.length, 1);
+
+  const processWidth = Math.max(
+    MIN_PROCESS_WIDTH,
+    ...processes.map((name) => textWidth(name) + 2 * CELL_PADDING),
+  );
+  // Wide enough for every resource name, and for each group label over them
+  const resourceWidth = Math.max(
+    MIN_RESOURCE_WIDTH,
+    ...resources.map((name) => textWidth(name) + 2 * CELL_PADDING),
+    ...groups.map(({label}) =>
+      Math.ceil((textWidth(label) + 2 * CELL_PADDING) / resourceCount),
+    ),
+  );
+  const groupWidth = resources.length * resourceWidth;
+  const tableWidth = processWidth + groups.length * groupWidth + FINISH_WIDTH;
+  const headerHeight = GROUP_HEADER_HEIGHT + LABEL_HEADER_HEIGHT;
+  const tableHeight = headerHeight + processes.length * ROW_HEIGHT;
+
+  const left = PADDING;
+  const top = PADDING;
+  const right = left + tableWidth;
+  const bottom = top + tableHeight;
+  const groupLeft = (g: number) => left + processWidth + g * groupWidth;
+  const finishLeft = groupLeft(groups.length);
+  const body: string[] = [];
+
+  processes.forEach((name, i) => {
+    const rowTop = top + headerHeight + i * ROW_HEIGHT;
+    const rowMiddle = rowTop + ROW_HEIGHT / 2;
+    if (i === highlightedProcess) {
+      body.push(
+        svgRect(
+          left,
+          rowTop,
+          tableWidth,
+          ROW_HEIGHT,
+          `fill="${palette.highlight}"`,
+        ),
+      );
+    }
+    body.push(
+      svgText(left + CELL_PADDING, rowMiddle, name, palette.text, {
+        anchor: 'start',
+        weight: 600,
+      }),
+    );
+
+    groups.forEach(({rows}, g) => {
+      resources.forEach((_, j) => {
+        body.push(
+          svgText(
+            groupLeft(g) + (j + 0.5) * resourceWidth,
+            rowMiddle,
+            String(rows[i]?.[j] ?? 0),
+            palette.text,
+            {weight: 500},
+          ),
+        );
+      });
+    });
+
+    const finished = finish[i] ?? false;
+    const badgeWidth = FINISH_WIDTH - 2 * CELL_PADDING;
+    body.push(
+      svgRect(
+        finishLeft + CELL_PADDING,
+        rowMiddle - BADGE_HEIGHT / 2,
+        badgeWidth,
+        BADGE_HEIGHT,
+        `rx="${BADGE_HEIGHT / 2}" fill="${finished ? palette.trueFill : palette.falseFill}"`,
+      ),
+      svgText(
+        finishLeft + FINISH_WIDTH / 2,
+        rowMiddle,
+        finished ? '✓ true' : '✗ false',
+        finished ? palette.trueText : palette.falseText,
+        {weight: 500},
+      ),
+    );
+
+    if (i < processes.length - 1) {
+      body.push(
+        svgLine(
+          left,
+          rowTop + ROW_HEIGHT,
+          right,
+          rowTop + ROW_HEIGHT,
+          palette.border,
+        ),
+      );
+    }
+  });
+
+  // Headers: Process and Finish span both header rows
+  const headerMiddle = top + headerHeight / 2;
+  body.push(
+    svgText(left + CELL_PADDING, headerMiddle, 'Process', palette.text, {
+      anchor: 'start',
+      weight: 600,
+    }),
+    svgText(
+      finishLeft + FINISH_WIDTH / 2,
+      headerMiddle,
+      'Finish',
+      palette.text,
+      {
+        weight: 600,
+      },
+    ),
+  );
+  groups.forEach(({label}, g) => {
+    body.push(
+      svgText(
+        groupLeft(g) + groupWidth / 2,
+        top + GROUP_HEADER_HEIGHT / 2,
+        label,
+        palette.text,
+        {weight: 600},
+      ),
+      ...resources.map((name, j) =>
+        svgText(
+          groupLeft(g) + (j + 0.5) * resourceWidth,
+          top + GROUP_HEADER_HEIGHT + LABEL_HEADER_HEIGHT / 2,
+          name,
+          palette.mutedText,
+          {weight: 500},
+        ),
+      ),
+    );
+  });
+
+  body.push(
+    svgLine(
+      left + processWidth,
+      top + GROUP_HEADER_HEIGHT,
+      finishLeft,
+      top + GROUP_HEADER_HEIGHT,
+      palette.border,
+    ),
+    svgLine(
+      left,
+      top + headerHeight,
+      right,
+      top + headerHeight,
+      palette.border,
+    ),
+    ...Array.from({length: groups.length + 1}, (_, g) =>
+      svgLine(groupLeft(g), top, groupLeft(g), bottom, palette.border),
+    ),
+    svgRect(
+      left + 0.5,
+      top + 0.5,
+      tableWidth - 1,
+      tableHeight - 1,
+      `rx="12" fill="none" stroke="${palette.border}"`,
+    ),
+  );
+
+  const availableMiddle = bottom + 16 + FONT_SIZE / 2;
+  body.push(
+    svgText(
+      left,
+      availableMiddle,
+      `Available: ${resources
+        .map((name, j) => `${name} ${available[j]}`)
+        .join(', ')}`,
+      palette.mutedText,
+      {anchor: 'start', weight: 500},
+    ),
+  );
+
+  return svgDocument(
+    right + PADDING,
+    availableMiddle + FONT_SIZE / 2 + PADDING,
+    palette,
+    body,
+  );
+}
+
+export interface SequenceImage {
+  mode: AlgorithmMode;
+  // Process ids in the order they finish, e.g. ['P1', 'P0']
+  safeSequence: string[];
+  processNames?: string[];
+}
+
+/**
+ * Draws the safe sequence (the completion order in detection mode) as a row
+ * of process chips joined by arrows, wrapping long sequences
+ */
+export function renderSequenceImage(
+  sequence: SequenceImage,
+  isDarkMode: boolean,
+): SvgImage {
+  const palette = getImagePalette(isDarkMode);
+  const title =
+    sequence.mode === 'detection' ? 'Completion Order' : 'Safe Sequence';
+  const names = sequence.safeSequence.map((id) =>
+    getProcessNameById(sequence.processNames, id),
+  );
+
+  // Chips are placed left to right, starting a new row when one would
+  // pass MAX_SEQUENCE_WIDTH
+  const chips: Array<{name: string; x: number; row: number; width: number}> =
+    [];
+  let x = 0;
+  let row = 0;
+  names.forEach((name) => {
+    const width = textWidth(name) + 2 * CELL_PADDING;
+    if (x > 0 && x + ARROW_WIDTH + width > MAX_SEQUENCE_WIDTH) {
+      x = 0;
+      row++;
+    }
+    if (x > 0) {
+      x += ARROW_WIDTH;
+    }
+    chips.push({name, x, row, width});
+    x += width;
+  });
+
+  // A row that wraps ends in the arrow to the next one
+  const contentWidth = Math.max(
+    textWidth(title),
+    ...chips.map(
+      (chip, index) =>
+        chip.x +
+        chip.width +
+        (chips[index + 1] && chips[index + 1].row !== chip.row
+          ? ARROW_WIDTH
+          : 0),
+    ),
+  );
+  const rowCount = Math.max(row + 1, 1);
+  const rowTop = (r: number) => PADDING + TITLE_HEIGHT + r * (CHIP_HEIGHT + 12);
+
+  const body: string[] = [
+    svgText(PADDING, PADDING + TITLE_HEIGHT / 2 - 6, title, palette.text, {
+      anchor: 'start',
+      weight: 600,
+    }),
+  ];
+  if (chips.length === 0) {
+    body.push(
+      svgText(
+        PADDING,
+        rowTop(0) + CHIP_HEIGHT / 2,
+        'No process can finish.',
+        palette.mutedText,
+        {anchor: 'start'},
+      ),
+    );
+  }
+  chips.forEach((chip, index) => {
+    const chipLeft = PADDING + chip.x;
+    const middle = rowTop(chip.row) + CHIP_HEIGHT / 2;
+    body.push(
+      svgRect(
+        chipLeft,
+        rowTop(chip.row),
+        chip.width,
+        CHIP_HEIGHT,
+        `rx="${CHIP_HEIGHT / 2}" fill="${palette.trueFill}"`,
+      ),
+      svgText(chipLeft + chip.width / 2, middle, chip.name, palette.trueText, {
+        weight: 500,
+      }),
+    );
+    // The arrow to the next chip, at the end of a row when it wraps
+    if (index < chips.length - 1) {
+      body.push(
+        svgText(
+          chipLeft + chip.width + ARROW_WIDTH / 2,
+          middle,
+          '→',
+          palette.arrow,
+          {
+            weight: 500,
+          },
+        ),
+      );
+    }
+  });
+
+  return svgDocument(
+    PADDING + contentWidth + PADDING,
+    rowTop(rowCount) - 12 + PADDING,
+    palette,
+    body,
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Matrix Text
+ * Matrices as delimited text: CSV files for spreadsheets, and the
+ * tab-separated text spreadsheets put on the clipboard when cells are copied.
+ */
+
+import {ValidationError} from '@/types/bankers-algorithm';
+import {validateMatrixValues} from '@/utils/matrix-utils';
+import {getProcessName, getResourceName} from './system-labels';
+
+export const CSV_FILE_TYPE = 'text/csv';
+export const CSV_FILE_EXTENSION = '.csv';
+
+export interface MatrixTextResult {
+  values?: number[][];
+  errors: ValidationError[];
+}
+
+/**
+ * Splits delimited text into rows of cells. Quoted cells may hold the
+ * delimiter, line breaks and doubled quotes, the way spreadsheets write them
+ */
+export function splitDelimitedText(
+  text: string,
+  delimiter: string,
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let isQuoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (isQuoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else {
+        isQuoted = false;
+      }
+    } else if (char === '"' && cell === '') {
+      isQuoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Whether text holds more than one cell, e.g. a block copied from a
+ * spreadsheet rather than a single value
+ */
+export function isMultiCellText(text: string): boolean {
+  return /[\t\n\r]/.test(text.trim());
+}
+
+const UNIT_COUNT = /^-?\d+(?:\.\d+)?$/;
+
+const isLabel = (cell: string) => cell !== '' && !UNIT_COUNT.test(cell);
+
+/**
+ * Reads a block of unit counts from CSV or tab-separated text. A header
+ * row and a label column, like the ones of exported files, are skipped;
+ * blank cells count as 0 and short rows are padded with zeros
+ * Errors name the row and column of the text they concern
+ */
+export function parseMatrixText(text: string): MatrixTextResult {
+  const delimiter = text.includes('\t') ? '\t' : ',';
+  let rows = splitDelimitedText(text, delimiter)
+    .map((cells, i) => ({
+      cells: cells.map((cell) => cell.trim()),
+      line: i + 1,
+    }))
+    .filter(({cells}) => cells.some(Boolean));
+
+  if (rows.length > 0 && rows[0].cells.filter(Boolean).every(isLabel)) {
+    rows = rows.slice(1);
+  }
+  if (rows.length === 0) {
+    return {errors: [{field: 'text', message: 'There are no values to read'}]};
+  }
+
+  const labelColumns = rows.every(({cells}) => isLabel(cells[0])) ? 1 : 0;
+  const width = Math.max(...rows.map(({cells}) => cells.length - labelColumns));
+  if (width < 1) {
+    return {errors: [{field: 'text', message: 'There are no values to read'}]};
+  }
+
+  const cellAt = (i: number, j: number) =>
+    rows[i].cells[j + labelColumns] ?? '';
+  const values = rows.map((_, i) =>
+    Array.from({length: width}, (_, j) => {
+      const cell = cellAt(i, j);
+      return cell === '' ? 0 : UNIT_COUNT.test(cell) ? Number(cell) : NaN;
+    }),
+  );
+
+  const errors = validateMatrixValues(values).map((error) => {
+    const [i, j] = (error.field.match(/\d+/g) ?? []).map(Number);
+    return {
+      field: `row ${rows[i].line}, column ${j + labelColumns + 1}`,
+      message: Number.isNaN(values[i][j])
+        ? `Value must be a non-negative integer, got "${cellAt(i, j)}"`
+        : error.message,
+    };
+  });
+  return errors.length > 0 ? {errors} : {values, errors};
+}
+
+const escapeCsvCell = (cell: string) =>
+  /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+/**
+ * Writes a matrix as CSV, with a header row of resource names and a
+ * column of process names
+ */
+export function formatMatrixCsv(
+  matrix: number[][],
+  processNames?: string[],
+  resourceNames?: string[],
+): string {
+  const resourceCount = matrix[0]?.length ?? 0;
+  const header = [
+    'Process',
+    ...Array.from({length: resourceCount}, (_, j) =>
+      getResourceName(resourceNames, j),
+    ),
+  ];
+  const rows = matrix.map((row, i) => [
+    getProcessName(processNames, i),
+    ...row.map(String),
+  ]);
+
+  return [header, ...rows]
+    .map((cells) => cells.map(escapeCsvCell).join(','))
+    .join('\n')
+    .concat('\n');
+}
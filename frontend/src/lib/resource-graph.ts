@@ -0,0 +1,163 @@
+/**
+ * Resource-Allocation Graph and Wait-For Graph Construction
+ * Derives graph views of the system from the Allocation and Need/Request matrices
+ */
+
+import {
+  AllocationGraphEdge,
+  WaitForEdge,
+  WaitForGraph,
+} from '@/types/bankers-algorithm';
+
+/**
+ * Builds the resource-allocation graph edges
+ *
+ * - Assignment edge Rj → Pi for every unit of Rj held by Pi
+ * - Claim edge Pi ⇢ Rj for future demand (avoidance, from Need)
+ * - Request edge Pi → Rj for outstanding requests (detection, from Request)
+ *
+ * Edges of finished processes are kept but flagged as released, so the view
+ * can fade them out while stepping through the safety trace.
+ */
+export function buildAllocationGraphEdges(
+  allocation: number[][],
+  demand: number[][],
+  finish: boolean[],
+  demandKind: 'claim' | 'request' = 'claim',
+): AllocationGraphEdge[] {
+  const edges: AllocationGraphEdge[] = [];
+
+  for (let i = 0; i < allocation.length; i++) {
+    const released = finish[i] ?? false;
+
+    for (let j = 0; j < allocation[i].length; j++) {
+      if (allocation[i][j] > 0) {
+        edges.push({
+          process: i,
+          resource: j,
+          units: allocation[i][j],
+          kind: 'assignment',
+          released,
+        });
+      }
+
+      const pending = demand[i]?.[j] ?? 0;
+      if (pending > 0) {
+        edges.push({
+          process: i,
+          resource: j,
+          units: pending,
+          kind: demandKind,
+          released,
+        });
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Collapses the resource-allocation graph into a wait-for graph
+ *
+ * Pi waits for Pk when Pi still demands more of some Rj than is available
+ * and Pk holds units of Rj. With single-instance resources a cycle means
+ * deadlock; with multiple instances it is a necessary condition only.
+ */
+export function buildWaitForGraph(
+  allocation: number[][],
+  demand: number[][],
+  available: number[],
+  finish: boolean[],
+): WaitForGraph {
+  const processCount = allocation.length;
+  const edges: WaitForEdge[] = [];
+
+  for (let i = 0; i < processCount; i++) {
+    for (let k = 0; k < processCount; k++) {
+      if (i === k) continue;
+
+      const resources: number[] = [];
+      for (let j = 0; j < available.length; j++) {
+        const pending = demand[i]?.[j] ?? 0;
+        if (pending > available[j] && allocation[k][j] > 0) {
+          resources.push(j);
+        }
+      }
+
+      if (resources.length > 0) {
+        edges.push({
+          from: i,
+          to: k,
+          resources,
+          released: (finish[i] ?? false) || (finish[k] ?? false),
+        });
+      }
+    }
+  }
+
+  const activeEdges = edges.filter((edge) => !edge.released);
+
+  return {
+    edges,
+    cycles: findCycles(processCount, activeEdges),
+  };
+}
+
+/**
+ * Finds the cyclic parts of a directed graph
+ * Returns strongly connected components with more than one node (Tarjan)
+ */
+export function findCycles(
+  nodeCount: number,
+  edges: Array<{from: number; to: number}>,
+): number[][] {
+  const adjacency: number[][] = Array.from({length: nodeCount}, () => []);
+  edges.forEach((edge) => adjacency[edge.from].push(edge.to));
+
+  const index: number[] = Array(nodeCount).fill(-1);
+  const lowLink: number[] = Array(nodeCount).fill(0);
+  const onStack: boolean[] = Array(nodeCount).fill(false);
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let nextIndex = 0;
+
+  const visit = (node: number) => {
+    index[node] = nextIndex;
+    lowLink[node] = nextIndex;
+    nextIndex++;
+    stack.push(node);
+    onStack[node] = true;
+
+    for (const next of adjacency[node]) {
+      if (index[next] === -1) {
+        visit(next);
+        lowLink[node] = Math.min(lowLink[node], lowLink[next]);
+      } else if (onStack[next]) {
+        lowLink[node] = Math.min(lowLink[node], index[next]);
+      }
+    }
+
+    if (lowLink[node] === index[node]) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack[member] = false;
+        component.push(member);
+      } while (member !== node);
+
+      if (component.length > 1) {
+        components.push(component.sort((a, b) => a - b));
+      }
+    }
+  };
+
+  for (let node = 0; node < nodeCount; node++) {
+    if (index[node] === -1) {
+      visit(node);
+    }
+  }
+
+  return components;
+}
@@ -0,0 +1,264 @@
+/**
+ * Scenario Files
+ * Scenarios as JSON files for sharing, e.g. through a course repository.
+ * A file holds the versioned scenario format:
+ *
+ *   {
+ *     "version": 1,
+ *     "scenario": {
+ *       "processCount": 2,
+ *       "resourceCount": 3,
+ *       "processNames": ["Editor", "Compiler"],   (optional)
+ *       "resourceNames": ["CPU", "Disk", "Printer"], (optional)
+ *       "allocation": [[0, 1, 0], [2, 0, 0]],
+ *       "max": [[7, 5, 3], [3, 2, 2]],
+ *       "available": [3, 3, 2],                  (or "total")
+ *       "request": [[0, 0, 0], [1, 0, 2]]        (optional)
+ *     }
+ *   }
+ *
+ * Errors in an imported file name the line and field they concern.
+ */
+
+import {ValidationError} from '@/types/bankers-algorithm';
+import {BankersAlgorithmCalculator} from './bankers-algorithm-calculator';
+import {
+  createStateFromScenario,
+  parseScenario,
+  Scenario,
+  SCENARIO_VERSION,
+  VersionedScenario,
+} from './scenario';
+
+export const SCENARIO_FILE_TYPE = 'application/json';
+export const SCENARIO_FILE_EXTENSION = '.json';
+
+export interface ScenarioFileError extends ValidationError {
+  // Line of the file the error concerns, when it can be found
+  line?: number;
+}
+
+export interface ScenarioFileResult {
+  scenario?: Scenario;
+  errors: ScenarioFileError[];
+}
+
+class JsonSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+  }
+}
+
+const JSON_LITERAL =
+  /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+
+/**
+ * Line on which every value of a JSON document starts, keyed by its path
+ * (e.g. `scenario.allocation[1]`). Browsers word and place JSON.parse errors
+ * differently, so the text is scanned here to report the same lines in all
+ * of them; a syntax error throws a JsonSyntaxError
+ */
+function scanJsonLines(text: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  let index = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, line);
+  };
+  const unexpected = () =>
+    index < text.length
+      ? `Unexpected ${JSON.stringify(text[index])}`
+      : 'Unexpected end of file';
+
+  const skipWhitespace = () => {
+    while (index < text.length && ' \t\n\r'.includes(text[index])) {
+      if (text[index] === '\n') line++;
+      index++;
+    }
+  };
+
+  const scanString = (): string => {
+    const start = index++;
+    while (index < text.length && text[index] !== '"') {
+      if (text[index] < ' ') {
+        fail('Strings cannot span lines');
+      }
+      index += text[index] === '\\' ? 2 : 1;
+    }
+    if (index >= text.length) {
+      fail('Unterminated string');
+    }
+    index++;
+
+    try {
+      return JSON.parse(text.slice(start, index));
+    } catch {
+      return fail('Invalid escape sequence in string');
+    }
+  };
+
+  const scanValue = (path: string) => {
+    skipWhitespace();
+    lines.set(path, line);
+
+    if (text[index] === '{') {
+      index++;
+      skipWhitespace();
+      if (text[index] === '}') {
+        index++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[index] !== '"') {
+          fail(`${unexpected()}, expected a quoted property name`);
+        }
+        const key = scanString();
+        skipWhitespace();
+        if (text[index] !== ':') {
+          fail(`${unexpected()}, expected ":"`);
+        }
+        index++;
+        scanValue(path ? `${path}.${key}` : key);
+        skipWhitespace();
+        if (text[index] === '}') {
+          index++;
+          return;
+        }
+        if (text[index] !== ',') {
+          fail(`${unexpected()}, expected "," or "}"`);
+        }
+        index++;
+      }
+    }
+
+    if (text[index] === '[') {
+      index++;
+      skipWhitespace();
+      if (text[index] === ']') {
+        index++;
+        return;
+      }
+      for (let item = 0; ; item++) {
+        scanValue(`${path}[${item}]`);
+        skipWhitespace();
+        if (text[index] === ']') {
+          index++;
+          return;
+        }
+        if (text[index] !== ',') {
+          fail(`${unexpected()}, expected "," or "]"`);
+        }
+        index++;
+      }
+    }
+
+    if (text[index] === '"') {
+      scanString();
+      return;
+    }
+
+    JSON_LITERAL.lastIndex = index;
+    if (!JSON_LITERAL.test(text)) {
+      fail(`${unexpected()}, expected a value`);
+    }
+    index = JSON_LITERAL.lastIndex;
+  };
+
+  scanValue('');
+  skipWhitespace();
+  if (index < text.length) {
+    fail(`${unexpected()} after the end of the data`);
+  }
+  return lines;
+}
+
+const TOP_LEVEL_FIELDS = ['version', 'scenario'];
+const LAST_PATH_SEGMENT = /(?:\.[^.[\]]+|\[\d+\])$/;
+
+/**
+ * Line of a field as validation names it (relative to the scenario), or of
+ * its closest enclosing value when the field itself is missing
+ */
+function findFieldLine(
+  lines: Map<string, number>,
+  field: string,
+): number | undefined {
+  if (TOP_LEVEL_FIELDS.includes(field)) {
+    return lines.get(field);
+  }
+
+  for (let path = `scenario.${field}`; ;) {
+    const line = lines.get(path);
+    if (line !== undefined) return line;
+
+    const parent = path.replace(LAST_PATH_SEGMENT, '');
+    if (parent === path) return undefined;
+    path = parent;
+  }
+}
+
+/**
+ * Writes a scenario as a file, with each matrix row on a line of its own
+ */
+export function formatScenarioFile(scenario: Scenario): string {
+  const file: VersionedScenario = {version: SCENARIO_VERSION, scenario};
+  return `${JSON.stringify(file, null, 2).replace(
+    /\[\s+([-\d.,\s]+?)\s+\]/g,
+    (_, items: string) => `[${items.split(/\s*,\s*/).join(', ')}]`,
+  )}\n`;
+}
+
+/**
+ * Reads a scenario file: the JSON syntax, then the scenario format, then the
+ * system it describes as any system is validated
+ */
+export function parseScenarioFile(
+  text: string,
+  calculator: BankersAlgorithmCalculator,
+): ScenarioFileResult {
+  let lines: Map<string, number>;
+  try {
+    lines = scanJsonLines(text);
+  } catch (error) {
+    if (error instanceof JsonSyntaxError) {
+      return {
+        errors: [{field: 'file', message: error.message, line: error.line}],
+      };
+    }
+    throw error;
+  }
+
+  const {scenario, errors} = parseScenario(JSON.parse(text));
+  const systemErrors = scenario
+    ? calculator.validateSystemData(createStateFromScenario(scenario))
+    : errors;
+
+  if (systemErrors.length > 0) {
+    return {
+      errors: systemErrors.map((error) => ({
+        ...error,
+        line: findFieldLine(lines, error.field),
+      })),
+    };
+  }
+  return {scenario, errors: []};
+}
+
+/**
+ * One error as a single line, e.g. `Line 7, allocation[1][2]: …`
+ */
+export function formatScenarioFileError(error: ScenarioFileError): string {
+  const location = [
+    error.line !== undefined && `Line ${error.line}`,
+    error.field !== 'file' && error.field,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return location ? `${location}: ${error.message}` : error.message;
+}
@@ -0,0 +1,279 @@
+/**
+ * Scenario Library
+ * Named scenarios kept in IndexedDB, which has room for many large systems.
+ * Entries (name, size, date) and scenario data are stored apart, so listing
+ * the library never reads the matrices.
+ */
+
+import {
+  parseScenario,
+  Scenario,
+  SCENARIO_VERSION,
+  VersionedScenario,
+} from './scenario';
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  processCount: number;
+  resourceCount: number;
+  savedAt: number;
+}
+
+export class ScenarioLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioLibraryError';
+  }
+}
+
+const DATABASE_NAME = 'bankers-scenario-library';
+const DATABASE_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const DATA_STORE = 'scenarios';
+
+export const MAX_SCENARIO_NAME_LENGTH = 60;
+
+/**
+ * Cleans up a scenario name as entered: surrounding and repeated whitespace
+ * is dropped and long names are cut to MAX_SCENARIO_NAME_LENGTH
+ */
+export function normalizeScenarioName(name: string): string {
+  return name
+    .trim()
+    .replace(/\s+/g, ' ')
+    .slice(0, MAX_SCENARIO_NAME_LENGTH)
+    .trim();
+}
+
+/**
+ * Entries whose name contains every word of the query, in any case
+ */
+export function searchEntries(
+  entries: LibraryEntry[],
+  query: string,
+): LibraryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter((entry) => {
+    const name = entry.name.toLowerCase();
+    return words.every((word) => name.includes(word));
+  });
+}
+
+/**
+ * Name for a copy that no entry has yet: "Name (copy)", "Name (copy 2)", …
+ */
+export function getCopyName(name: string, takenNames: string[]): string {
+  const taken = new Set(takenNames);
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, '');
+  for (let n = 1; ; n++) {
+    const suffix = n === 1 ? ' (copy)' : ` (copy ${n})`;
+    const copyName = `${base.slice(
+      0,
+      MAX_SCENARIO_NAME_LENGTH - suffix.length,
+    )}${suffix}`;
+    if (!taken.has(copyName)) return copyName;
+  }
+}
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionComplete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const getDefaultFactory = (): IDBFactory | null =>
+  typeof indexedDB === 'undefined' ? null : indexedDB;
+
+export class ScenarioLibrary {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly factory: IDBFactory | null = getDefaultFactory(),
+  ) {}
+
+  get isAvailable(): boolean {
+    return this.factory !== null;
+  }
+
+  /**
+   * All entries, most recently saved first
+   */
+  async list(): Promise<LibraryEntry[]> {
+    const database = await this.open();
+    const entries = await requestResult<LibraryEntry[]>(
+      database.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll(),
+    );
+    return entries.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * Reads a scenario back, upgrading it to the current version
+   */
+  async load(id: string): Promise<Scenario> {
+    const database = await this.open();
+    const data = await requestResult<VersionedScenario | undefined>(
+      database.transaction(DATA_STORE).objectStore(DATA_STORE).get(id),
+    );
+    if (!data) {
+      throw new ScenarioLibraryError('The scenario no longer exists');
+    }
+
+    const {scenario, errors} = parseScenario(data);
+    if (!scenario) {
+      throw new ScenarioLibraryError(
+        `The scenario cannot be read: ${errors
+          .map((error) => `${error.field}: ${error.message}`)
+          .join(', ')}`,
+      );
+    }
+    return scenario;
+  }
+
+  /**
+   * Saves a scenario under a name, replacing the one that already has it
+   */
+  async save(name: string, scenario: Scenario): Promise<LibraryEntry> {
+    const entryName = normalizeScenarioName(name);
+    if (!entryName) {
+      throw new ScenarioLibraryError('A scenario needs a name');
+    }
+
+    const existing = (await this.list()).find(
+      (entry) => entry.name === entryName,
+    );
+    const entry: LibraryEntry = {
+      id: existing?.id ?? createId(),
+      name: entryName,
+      processCount: scenario.processCount,
+      resourceCount: scenario.resourceCount,
+      savedAt: Date.now(),
+    };
+    await this.write(entry, {version: SCENARIO_VERSION, scenario});
+    return entry;
+  }
+
+  /**
+   * Saves a copy of a scenario under a new name
+   */
+  async duplicate(id: string): Promise<LibraryEntry> {
+    const entries = await this.list();
+    const original = entries.find((entry) => entry.id === id);
+    if (!original) {
+      throw new ScenarioLibraryError('The scenario no longer exists');
+    }
+
+    const database = await this.open();
+    const data = await requestResult<VersionedScenario | undefined>(
+      database.transaction(DATA_STORE).objectStore(DATA_STORE).get(id),
+    );
+    if (!data) {
+      throw new ScenarioLibraryError('The scenario no longer exists');
+    }
+
+    const copy: LibraryEntry = {
+      ...original,
+      id: createId(),
+      name: getCopyName(
+        original.name,
+        entries.map((entry) => entry.name),
+      ),
+      savedAt: Date.now(),
+    };
+    await this.write(copy, data);
+    return copy;
+  }
+
+  async rename(id: string, name: string): Promise<LibraryEntry> {
+    const entryName = normalizeScenarioName(name);
+    if (!entryName) {
+      throw new ScenarioLibraryError('A scenario needs a name');
+    }
+
+    const entries = await this.list();
+    const entry = entries.find((candidate) => candidate.id === id);
+    if (!entry) {
+      throw new ScenarioLibraryError('The scenario no longer exists');
+    }
+    if (
+      entries.some(
+        (candidate) => candidate.id !== id && candidate.name === entryName,
+      )
+    ) {
+      throw new ScenarioLibraryError(
+        `A scenario named "${entryName}" already exists`,
+      );
+    }
+
+    const renamed = {...entry, name: entryName};
+    const database = await this.open();
+    const transaction = database.transaction(ENTRY_STORE, 'readwrite');
+    transaction.objectStore(ENTRY_STORE).put(renamed);
+    await transactionComplete(transaction);
+    return renamed;
+  }
+
+  async delete(id: string): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(
+      [ENTRY_STORE, DATA_STORE],
+      'readwrite',
+    );
+    transaction.objectStore(ENTRY_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await transactionComplete(transaction);
+  }
+
+  private async write(
+    entry: LibraryEntry,
+    data: VersionedScenario,
+  ): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(
+      [ENTRY_STORE, DATA_STORE],
+      'readwrite',
+    );
+    transaction.objectStore(ENTRY_STORE).put(entry);
+    transaction.objectStore(DATA_STORE).put(data, entry.id);
+    await transactionComplete(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const factory = this.factory;
+      if (!factory) {
+        return Promise.reject(
+          new ScenarioLibraryError(
+            'Saving scenarios is not supported in this browser',
+          ),
+        );
+      }
+
+      const request = factory.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRY_STORE, {keyPath: 'id'});
+        request.result.createObjectStore(DATA_STORE);
+      };
+      this.database = requestResult(request).catch((error) => {
+        // Let a later call try again, e.g. once another tab lets go
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Scenario Links
+ * A scenario in the hash of a link, so an exact system can be shared in chat
+ * without sending a file:
+ *
+ *     #v=1&p=3&r=2&alloc=0.1_2.0_3.0&max=7.5_3.2_9.0&avail=3.3
+ *
+ * Units are joined by "." and rows by "_", which links carry as they are;
+ * names are percent-encoded and joined by ",". A link may also hold the step
+ * of the safety check being inspected, with the options that ordered it, and
+ * a request drafted for a process but not yet made.
+ */
+
+import {
+  ResourceRequest,
+  SafetyOptions,
+  SelectionStrategy,
+  ValidationError,
+} from '@/types/bankers-algorithm';
+import {BankersAlgorithmCalculator} from './bankers-algorithm-calculator';
+import {
+  createStateFromScenario,
+  parseScenario,
+  Scenario,
+  SCENARIO_VERSION,
+} from './scenario';
+
+export interface ScenarioLink {
+  scenario: Scenario;
+  // Step of the safety check trace to show, as ordered by the options
+  step?: number;
+  safetyOptions?: SafetyOptions;
+  // Request entered for a process but not yet made
+  request?: ResourceRequest;
+}
+
+export interface ScenarioLinkResult {
+  link?: ScenarioLink;
+  errors: ValidationError[];
+}
+
+const SELECTION_STRATEGIES: ReadonlyArray<SelectionStrategy> = [
+  'restartFromZero',
+  'roundRobin',
+  'smallestNeed',
+  'largestAllocation',
+  'priority',
+];
+
+const NUMBER = /^\d+$/;
+const PENDING_REQUEST = /^(\d+):(.*)$/;
+
+const writeUnits = (units: number[]) => units.join('.');
+
+const writeRows = (rows: number[][]) => rows.map(writeUnits).join('_');
+
+const writeNames = (names: string[]) => names.map(encodeURIComponent).join(',');
+
+// Anything but a number is kept as it is, for the error to quote it
+const readNumber = (text: string): number | string =>
+  NUMBER.test(text) ? Number(text) : text;
+
+const readUnits = (text: string) =>
+  text === '' ? [] : text.split('.').map(readNumber);
+
+const readRows = (text: string) => text.split('_').map(readUnits);
+
+function readParams(hash: string): Map<string, string> {
+  const params = new Map<string, string>();
+  hash
+    .replace(/^#/, '')
+    .split('&')
+    .forEach((pair) => {
+      const at = pair.indexOf('=');
+      if (at > 0) params.set(pair.slice(0, at), pair.slice(at + 1));
+    });
+  return params;
+}
+
+function readNames(
+  text: string | undefined,
+  field: string,
+  errors: ValidationError[],
+): string[] | undefined {
+  if (text === undefined) return undefined;
+  try {
+    return text.split(',').map(decodeURIComponent);
+  } catch {
+    errors.push({field, message: 'Must be a list of percent-encoded names'});
+    return undefined;
+  }
+}
+
+const isUnitList = (values: unknown[], length: number): values is number[] =>
+  values.length === length &&
+  values.every((value) => Number.isSafeInteger(value));
+
+/**
+ * Writes a scenario, and what is being looked at, as the hash of a link
+ * (without the "#")
+ */
+export function encodeScenarioLink({
+  scenario,
+  step,
+  safetyOptions,
+  request,
+}: ScenarioLink): string {
+  const params: Array<[string, string]> = [
+    ['v', String(SCENARIO_VERSION)],
+    ['p', String(scenario.processCount)],
+    ['r', String(scenario.resourceCount)],
+    ['alloc', writeRows(scenario.allocation)],
+    ['max', writeRows(scenario.max)],
+    ['avail', writeUnits(scenario.available)],
+  ];
+  // Outstanding requests only matter when some are made
+  if (scenario.request?.some((row) => row.some((units) => units > 0))) {
+    params.push(['req', writeRows(scenario.request)]);
+  }
+  if (scenario.processNames) {
+    params.push(['pnames', writeNames(scenario.processNames)]);
+  }
+  if (scenario.resourceNames) {
+    params.push(['rnames', writeNames(scenario.resourceNames)]);
+  }
+
+  if (step !== undefined) {
+    params.push(['step', String(step)]);
+    if (safetyOptions?.strategy) {
+      params.push(['strategy', safetyOptions.strategy]);
+    }
+    if (safetyOptions?.strategy === 'priority' && safetyOptions.priorities) {
+      params.push(['priorities', writeUnits(safetyOptions.priorities)]);
+    }
+  }
+  if (request) {
+    params.push([
+      'pending',
+      `${request.processId}:${writeUnits(request.requestVector)}`,
+    ]);
+  }
+
+  return params.map(([key, value]) => `${key}=${value}`).join('&');
+}
+
+/**
+ * Reads the scenario a link hash holds, or returns what is wrong with it.
+ * Null means the hash holds no scenario at all, e.g. an empty one
+ * The system is validated like one entered by hand
+ */
+export function decodeScenarioLink(
+  hash: string,
+  calculator: BankersAlgorithmCalculator,
+): ScenarioLinkResult | null {
+  const params = readParams(hash);
+  if (!params.has('v')) return null;
+
+  const errors: ValidationError[] = [];
+  const matrixParam = (key: string) => {
+    const text = params.get(key);
+    return text === undefined ? undefined : readRows(text);
+  };
+  const processNames = readNames(params.get('pnames'), 'processNames', errors);
+  const resourceNames = readNames(
+    params.get('rnames'),
+    'resourceNames',
+    errors,
+  );
+  if (errors.length > 0) return {errors};
+
+  const {scenario, errors: scenarioErrors} = parseScenario({
+    version: readNumber(params.get('v') ?? ''),
+    scenario: {
+      processCount: readNumber(params.get('p') ?? ''),
+      resourceCount: readNumber(params.get('r') ?? ''),
+      allocation: matrixParam('alloc'),
+      max: matrixParam('max'),
+      available: readUnits(params.get('avail') ?? ''),
+      ...(params.has('req') && {request: matrixParam('req')}),
+      ...(processNames && {processNames}),
+      ...(resourceNames && {resourceNames}),
+    },
+  });
+  if (!scenario) return {errors: scenarioErrors};
+
+  const systemErrors = calculator.validateSystemData(
+    createStateFromScenario(scenario),
+  );
+  if (systemErrors.length > 0) return {errors: systemErrors};
+
+  const link: ScenarioLink = {scenario};
+  const step = params.get('step');
+  if (step !== undefined) {
+    if (NUMBER.test(step)) {
+      link.step = Number(step);
+    } else {
+      errors.push({field: 'step', message: 'Must be a step number'});
+    }
+  }
+
+  const strategy = params.get('strategy');
+  if (strategy !== undefined) {
+    const known = SELECTION_STRATEGIES.find((name) => name === strategy);
+    if (known) {
+      link.safetyOptions = {strategy: known};
+    } else {
+      errors.push({
+        field: 'strategy',
+        message: `Unknown selection strategy "${strategy}"`,
+      });
+    }
+  }
+  const priorities = params.get('priorities');
+  if (priorities !== undefined && link.safetyOptions) {
+    const values = readUnits(priorities);
+    if (isUnitList(values, scenario.processCount)) {
+      link.safetyOptions.priorities = values;
+    } else {
+      errors.push({
+        field: 'priorities',
+        message: `Must be a list of ${scenario.processCount} numbers`,
+      });
+    }
+  }
+
+  const pending = params.get('pending');
+  if (pending !== undefined) {
+    const [, processId, units] = pending.match(PENDING_REQUEST) ?? [];
+    const requestVector = units === undefined ? [] : readUnits(units);
+    if (processId === undefined || Number(processId) >= scenario.processCount) {
+      errors.push({
+        field: 'pending',
+        message: `Must name a process from 0 to ${scenario.processCount - 1}`,
+      });
+    } else if (!isUnitList(requestVector, scenario.resourceCount)) {
+      errors.push({
+        field: 'pending',
+        message: `Must request a list of ${scenario.resourceCount} numbers`,
+      });
+    } else {
+      link.request = {processId: Number(processId), requestVector};
+    }
+  }
+
+  return errors.length > 0 ? {errors} : {link, errors};
+}
@@ -0,0 +1,44 @@
+/**
+ * Scenario Storage
+ * Keeps the scenario being edited in localStorage, so a reload brings it back.
+ */
+
+import {BankersAlgorithmState} from '@/types/bankers-algorithm';
+import {
+  createStateFromScenario,
+  parseScenario,
+  toVersionedScenario,
+} from './scenario';
+
+const STORAGE_KEY = 'bankers-scenario';
+
+/**
+ * State of the saved scenario, or null when there is none or it cannot be
+ * read (storage unavailable, or data this version does not understand)
+ */
+export function loadSavedScenario(): BankersAlgorithmState | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return null;
+
+    const {scenario} = parseScenario(JSON.parse(saved));
+    return scenario ? createStateFromScenario(scenario) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the inputs of a system; a failed write (e.g. storage full) only
+ * means the next reload starts from the default example
+ */
+export function saveScenario(state: BankersAlgorithmState): void {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify(toVersionedScenario(state)),
+    );
+  } catch {
+    // Nothing to recover; the scenario stays in memory
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Scenario
+ * The inputs that define a system (counts, names, Allocation, Max, Available
+ * and outstanding requests) in a versioned format for storing and sharing.
+ * Need, Total and all results are derived again when a scenario is loaded;
+ * a scenario may give Total in place of Available.
+ */
+
+import {
+  BankersAlgorithmState,
+  ValidationError,
+} from '@/types/bankers-algorithm';
+import {
+  calculateNeedMatrix,
+  calculateTotalResources,
+  createZeroMatrix,
+  matrixColumnSums,
+} from '@/utils/matrix-utils';
+import {normalizeName} from './system-labels';
+
+export const PROCESS_COUNT_LIMITS = {min: 1, max: 500} as const;
+export const RESOURCE_COUNT_LIMITS = {min: 1, max: 50} as const;
+
+export interface Scenario {
+  processCount: number;
+  resourceCount: number;
+  allocation: number[][];
+  max: number[][];
+  available: number[];
+  // Units the system owns; only kept when it was entered or a file gives
+  // it, to be checked and to stay when Allocation changes
+  total?: number[];
+  // Outstanding requests, for deadlock detection
+  request?: number[][];
+  processNames?: string[];
+  resourceNames?: string[];
+}
+
+export interface VersionedScenario {
+  version: number;
+  scenario: Scenario;
+}
+
+export interface ScenarioParseResult {
+  scenario?: Scenario;
+  errors: ValidationError[];
+}
+
+export type ScenarioData = Record<string, unknown>;
+
+// Upgrades scenario data by one version
+export type ScenarioMigration = (data: ScenarioData) => ScenarioData;
+
+/**
+ * Upgrades scenario data of version i + 1 to version i + 2
+ * A change to the format bumps the version by adding its migration here
+ */
+const SCENARIO_MIGRATIONS: ReadonlyArray<ScenarioMigration> = [];
+
+export const SCENARIO_VERSION = SCENARIO_MIGRATIONS.length + 1;
+
+/**
+ * Runs the migrations from `version` on, in order, so data of any earlier
+ * version comes out in the current format
+ */
+export function migrateScenarioData(
+  data: ScenarioData,
+  version: number,
+  migrations: ReadonlyArray<ScenarioMigration> = SCENARIO_MIGRATIONS,
+): ScenarioData {
+  return migrations
+    .slice(version - 1)
+    .reduce((migrated, migrate) => migrate(migrated), data);
+}
+
+/**
+ * Takes the inputs of a system as a scenario of the current version
+ */
+export function toVersionedScenario(
+  state: BankersAlgorithmState,
+): VersionedScenario {
+  return {
+    version: SCENARIO_VERSION,
+    scenario: {
+      processCount: state.processCount,
+      resourceCount: state.resourceCount,
+      allocation: state.allocation,
+      max: state.max,
+      available: state.available,
+      ...(state.isTotalSet && {total: state.total}),
+      ...(state.request && {request: state.request}),
+      ...(state.processNames && {processNames: state.processNames}),
+      ...(state.resourceNames && {resourceNames: state.resourceNames}),
+    },
+  };
+}
+
+/**
+ * Builds the state of a scenario, with no results yet
+ */
+export function createStateFromScenario(
+  scenario: Scenario,
+): BankersAlgorithmState {
+  const {processCount, resourceCount, allocation, max, available} = scenario;
+
+  return {
+    processCount,
+    resourceCount,
+    allocation,
+    max,
+    available,
+    total: scenario.total ?? calculateTotalResources(allocation, available),
+    isTotalSet: scenario.total !== undefined,
+    need: calculateNeedMatrix(max, allocation),
+    request: scenario.request ?? createZeroMatrix(processCount, resourceCount),
+    processNames: scenario.processNames,
+    resourceNames: scenario.resourceNames,
+    finish: Array(processCount).fill(false),
+    safeSequence: [],
+    algorithmSteps: [],
+    isCalculating: false,
+  };
+}
+
+const isRecord = (value: unknown): value is ScenarioData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isUnitCount = (value: unknown): value is number =>
+  Number.isSafeInteger(value) && (value as number) >= 0;
+
+function parseCount(
+  value: unknown,
+  field: string,
+  limits: {min: number; max: number},
+  errors: ValidationError[],
+): number | undefined {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < limits.min ||
+    (value as number) > limits.max
+  ) {
+    errors.push({
+      field,
+      message: `Must be a whole number from ${limits.min} to ${limits.max}`,
+    });
+    return undefined;
+  }
+  return value as number;
+}
+
+function parseVector(
+  value: unknown,
+  field: string,
+  length: number,
+  errors: ValidationError[],
+): number[] | undefined {
+  if (!Array.isArray(value) || value.length !== length) {
+    errors.push({field, message: `Must be a list of ${length} numbers`});
+    return undefined;
+  }
+
+  let isValid = true;
+  value.forEach((units, j) => {
+    if (!isUnitCount(units)) {
+      errors.push({
+        field: `${field}[${j}]`,
+        message: `Value must be a non-negative integer, got ${JSON.stringify(units)}`,
+      });
+      isValid = false;
+    }
+  });
+  return isValid ? value : undefined;
+}
+
+function parseMatrix(
+  value: unknown,
+  field: string,
+  rows: number,
+  cols: number,
+  errors: ValidationError[],
+): number[][] | undefined {
+  if (!Array.isArray(value) || value.length !== rows) {
+    errors.push({field, message: `Must be a list of ${rows} rows`});
+    return undefined;
+  }
+
+  const matrix = value.map((row, i) =>
+    parseVector(row, `${field}[${i}]`, cols, errors),
+  );
+  return matrix.every(Boolean) ? (matrix as number[][]) : undefined;
+}
+
+/**
+ * Available units left once Allocation is taken from Total
+ */
+function deriveAvailable(
+  total: number[] | undefined,
+  allocation: number[][] | undefined,
+  errors: ValidationError[],
+): number[] | undefined {
+  if (!total || !allocation) return undefined;
+
+  const allocated = matrixColumnSums(allocation);
+  let isValid = true;
+  total.forEach((units, j) => {
+    if (units < allocated[j]) {
+      errors.push({
+        field: `total[${j}]`,
+        message: `Total (${units}) is less than the ${allocated[j]} units allocated`,
+      });
+      isValid = false;
+    }
+  });
+  return isValid ? total.map((units, j) => units - allocated[j]) : undefined;
+}
+
+function parseNames(
+  value: unknown,
+  field: string,
+  count: number,
+  errors: ValidationError[],
+): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length !== count ||
+    !value.every((name) => typeof name === 'string')
+  ) {
+    errors.push({field, message: `Must be a list of ${count} names`});
+    return undefined;
+  }
+
+  const names = value.map(normalizeName);
+  return names.some(Boolean) ? names : undefined;
+}
+
+/**
+ * Checks scenario data of any known version and upgrades it to the current
+ * one. Errors name the field they concern, e.g. `allocation[1][2]`
+ */
+export function parseScenario(data: unknown): ScenarioParseResult {
+  const errors: ValidationError[] = [];
+
+  if (!isRecord(data)) {
+    return {errors: [{field: 'scenario', message: 'Must be an object'}]};
+  }
+
+  const {version} = data;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    return {
+      errors: [{field: 'version', message: 'Must be a scenario version'}],
+    };
+  }
+  if ((version as number) > SCENARIO_VERSION) {
+    return {
+      errors: [
+        {
+          field: 'version',
+          message: `Version ${version} is newer than this app supports (${SCENARIO_VERSION})`,
+        },
+      ],
+    };
+  }
+  if (!isRecord(data.scenario)) {
+    return {errors: [{field: 'scenario', message: 'Must be an object'}]};
+  }
+
+  const scenario = migrateScenarioData(data.scenario, version as number);
+
+  const processCount = parseCount(
+    scenario.processCount,
+    'processCount',
+    PROCESS_COUNT_LIMITS,
+    errors,
+  );
+  const resourceCount = parseCount(
+    scenario.resourceCount,
+    'resourceCount',
+    RESOURCE_COUNT_LIMITS,
+    errors,
+  );
+  if (processCount === undefined || resourceCount === undefined) {
+    return {errors};
+  }
+
+  const allocation = parseMatrix(
+    scenario.allocation,
+    'allocation',
+    processCount,
+    resourceCount,
+    errors,
+  );
+  const max = parseMatrix(
+    scenario.max,
+    'max',
+    processCount,
+    resourceCount,
+    errors,
+  );
+  const total =
+    scenario.total === undefined
+      ? undefined
+      : parseVector(scenario.total, 'total', resourceCount, errors);
+  // Either vector defines the other; when both are given, validating the
+  // system checks that they agree
+  const available =
+    scenario.available === undefined && scenario.total !== undefined
+      ? deriveAvailable(total, allocation, errors)
+      : parseVector(scenario.available, 'available', resourceCount, errors);
+  const request =
+    scenario.request === undefined
+      ? undefined
+      : parseMatrix(
+          scenario.request,
+          'request',
+          processCount,
+          resourceCount,
+          errors,
+        );
+  const processNames = parseNames(
+    scenario.processNames,
+    'processNames',
+    processCount,
+    errors,
+  );
+  const resourceNames = parseNames(
+    scenario.resourceNames,
+    'resourceNames',
+    resourceCount,
+    errors,
+  );
+
+  if (errors.length > 0 || !allocation || !max || !available) {
+    return {errors};
+  }
+
+  return {
+    scenario: {
+      processCount,
+      resourceCount,
+      allocation,
+      max,
+      available,
+      ...(total && {total}),
+      ...(request && {request}),
+      ...(processNames && {processNames}),
+      ...(resourceNames && {resourceNames}),
+    },
+    errors,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * State History
+ * Undo and redo for the system as entered. Only the values a user can edit
+ * are kept; results are recomputed by running the analysis again.
+ *
+ * Entries share the matrices of the states they were taken from, which are
+ * never mutated, so each entry costs a handful of references.
+ */
+
+import {BankersAlgorithmState} from '@/types/bankers-algorithm';
+
+const SNAPSHOT_FIELDS = [
+  'processCount',
+  'resourceCount',
+  'allocation',
+  'max',
+  'need',
+  'available',
+  'total',
+  'isTotalSet',
+  'request',
+  'processNames',
+  'resourceNames',
+] as const;
+
+export type SystemSnapshot = Pick<
+  BankersAlgorithmState,
+  (typeof SNAPSHOT_FIELDS)[number]
+>;
+
+// Latest edit, so further edits of the same value can join its entry
+export interface HistoryEdit {
+  key: string;
+  time: number;
+}
+
+export interface StateHistory {
+  past: SystemSnapshot[];
+  future: SystemSnapshot[];
+  lastEdit: HistoryEdit | null;
+}
+
+// Edits of one value this close together (ms) are undone as one
+export const COALESCE_INTERVAL = 1000;
+export const MAX_HISTORY_LENGTH = 100;
+
+export const EMPTY_HISTORY: StateHistory = {
+  past: [],
+  future: [],
+  lastEdit: null,
+};
+
+export function takeSnapshot(state: BankersAlgorithmState): SystemSnapshot {
+  return {
+    processCount: state.processCount,
+    resourceCount: state.resourceCount,
+    allocation: state.allocation,
+    max: state.max,
+    need: state.need,
+    available: state.available,
+    total: state.total,
+    isTotalSet: state.isTotalSet,
+    request: state.request,
+    processNames: state.processNames,
+    resourceNames: state.resourceNames,
+  };
+}
+
+/**
+ * Whether two snapshots hold the same values; updates replace what they
+ * change, so comparing references is enough
+ */
+export function isSameSnapshot(a: SystemSnapshot, b: SystemSnapshot): boolean {
+  return SNAPSHOT_FIELDS.every((field) => a[field] === b[field]);
+}
+
+/**
+ * Records the system as it was before a change. A change that edits the
+ * same value as the last one within COALESCE_INTERVAL joins its entry, so
+ * typing a number or holding a spin button is undone in one step
+ */
+export function recordChange(
+  history: StateHistory,
+  before: SystemSnapshot,
+  edit: HistoryEdit | null,
+): StateHistory {
+  const {lastEdit} = history;
+  const isContinuedEdit =
+    edit !== null &&
+    lastEdit !== null &&
+    edit.key === lastEdit.key &&
+    edit.time - lastEdit.time < COALESCE_INTERVAL;
+
+  return {
+    past: isContinuedEdit
+      ? history.past
+      : [...history.past, before].slice(-MAX_HISTORY_LENGTH),
+    future: [],
+    lastEdit: edit,
+  };
+}
+
+/**
+ * Steps back to the previous entry, keeping `current` for redo
+ * Returns null when there is nothing to undo
+ */
+export function undoChange(
+  history: StateHistory,
+  current: SystemSnapshot,
+): {history: StateHistory; snapshot: SystemSnapshot} | null {
+  const snapshot = history.past[history.past.length - 1];
+  if (!snapshot) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future],
+      lastEdit: null,
+    },
+    snapshot,
+  };
+}
+
+/**
+ * Steps forward to the entry last undone, keeping `current` for undo
+ * Returns null when there is nothing to redo
+ */
+export function redoChange(
+  history: StateHistory,
+  current: SystemSnapshot,
+): {history: StateHistory; snapshot: SystemSnapshot} | null {
+  const [snapshot, ...future] = history.future;
+  if (!snapshot) return null;
+
+  return {
+    history: {
+      past: [...history.past, current],
+      future,
+      lastEdit: null,
+    },
+    snapshot,
+  };
+}
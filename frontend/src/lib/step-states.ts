@@ -0,0 +1,123 @@
+/**
+ * Step States
+ * Derives the system shown at each step of a trace, for step navigation.
+ *
+ * Steps share the matrices and work vectors they were given instead of
+ * copying them, and finish arrays are only built when a step is inspected,
+ * so the build stays linear in the trace even for hundreds of processes.
+ */
+
+import {
+  AlgorithmStep,
+  BankersAlgorithmState,
+  StepState,
+} from '@/types/bankers-algorithm';
+import {getFinishedProcess} from './trace-events';
+
+export interface StepStatesInitialState {
+  available: number[];
+  allocation: number[][];
+  need: number[][];
+  processCount: number;
+}
+
+/**
+ * Finish arrays of one trace, keyed by how many processes had finished.
+ * Processes only ever finish, so that count fixes the whole array and steps
+ * between two finishes share it.
+ */
+class FinishTimeline {
+  private readonly finishOrder: number[] = [];
+  private readonly finished: Set<number> = new Set();
+  private readonly cache = new Map<number, boolean[]>();
+
+  constructor(private readonly processCount: number) {}
+
+  get finishedCount(): number {
+    return this.finishOrder.length;
+  }
+
+  markFinished(processIndex: number): void {
+    // The comparison and the release step both report the same process
+    if (this.finished.has(processIndex)) return;
+    this.finished.add(processIndex);
+    this.finishOrder.push(processIndex);
+  }
+
+  finishAfter(finishedCount: number): boolean[] {
+    let finish = this.cache.get(finishedCount);
+    if (!finish) {
+      finish = new Array(this.processCount).fill(false);
+      for (let k = 0; k < finishedCount; k++) {
+        finish[this.finishOrder[k]] = true;
+      }
+      this.cache.set(finishedCount, finish);
+    }
+    return finish;
+  }
+}
+
+class TraceStepState implements StepState {
+  constructor(
+    readonly work: number[],
+    readonly allocation: number[][],
+    readonly need: number[][],
+    readonly available: number[],
+    private readonly timeline: FinishTimeline,
+    private readonly finishedCount: number,
+  ) {}
+
+  get finish(): boolean[] {
+    return this.timeline.finishAfter(this.finishedCount);
+  }
+}
+
+/**
+ * Builds the state shown at each step
+ *
+ * A granted operation switches to the matrices of `newState` from the step
+ * that applies it onwards.
+ */
+export function buildStepStates(
+  steps: AlgorithmStep[],
+  initialState: StepStatesInitialState,
+  newState?: BankersAlgorithmState,
+  isGrantedRequest?: boolean,
+): StepState[] {
+  const timeline = new FinishTimeline(initialState.processCount);
+
+  let currentWork = initialState.available;
+  let currentAllocation = initialState.allocation;
+  let currentNeed = initialState.need;
+  let currentAvailable = initialState.available;
+
+  return steps.map((step) => {
+    const {event} = step;
+
+    if (event.kind === 'allocate' || event.kind === 'release') {
+      if (isGrantedRequest && newState) {
+        currentAvailable = newState.available;
+        currentAllocation = newState.allocation;
+        currentNeed = newState.need;
+      }
+    }
+
+    if (step.workVector && step.workVector.length > 0) {
+      currentWork = step.workVector;
+    }
+
+    const finishedProcess = getFinishedProcess(event);
+    if (finishedProcess !== undefined) {
+      timeline.markFinished(finishedProcess);
+    }
+
+    return new TraceStepState(
+      currentWork,
+      currentAllocation,
+      currentNeed,
+      currentAvailable,
+      timeline,
+      timeline.finishedCount,
+    );
+  });
+}
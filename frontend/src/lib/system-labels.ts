@@ -0,0 +1,108 @@
+/**
+ * System Labels
+ * Names of processes and resources. A process or resource without a custom
+ * name goes by its default label: P0, P1, … and A–J, then R10, R11, …
+ *
+ * Processes are still identified by their default label internally (safe
+ * sequences, victims), so names only apply when something is shown.
+ */
+
+const RESOURCE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
+
+// Longest custom name, so labels fit the table's fixed columns
+export const MAX_NAME_LENGTH = 24;
+
+export function defaultProcessName(index: number): string {
+  return `P${index}`;
+}
+
+export function defaultResourceName(index: number): string {
+  return RESOURCE_LETTERS[index] || `R${index}`;
+}
+
+/**
+ * Name of process `index`: its custom name, or P{index}
+ */
+export function getProcessName(
+  processNames: string[] | undefined,
+  index: number,
+): string {
+  return processNames?.[index] || defaultProcessName(index);
+}
+
+/**
+ * Name of resource `index`: its custom name, or its letter
+ */
+export function getResourceName(
+  resourceNames: string[] | undefined,
+  index: number,
+): string {
+  return resourceNames?.[index] || defaultResourceName(index);
+}
+
+/**
+ * Index of a process identified by its default label (e.g. 'P3' → 3)
+ */
+export function parseProcessId(id: string): number | undefined {
+  const match = /^P(\d+)$/.exec(id);
+  return match ? parseInt(match[1]) : undefined;
+}
+
+/**
+ * Name of a process identified by its default label (e.g. in a safe sequence)
+ */
+export function getProcessNameById(
+  processNames: string[] | undefined,
+  id: string,
+): string {
+  const index = parseProcessId(id);
+  return index === undefined ? id : getProcessName(processNames, index);
+}
+
+/**
+ * Formats a sequence of process ids with their names
+ */
+export function formatProcessSequence(
+  processNames: string[] | undefined,
+  ids: string[],
+  separator: string = ' → ',
+): string {
+  return ids.map((id) => getProcessNameById(processNames, id)).join(separator);
+}
+
+/**
+ * Cleans up a name as entered: surrounding and repeated whitespace is
+ * dropped and long names are cut to MAX_NAME_LENGTH
+ * An empty result means the default label applies
+ */
+export function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH).trim();
+}
+
+/**
+ * Sets one name, returning the names themselves when it is unchanged
+ * Names are only stored once some process or resource has one
+ */
+export function setName(
+  names: string[] | undefined,
+  index: number,
+  count: number,
+  name: string,
+): string[] | undefined {
+  const normalized = normalizeName(name);
+  if ((names?.[index] || '') === normalized) return names;
+
+  const next = resizeNames(names, count) ?? Array(count).fill('');
+  next[index] = normalized;
+  return next.some(Boolean) ? next : undefined;
+}
+
+/**
+ * Resizes a list of names; new processes or resources have none
+ */
+export function resizeNames(
+  names: string[] | undefined,
+  count: number,
+): string[] | undefined {
+  return names && Array.from({length: count}, (_, i) => names[i] || '');
+}
@@ -0,0 +1,334 @@
+/**
+ * Text Problems
+ * Reads problems written as plain text, the way exams and textbooks lay
+ * them out:
+ *
+ *          Allocation   Max      Available
+ *          A B C        A B C    A B C
+ *     P0   0 1 0        7 5 3    3 3 2
+ *     P1   2 0 0        3 2 2
+ *
+ * Column groups may come in any order. Need is checked against Max −
+ * Allocation (or stands in for Max when Max is missing), and Available or
+ * Total may be given on a line of their own ("Available: 3 3 2"). Whatever
+ * the parser has to guess is reported as a warning.
+ */
+
+import {ValidationError} from '@/types/bankers-algorithm';
+import {defaultProcessName, getResourceName} from './system-labels';
+import {parseScenario, Scenario, SCENARIO_VERSION} from './scenario';
+
+type MatrixGroup = 'allocation' | 'max' | 'need' | 'request';
+type VectorGroup = 'available' | 'total';
+type ColumnGroup = MatrixGroup | VectorGroup;
+
+export interface TextProblemResult {
+  scenario?: Scenario;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+const GROUP_KEYWORDS: ReadonlyArray<[RegExp, ColumnGroup]> = [
+  [/^alloc(ation|ated)?$/, 'allocation'],
+  [/^(max|maximum|claims?)$/, 'max'],
+  [/^needs?$/, 'need'],
+  [/^requests?$/, 'request'],
+  [/^(avail|available|work)$/, 'available'],
+  [/^(total|resources?)$/, 'total'],
+];
+
+const GROUP_LABELS: Record<ColumnGroup, string> = {
+  allocation: 'Allocation',
+  max: 'Max',
+  need: 'Need',
+  request: 'Request',
+  available: 'Available',
+  total: 'Total',
+};
+
+const isVectorGroup = (group: ColumnGroup): group is VectorGroup =>
+  group === 'available' || group === 'total';
+
+const NUMBER = /^\d+$/;
+const PROCESS_LABEL = /^[a-z][a-z_]*\d+$/i;
+const PROCESS_HEADING = /^(process(es)?|proc|pid|threads?)$/i;
+
+interface TextLine {
+  line: number;
+  tokens: string[];
+}
+
+interface ProcessRow {
+  line: number;
+  label?: string;
+  values: number[];
+}
+
+// Punctuation around values, as in "Available = (3, 3, 2)"
+const tokenize = (text: string) =>
+  text
+    .replace(/[,;:=()[\]{}<>|]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+const toGroup = (token: string): ColumnGroup | undefined =>
+  GROUP_KEYWORDS.find(([pattern]) =>
+    pattern.test(token.toLowerCase().replace(/[^a-z]/g, '')),
+  )?.[1];
+
+const lineField = (line: number) => `line ${line}`;
+
+/**
+ * Reads a problem written as plain text into a scenario
+ */
+export function parseTextProblem(text: string): TextProblemResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const fail = (field: string, message: string): TextProblemResult => ({
+    errors: [...errors, {field, message}],
+    warnings,
+  });
+
+  const lines: TextLine[] = text
+    .split(/\r\n|\r|\n/)
+    .map((content, i) => ({line: i + 1, tokens: tokenize(content)}))
+    .filter(({tokens}) => tokens.length > 0);
+
+  // Header: the first line naming matrix groups, with no numbers
+  const headerIndex = lines.findIndex(
+    ({tokens}) =>
+      !tokens.some((token) => NUMBER.test(token)) &&
+      tokens.some((token) => {
+        const group = toGroup(token);
+        return group !== undefined && !isVectorGroup(group);
+      }),
+  );
+  let groups: ColumnGroup[] = ['allocation', 'max', 'available'];
+  if (headerIndex === -1) {
+    warnings.push({
+      field: 'header',
+      message:
+        'No header line names the columns, so they were read as Allocation, Max, Available',
+    });
+  } else {
+    groups = [];
+    lines[headerIndex].tokens.forEach((token) => {
+      const group = toGroup(token);
+      if (group && !groups.includes(group)) groups.push(group);
+    });
+  }
+  const matrixGroups = groups.filter(
+    (group): group is MatrixGroup => !isVectorGroup(group),
+  );
+  const rowVectorGroups = groups.filter(isVectorGroup);
+
+  // Process rows, vectors on lines of their own and resource labels
+  const rows: ProcessRow[] = [];
+  const vectorLines = new Map<VectorGroup, TextLine & {values: number[]}>();
+  let resourceLabels: string[] | undefined;
+
+  lines.forEach((textLine, index) => {
+    if (index === headerIndex) return;
+    const {line, tokens} = textLine;
+    const numbers = tokens.filter((token) => NUMBER.test(token));
+    const firstGroup = toGroup(tokens[0]);
+
+    // Vectors may be stated anywhere, rows only follow the header
+    if (firstGroup && isVectorGroup(firstGroup) && numbers.length > 0) {
+      vectorLines.set(firstGroup, {...textLine, values: numbers.map(Number)});
+    } else if (index < headerIndex) {
+      return;
+    } else if (numbers.length === tokens.length) {
+      rows.push({line, values: numbers.map(Number)});
+    } else if (
+      PROCESS_LABEL.test(tokens[0]) &&
+      numbers.length === tokens.length - 1
+    ) {
+      rows.push({line, label: tokens[0], values: numbers.map(Number)});
+    } else if (
+      index === headerIndex + 1 &&
+      numbers.length === 0 &&
+      !resourceLabels
+    ) {
+      resourceLabels = tokens.filter(
+        (token) => !toGroup(token) && !PROCESS_HEADING.test(token),
+      );
+    } else if (numbers.length > 0) {
+      warnings.push({
+        field: lineField(line),
+        message: `Skipped "${tokens.join(' ')}", which is not a row of numbers`,
+      });
+    }
+  });
+
+  if (!matrixGroups.includes('allocation')) {
+    return fail('header', 'The problem needs an Allocation column group');
+  }
+  const hasClaims =
+    matrixGroups.includes('max') || matrixGroups.includes('need');
+  if (!hasClaims && !matrixGroups.includes('request')) {
+    return fail('header', 'The problem needs a Max or a Need column group');
+  }
+  if (rows.length === 0) {
+    return fail('text', 'No process rows were found, e.g. "P0 0 1 0 7 5 3"');
+  }
+
+  // Resource count: from the resource labels, the rows after the first
+  // (which carry no vectors), a vector line, and last the first row
+  const k = matrixGroups.length;
+  const v = rowVectorGroups.length;
+  const candidates: number[] = [];
+  if (resourceLabels && resourceLabels.length > 0) {
+    // Labels are written once or repeated for every group: "A B C A B C"
+    const labels = resourceLabels;
+    const period = labels.findIndex(
+      (_, p) => p > 0 && labels.every((label, j) => label === labels[j % p]),
+    );
+    candidates.push(period === -1 ? labels.length : period);
+    resourceLabels = labels.slice(0, candidates[0]);
+  }
+  const laterLengths = new Set(rows.slice(1).map((row) => row.values.length));
+  if (laterLengths.size === 1) {
+    const [length] = laterLengths;
+    if (length % k === 0) candidates.push(length / k);
+  }
+  vectorLines.forEach(({values}) => candidates.push(values.length));
+
+  let resourceCount = candidates.find((count) => count > 0);
+  const firstLength = rows[0].values.length;
+  if (resourceCount === undefined) {
+    const withVectors =
+      v > 0 && firstLength % (k + v) === 0 ? firstLength / (k + v) : undefined;
+    const withoutVectors = firstLength % k === 0 ? firstLength / k : undefined;
+    resourceCount = withVectors ?? withoutVectors;
+
+    if (withVectors !== undefined && withoutVectors !== undefined) {
+      warnings.push({
+        field: lineField(rows[0].line),
+        message: `The ${firstLength} numbers could be ${withVectors} or ${withoutVectors} resources; read as ${withVectors}`,
+      });
+    }
+  }
+  if (!resourceCount) {
+    return fail(
+      lineField(rows[0].line),
+      `${firstLength} numbers cannot be split into the ${groups
+        .map((group) => GROUP_LABELS[group])
+        .join(', ')} column groups`,
+    );
+  }
+  if (new Set(candidates).size > 1) {
+    warnings.push({
+      field: 'resourceCount',
+      message: `The lines disagree on the number of resources; read as ${resourceCount}`,
+    });
+  }
+
+  // Split every row into its column groups
+  const matrices: Record<MatrixGroup, number[][]> = {
+    allocation: [],
+    max: [],
+    need: [],
+    request: [],
+  };
+  const vectors: Partial<Record<VectorGroup, number[]>> = {};
+  const m = resourceCount;
+
+  rows.forEach(({line, values}, i) => {
+    const rowGroups =
+      i === 0 && values.length === (k + v) * m ? groups : matrixGroups;
+    if (values.length !== rowGroups.length * m) {
+      errors.push({
+        field: lineField(line),
+        message: `Expected ${k * m} numbers (${matrixGroups
+          .map((group) => GROUP_LABELS[group])
+          .join(', ')} for ${m} resources), found ${values.length}`,
+      });
+      return;
+    }
+    rowGroups.forEach((group, g) => {
+      const slice = values.slice(g * m, (g + 1) * m);
+      if (isVectorGroup(group)) {
+        vectors[group] = slice;
+      } else {
+        matrices[group][i] = slice;
+      }
+    });
+  });
+
+  vectorLines.forEach(({line, values}, group) => {
+    if (values.length !== m) {
+      errors.push({
+        field: lineField(line),
+        message: `${GROUP_LABELS[group]} needs ${m} numbers, found ${values.length}`,
+      });
+    } else {
+      vectors[group] = values;
+    }
+  });
+  if (errors.length > 0) {
+    return {errors, warnings};
+  }
+
+  // Max from Need when only Need is given; otherwise Need is only checked
+  const {allocation, need, request} = matrices;
+  let {max} = matrices;
+  if (!hasClaims) {
+    max = allocation;
+    warnings.push({
+      field: 'max',
+      message:
+        'No Max or Need was given, so each process is taken to claim only what it holds',
+    });
+  } else if (!matrixGroups.includes('max')) {
+    max = allocation.map((row, i) => row.map((units, j) => units + need[i][j]));
+  } else if (matrixGroups.includes('need')) {
+    rows.forEach(({line}, i) => {
+      if (need[i].some((units, j) => units !== max[i][j] - allocation[i][j])) {
+        warnings.push({
+          field: lineField(line),
+          message:
+            'Need does not equal Max − Allocation; Need is worked out from them instead',
+        });
+      }
+    });
+  }
+
+  if (!vectors.available && !vectors.total) {
+    warnings.push({
+      field: 'available',
+      message: 'No Available resources were given, so none are available',
+    });
+  }
+
+  // Labels only become names when they differ from the default ones
+  const labels = rows.map(({label}, i) => label ?? defaultProcessName(i));
+  const processNames = labels.some(
+    (label, i) => label !== defaultProcessName(i),
+  )
+    ? labels
+    : undefined;
+  const resourceNames =
+    resourceLabels?.length === m &&
+    resourceLabels.some((label, j) => label !== getResourceName(undefined, j))
+      ? resourceLabels
+      : undefined;
+
+  const {scenario, errors: scenarioErrors} = parseScenario({
+    version: SCENARIO_VERSION,
+    scenario: {
+      processCount: rows.length,
+      resourceCount: m,
+      allocation,
+      max,
+      ...(vectors.available || !vectors.total
+        ? {available: vectors.available ?? Array(m).fill(0)}
+        : {}),
+      ...(vectors.total && {total: vectors.total}),
+      ...(matrixGroups.includes('request') && {request}),
+      ...(processNames && {processNames}),
+      ...(resourceNames && {resourceNames}),
+    },
+  });
+  return {scenario, errors: scenarioErrors, warnings};
+}
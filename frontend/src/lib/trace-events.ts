@@ -0,0 +1,256 @@
+/**
+ * Trace Events
+ * Steps of a trace record what happened as typed events; the text shown for
+ * a step is rendered from its event, so nothing has to parse descriptions.
+ */
+
+import {
+  AlgorithmStep,
+  AlgorithmStepType,
+  OperationCheck,
+  SelectionStrategy,
+  TraceEvent,
+} from '@/types/bankers-algorithm';
+import {defaultProcessName, getProcessName} from './system-labels';
+
+// How each selection strategy orders the scan, shown in the trace
+const SELECTION_STRATEGY_DESCRIPTIONS: Record<SelectionStrategy, string> = {
+  restartFromZero: 'lowest index first, restarting from P0',
+  roundRobin: 'round-robin, continuing after the last finished process',
+  smallestNeed: 'smallest remaining need first',
+  largestAllocation: 'largest allocation released first',
+  priority: 'highest priority first',
+};
+
+const OPERATION_CHECK_LABELS: Record<
+  OperationCheck,
+  (process: string) => string
+> = {
+  requestNeed: (p) => `Request[${p}] ≤ Need[${p}]`,
+  requestAvailable: (p) => `Request[${p}] ≤ Available`,
+  releaseAllocation: (p) => `Release[${p}] ≤ Allocation[${p}]`,
+  maxTotal: (p) => `Max[${p}] ≤ Total`,
+};
+
+const formatVector = (vector: number[]): string => `(${vector.join(', ')})`;
+
+/**
+ * Renders the description of a trace event, naming processes by
+ * `processNames` (default labels when omitted)
+ */
+export function describeTraceEvent(
+  event: TraceEvent,
+  processNames?: string[],
+): string {
+  const processName = (process: number) =>
+    getProcessName(processNames, process);
+  const formatProcesses = (processes: number[], separator: string) =>
+    processes.map(processName).join(separator);
+
+  switch (event.kind) {
+    case 'init':
+      return event.algorithm === 'detection' ||
+        event.strategy === 'restartFromZero'
+        ? 'init: work = available'
+        : `init: work = available\nselection: ${SELECTION_STRATEGY_DESCRIPTIONS[event.strategy]}`;
+
+    case 'idle': {
+      const p = processName(event.process);
+      return `allocation[${p}] = 0: finish[${p}] = true`;
+    }
+
+    case 'compare': {
+      const key = event.selectionKey
+        ? `\n${event.selectionKey.label}: ${event.selectionKey.value}`
+        : '';
+      return `${event.demand}[${processName(event.process)}] ≤ work:\n${formatVector(
+        event.vector,
+      )} ${event.satisfied ? '≤' : '≰'} ${formatVector(event.work)}${key}`;
+    }
+
+    case 'finish':
+      return `work = work + allocation[${processName(
+        event.process,
+      )}]: ${formatVector(event.work)} + ${formatVector(event.allocation)}`;
+
+    case 'blocked':
+      return `No more processes can finish. Remaining processes ${formatProcesses(
+        event.processes,
+        ', ',
+      )} cannot satisfy their ${
+        event.demand === 'need' ? 'needs' : 'requests'
+      } with current available resources.`;
+
+    case 'safetyResult':
+      return event.isSafe
+        ? `All processes can finish safely. Safe sequence: ${formatProcesses(
+            event.sequence,
+            ' → ',
+          )}`
+        : `System is UNSAFE • Processes ${formatProcesses(
+            event.unfinished,
+            ', ',
+          )} cannot finish (potential deadlock)`;
+
+    case 'detectionResult':
+      return event.isDeadlocked
+        ? `Deadlock DETECTED • Processes ${formatProcesses(
+            event.deadlocked,
+            ', ',
+          )} are deadlocked`
+        : `No deadlock • All processes can complete: ${formatProcesses(
+            event.sequence,
+            ' → ',
+          )}`;
+
+    case 'check':
+      return `Check if ${OPERATION_CHECK_LABELS[event.check](
+        processName(event.process),
+      )}: ${formatVector(event.vector)} ${
+        event.satisfied ? '≤' : '≰'
+      } ${formatVector(event.bound)}`;
+
+    case 'allocate':
+    case 'release': {
+      const p = processName(event.process);
+      const [title, toAvailable, toAllocation] =
+        event.kind === 'allocate'
+          ? ['Temporarily allocate resources', '-', '+']
+          : ['Release resources', '+', '-'];
+      const vector = formatVector(event.vector);
+      return `${title}:\nAvailable = ${formatVector(
+        event.available,
+      )} ${toAvailable} ${vector} = ${formatVector(
+        event.newAvailable,
+      )}\nAllocation[${p}] = ${formatVector(
+        event.allocation,
+      )} ${toAllocation} ${vector} = ${formatVector(
+        event.newAllocation,
+      )}\nNeed[${p}] = ${formatVector(
+        event.need,
+      )} ${toAvailable} ${vector} = ${formatVector(event.newNeed)}`;
+    }
+
+    case 'admit': {
+      const p = processName(event.process);
+      return `Admit process ${p}:\nAllocation[${p}] = ${formatVector(
+        event.allocation,
+      )}\nNeed[${p}] = Max[${p}] = ${formatVector(event.need)}`;
+    }
+
+    case 'retire': {
+      // Renumbering is about row positions, so it keeps the default labels
+      const {process, processCount, name} = event;
+      const renumbered =
+        process === processCount - 2
+          ? `\nP${process + 1} becomes P${process}`
+          : process < processCount - 2
+            ? `\nP${process + 1}–P${processCount - 1} become P${process}–P${
+                processCount - 2
+              }`
+            : '';
+      return `Retire process ${name}:\nAvailable = ${formatVector(
+        event.available,
+      )} + ${formatVector(event.released)} = ${formatVector(
+        event.newAvailable,
+      )}\nRemove ${name} from Allocation, Max and Need${renumbered}`;
+    }
+
+    case 'runSafety':
+      return `Run Safety Algorithm: System is ${
+        event.isSafe ? 'SAFE' : 'UNSAFE'
+      }`;
+  }
+}
+
+/**
+ * Classifies a trace event into the coarse step types
+ */
+export function getTraceStepType(event: TraceEvent): AlgorithmStepType {
+  switch (event.kind) {
+    case 'init':
+      return 'initialization';
+    case 'idle':
+    case 'compare':
+    case 'check':
+      return 'process_check';
+    case 'finish':
+    case 'allocate':
+    case 'release':
+    case 'admit':
+    case 'retire':
+      return 'resource_allocation';
+    case 'blocked':
+      return 'failure';
+    case 'safetyResult':
+    case 'runSafety':
+      return event.isSafe ? 'completion' : 'failure';
+    case 'detectionResult':
+      return event.isDeadlocked ? 'failure' : 'completion';
+  }
+}
+
+/**
+ * Process a step reports on: the one compared, finished or found idle
+ */
+export function getTraceEventProcess(event: TraceEvent): number | undefined {
+  return event.kind === 'compare' ||
+    event.kind === 'finish' ||
+    event.kind === 'idle'
+    ? event.process
+    : undefined;
+}
+
+/**
+ * Process a step shows as finished: the comparison that lets it finish and
+ * the release that follows both report it
+ */
+export function getFinishedProcess(event: TraceEvent): number | undefined {
+  return (event.kind === 'compare' && event.satisfied) ||
+    event.kind === 'finish' ||
+    event.kind === 'idle'
+    ? event.process
+    : undefined;
+}
+
+/**
+ * Outcome a step reports, shown as a boolean badge
+ */
+function getTraceEventOutcome(event: TraceEvent): boolean | undefined {
+  switch (event.kind) {
+    case 'compare':
+    case 'check':
+      return event.satisfied;
+    case 'finish':
+    case 'idle':
+      return true;
+    case 'runSafety':
+      return event.isSafe;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Creates a trace step, rendering its description from the event
+ */
+export function createTraceStep(
+  stepNumber: number,
+  event: TraceEvent,
+  workVector: number[],
+  isHighlighted: boolean,
+): AlgorithmStep {
+  const process = getTraceEventProcess(event);
+  const canFinish = getTraceEventOutcome(event);
+
+  return {
+    stepNumber,
+    description: describeTraceEvent(event),
+    workVector,
+    ...(process !== undefined && {processChecked: defaultProcessName(process)}),
+    ...(canFinish !== undefined && {canFinish}),
+    isHighlighted,
+    stepType: getTraceStepType(event),
+    event,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Trace Export
+ * Writes a trace as a Markdown or LaTeX document for homework and design
+ * docs: the matrices the trace starts from as tables, the checks of an
+ * operation, every step with its work vector, and the verdict.
+ */
+
+import {
+  AlgorithmMode,
+  AlgorithmStep,
+  OperationCheck,
+  TraceEvent,
+} from '@/types/bankers-algorithm';
+import {getProcessName, getResourceName} from './system-labels';
+import {describeTraceEvent} from './trace-events';
+
+export const MARKDOWN_FILE_TYPE = 'text/markdown';
+export const MARKDOWN_FILE_EXTENSION = '.md';
+export const LATEX_FILE_TYPE = 'application/x-tex';
+export const LATEX_FILE_EXTENSION = '.tex';
+
+export interface TraceExport {
+  mode: AlgorithmMode;
+  steps: AlgorithmStep[];
+  // System the trace starts from, e.g. before a request is granted
+  system: {
+    available: number[];
+    allocation: number[][];
+    need: number[][];
+    request?: number[][];
+  };
+  processNames?: string[];
+  resourceNames?: string[];
+}
+
+type CheckOutcome = 'passed' | 'failed' | 'not reached';
+
+// What both documents are written from
+interface TraceOutline {
+  title: string;
+  processes: string[];
+  resources: string[];
+  matrices: Array<{name: string; rows: number[][]}>;
+  available: number[];
+  checks: Array<{text: string; outcome: CheckOutcome}>;
+  steps: Array<{number: string; text: string; work: number[]}>;
+  verdict: string[];
+}
+
+type Operation = 'Request' | 'Release' | 'Admission' | 'Retirement';
+
+// Operations are told apart by the first step of their trace
+const CHECK_OPERATIONS: Record<OperationCheck, Operation> = {
+  requestNeed: 'Request',
+  requestAvailable: 'Request',
+  releaseAllocation: 'Release',
+  maxTotal: 'Admission',
+};
+
+const OPERATION_TITLES: Record<Operation, string> = {
+  Request: 'Resource Request Trace',
+  Release: 'Resource Release Trace',
+  Admission: 'Process Admission Trace',
+  Retirement: 'Process Retirement Trace',
+};
+
+// The checks of a request, in order; a failed one ends the trace early
+const REQUEST_CHECK_TITLES = [
+  (p: string) => `Check if Request[${p}] ≤ Need[${p}]`,
+  (p: string) => `Check if Request[${p}] ≤ Available`,
+  () => 'Run Safety Algorithm',
+];
+
+const isCheckEvent = (event: TraceEvent) =>
+  event.kind === 'check' || event.kind === 'runSafety';
+
+function getOperation(steps: AlgorithmStep[]): Operation | undefined {
+  const first = steps[0]?.event;
+  return first?.kind === 'check'
+    ? CHECK_OPERATIONS[first.check]
+    : first?.kind === 'retire'
+      ? 'Retirement'
+      : undefined;
+}
+
+function outlineTrace({
+  mode,
+  steps,
+  system,
+  processNames,
+  resourceNames,
+}: TraceExport): TraceOutline {
+  const {allocation, need, available} = system;
+  const describe = (event: TraceEvent) =>
+    describeTraceEvent(event, processNames);
+  const operation = getOperation(steps);
+
+  const title = operation
+    ? OPERATION_TITLES[operation]
+    : mode === 'detection'
+      ? 'Deadlock Detection Trace'
+      : 'Safety Algorithm Trace';
+
+  const matrices =
+    mode === 'detection'
+      ? [
+          {name: 'Allocation', rows: allocation},
+          {name: 'Request', rows: system.request ?? []},
+        ]
+      : [
+          {name: 'Allocation', rows: allocation},
+          {
+            name: 'Max',
+            rows: need.map((row, i) =>
+              row.map((units, j) => units + allocation[i][j]),
+            ),
+          },
+          {name: 'Need', rows: need},
+        ];
+
+  const checks: TraceOutline['checks'] = steps
+    .filter(({event}) => isCheckEvent(event))
+    .map(({event}) => ({
+      text: describe(event),
+      outcome:
+        event.kind === 'check'
+          ? event.satisfied
+            ? 'passed'
+            : 'failed'
+          : event.kind === 'runSafety' && event.isSafe
+            ? 'passed'
+            : 'failed',
+    }));
+  const first = steps[0]?.event;
+  if (first?.kind === 'check' && first.check === 'requestNeed') {
+    const p = getProcessName(processNames, first.process);
+    REQUEST_CHECK_TITLES.slice(checks.length).forEach((checkTitle) =>
+      checks.push({text: checkTitle(p), outcome: 'not reached'}),
+    );
+  }
+
+  // An operation that is checked goes through when every check passes
+  const verdict: string[] = [];
+  if (first?.kind === 'check') {
+    const isGranted = checks.every(({outcome}) => outcome === 'passed');
+    verdict.push(`${operation} ${isGranted ? 'granted' : 'denied'}.`);
+  }
+  const result = [...steps]
+    .reverse()
+    .find(
+      ({event}) =>
+        event.kind === 'safetyResult' || event.kind === 'detectionResult',
+    );
+  if (result) {
+    verdict.push(describe(result.event));
+  }
+
+  return {
+    title,
+    processes: allocation.map((_, i) => getProcessName(processNames, i)),
+    resources: available.map((_, j) => getResourceName(resourceNames, j)),
+    matrices,
+    available,
+    checks,
+    steps: steps.map((step) => ({
+      number: String(step.stepNumber),
+      text: describe(step.event),
+      work: step.workVector,
+    })),
+    verdict,
+  };
+}
+
+const formatVector = (vector: number[]) => `(${vector.join(', ')})`;
+
+// Characters Markdown would read as formatting
+const escapeMarkdown = (text: string) =>
+  text.replace(/[\\`*_[\]|<>#]/g, (char) => `\\${char}`);
+
+const markdownCell = (text: string) =>
+  escapeMarkdown(text).replace(/\n/g, '<br>');
+
+const markdownRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+/**
+ * Writes a trace as Markdown; vectors are typeset as inline math
+ */
+export function formatTraceMarkdown(trace: TraceExport): string {
+  const outline = outlineTrace(trace);
+  const lines: string[] = [`# ${outline.title}`, '', '## System', ''];
+
+  outline.matrices.forEach(({name, rows}) => {
+    lines.push(
+      `**${name}**`,
+      '',
+      markdownRow(['Process', ...outline.resources.map(markdownCell)]),
+      markdownRow(['---', ...outline.resources.map(() => '---:')]),
+      ...rows.map((row, i) =>
+        markdownRow([markdownCell(outline.processes[i]), ...row.map(String)]),
+      ),
+      '',
+    );
+  });
+  lines.push(`**Available:** $${formatVector(outline.available)}$`, '');
+
+  if (outline.checks.length > 0) {
+    lines.push('## Checks', '');
+    outline.checks.forEach(({text, outcome}, i) =>
+      lines.push(`${i + 1}. ${markdownCell(text)} — ${outcome}`),
+    );
+    lines.push('');
+  }
+
+  lines.push(
+    '## Trace',
+    '',
+    markdownRow(['Step', 'Event', 'Work']),
+    markdownRow(['---:', '---', '---']),
+    ...outline.steps.map(({number, text, work}) =>
+      markdownRow([number, markdownCell(text), `$${formatVector(work)}$`]),
+    ),
+    '',
+  );
+
+  if (outline.verdict.length > 0) {
+    lines.push(
+      '## Result',
+      '',
+      ...outline.verdict.flatMap((line) => [markdownCell(line), '']),
+    );
+  }
+  return lines.join('\n');
+}
+
+const LATEX_REPLACEMENTS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  $: '\\$',
+  '#': '\\#',
+  _: '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+  '≤': '$\\leq$',
+  '≰': '$\\nleq$',
+  '→': '$\\rightarrow$',
+  '•': '\\textbullet{}',
+  '–': '--',
+  '−': '$-$',
+};
+
+const escapeLatex = (text: string) =>
+  text.replace(/[\\&%$#_{}~^≤≰→•–−]/g, (char) => LATEX_REPLACEMENTS[char]);
+
+const latexCell = (text: string) =>
+  escapeLatex(text).replace(/\n/g, ' \\newline ');
+
+const latexRow = (cells: string[]) => `${cells.join(' & ')} \\\\`;
+
+const latexVector = (vector: number[]) => `$${formatVector(vector)}$`;
+
+/**
+ * Writes a trace as a LaTeX document with booktabs tables; long tables
+ * break across pages
+ */
+export function formatTraceLatex(trace: TraceExport): string {
+  const outline = outlineTrace(trace);
+  const lines: string[] = [
+    '\\documentclass{article}',
+    '\\usepackage[T1]{fontenc}',
+    '\\usepackage{amssymb}',
+    '\\usepackage{booktabs}',
+    '\\usepackage{longtable}',
+    '',
+    '\\begin{document}',
+    '',
+    `\\section*{${escapeLatex(outline.title)}}`,
+    '',
+    '\\subsection*{System}',
+    '',
+  ];
+
+  outline.matrices.forEach(({name, rows}) => {
+    lines.push(
+      `\\begin{longtable}{l${'r'.repeat(outline.resources.length)}}`,
+      `\\multicolumn{${outline.resources.length + 1}}{l}{\\textbf{${name}}} \\\\`,
+      '\\toprule',
+      latexRow(['Process', ...outline.resources.map(latexCell)]),
+      '\\midrule',
+      ...rows.map((row, i) =>
+        latexRow([latexCell(outline.processes[i]), ...row.map(String)]),
+      ),
+      '\\bottomrule',
+      '\\end{longtable}',
+      '',
+    );
+  });
+  lines.push(
+    `\\noindent\\textbf{Available:} ${latexVector(outline.available)}`,
+    '',
+  );
+
+  if (outline.checks.length > 0) {
+    lines.push('\\subsection*{Checks}', '', '\\begin{enumerate}');
+    outline.checks.forEach(({text, outcome}) =>
+      lines.push(`  \\item ${latexCell(text)} \\hfill \\emph{${outcome}}`),
+    );
+    lines.push('\\end{enumerate}', '');
+  }
+
+  lines.push(
+    '\\subsection*{Trace}',
+    '',
+    '\\begin{longtable}{r p{0.55\\linewidth} l}',
+    '\\toprule',
+    latexRow(['Step', 'Event', 'Work']),
+    '\\midrule',
+    '\\endhead',
+    ...outline.steps.map(({number, text, work}) =>
+      latexRow([escapeLatex(number), latexCell(text), latexVector(work)]),
+    ),
+    '\\bottomrule',
+    '\\end{longtable}',
+    '',
+  );
+
+  if (outline.verdict.length > 0) {
+    lines.push(
+      '\\subsection*{Result}',
+      '',
+      ...outline.verdict.map((line) => `${latexCell(line)}\n`),
+    );
+  }
+  lines.push('\\end{document}', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,53 @@
+/**
+ * Virtual Window
+ * Which items of a fixed-size list are in view, so large matrices only
+ * render the rows and columns that can be seen
+ */
+
+export interface VisibleRange {
+  // First rendered item
+  start: number;
+  // One past the last rendered item
+  end: number;
+}
+
+/**
+ * Range of items of `itemSize` overlapping the viewport, widened by
+ * `overscan` items on each side so fast scrolling does not show gaps
+ */
+export function getVisibleRange(
+  scrollOffset: number,
+  viewportSize: number,
+  itemSize: number,
+  itemCount: number,
+  overscan: number = 0,
+): VisibleRange {
+  if (itemCount <= 0 || itemSize <= 0) {
+    return {start: 0, end: 0};
+  }
+
+  const firstVisible = Math.floor(Math.max(0, scrollOffset) / itemSize);
+  const lastVisible = Math.ceil(
+    (Math.max(0, scrollOffset) + Math.max(0, viewportSize)) / itemSize,
+  );
+
+  const start = Math.min(itemCount, Math.max(0, firstVisible - overscan));
+  const end = Math.min(itemCount, Math.max(start, lastVisible + overscan));
+
+  return {start, end};
+}
+
+/**
+ * Intersection of a range with the items [offset, offset + count), shifted
+ * so it indexes that slice (e.g. one matrix within a row of matrices)
+ */
+export function sliceRange(
+  range: VisibleRange,
+  offset: number,
+  count: number,
+): VisibleRange {
+  const start = Math.min(count, Math.max(0, range.start - offset));
+  const end = Math.min(count, Math.max(start, range.end - offset));
+
+  return {start, end};
+}
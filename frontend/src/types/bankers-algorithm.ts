@@ -9,6 +9,10 @@ export interface BankersAlgorithmState {
   allocation: number[][];
   max: number[][];
   available: number[];
+  total: number[];
+  // Total was entered or loaded, so it stays when Allocation changes and
+  // Available follows; otherwise Total follows Available
+  isTotalSet?: boolean;
   need: number[][];
   finish: boolean[];
   safeSequence: string[];
@@ -16,29 +20,163 @@ export interface BankersAlgorithmState {
   isCalculating: boolean;
   isSafe?: boolean;
   lastUpdated?: Date;
+  request?: number[][];
+  // Custom names, '' where the default label (P0…, A…) applies
+  processNames?: string[];
+  resourceNames?: string[];
 }
 
+export type AlgorithmMode = 'avoidance' | 'detection';
+
+// Matrices the user enters; Need is derived from them
+export type EditableMatrix = 'allocation' | 'max' | 'request';
+
+export interface DeadlockDetectionState {
+  processCount: number;
+  resourceCount: number;
+  allocation: number[][];
+  request: number[][];
+  available: number[];
+}
+
+export type AlgorithmStepType =
+  | 'initialization'
+  | 'process_check'
+  | 'resource_allocation'
+  | 'completion'
+  | 'failure';
+
+// Operation check that precedes applying a request, release or admission
+export type OperationCheck =
+  'requestNeed' | 'requestAvailable' | 'releaseAllocation' | 'maxTotal';
+
+// Key an ordered selection strategy sorts processes by
+export interface SelectionKey {
+  label: 'remaining need' | 'allocation' | 'priority';
+  value: number;
+}
+
+/**
+ * What a step of a trace did, with the vectors it involved
+ * Process numbers are indices (0 for P0)
+ */
+export type TraceEvent =
+  // work = available (detection never uses a selection strategy)
+  | {
+      kind: 'init';
+      algorithm: 'safety' | 'detection';
+      work: number[];
+      strategy: SelectionStrategy;
+    }
+  // Detection only: a process holding nothing is finished up front
+  | {kind: 'idle'; process: number}
+  // need[Pi] ≤ work (safety) or request[Pi] ≤ work (detection)
+  | {
+      kind: 'compare';
+      process: number;
+      demand: 'need' | 'request';
+      vector: number[];
+      work: number[];
+      satisfied: boolean;
+      selectionKey?: SelectionKey;
+    }
+  // Pi finishes: work = work + allocation[Pi]
+  | {
+      kind: 'finish';
+      process: number;
+      work: number[];
+      allocation: number[];
+      result: number[];
+    }
+  // No unfinished process can proceed
+  | {kind: 'blocked'; processes: number[]; demand: 'need' | 'request'}
+  | {
+      kind: 'safetyResult';
+      isSafe: boolean;
+      sequence: number[];
+      unfinished: number[];
+    }
+  | {
+      kind: 'detectionResult';
+      isDeadlocked: boolean;
+      sequence: number[];
+      deadlocked: number[];
+    }
+  // vector ≤ bound, e.g. Request[Pi] ≤ Need[Pi]
+  | {
+      kind: 'check';
+      check: OperationCheck;
+      process: number;
+      vector: number[];
+      bound: number[];
+      satisfied: boolean;
+    }
+  // Request granted tentatively (allocate) or resources returned (release)
+  | {
+      kind: 'allocate' | 'release';
+      process: number;
+      vector: number[];
+      available: number[];
+      newAvailable: number[];
+      allocation: number[];
+      newAllocation: number[];
+      need: number[];
+      newNeed: number[];
+    }
+  | {kind: 'admit'; process: number; allocation: number[]; need: number[]}
+  // Later processes are renumbered, so the count before retiring is kept
+  | {
+      kind: 'retire';
+      process: number;
+      // Name before retiring, since the process is gone from later states
+      name: string;
+      processCount: number;
+      available: number[];
+      released: number[];
+      newAvailable: number[];
+    }
+  // Verdict of the safety check run after an operation
+  | {kind: 'runSafety'; isSafe: boolean};
+
 export interface AlgorithmStep {
   stepNumber: number | string;
+  // Rendered from `event` with default labels
   description: string;
   workVector: number[];
   processChecked?: string;
   canFinish?: boolean;
   isHighlighted?: boolean;
-  stepType?:
-    | 'initialization'
-    | 'process_check'
-    | 'resource_allocation'
-    | 'completion'
-    | 'failure';
+  stepType?: AlgorithmStepType;
+  event: TraceEvent;
   timestamp?: Date;
 }
 
+// System as shown while inspecting one step of a trace
+export interface StepState {
+  work: number[];
+  finish: boolean[];
+  allocation: number[][];
+  need: number[][];
+  available?: number[];
+}
+
 export interface ResourceRequest {
   processId: number;
   requestVector: number[];
 }
 
+export type SelectionStrategy =
+  | 'restartFromZero'
+  | 'roundRobin'
+  | 'smallestNeed'
+  | 'largestAllocation'
+  | 'priority';
+
+export interface SafetyOptions {
+  strategy?: SelectionStrategy;
+  priorities?: number[];
+}
+
 export interface SafetyResult {
   isSafe: boolean;
   safeSequence: string[];
@@ -46,6 +184,82 @@ export interface SafetyResult {
   finalFinishState: boolean[];
 }
 
+export interface DetectionResult {
+  isDeadlocked: boolean;
+  deadlockedProcesses: string[];
+  completionSequence: string[];
+  steps: AlgorithmStep[];
+  finalFinishState: boolean[];
+}
+
+export interface AllocationGraphEdge {
+  process: number;
+  resource: number;
+  units: number;
+  kind: 'assignment' | 'claim' | 'request';
+  released: boolean;
+}
+
+export interface WaitForEdge {
+  from: number;
+  to: number;
+  resources: number[];
+  released: boolean;
+}
+
+export interface WaitForGraph {
+  edges: WaitForEdge[];
+  cycles: number[][];
+}
+
+export interface SafeSequenceEnumeration {
+  sequences: string[][];
+  totalCount: number | null;
+  isTruncated: boolean;
+}
+
+export interface MaxSafeRequest {
+  processId: number;
+  perResourceMax: number[];
+  maximalRequests: number[][];
+  isTruncated: boolean;
+}
+
+export interface AvailableIncrease {
+  increase: number[];
+  totalUnits: number;
+  safeSequence: string[];
+}
+
+export interface AvailableIncreaseAnalysis {
+  minTotal: AvailableIncrease | null;
+  perResource: Array<AvailableIncrease | null>;
+  isOptimal: boolean;
+}
+
+export type RecoveryStrategy = 'terminate' | 'preempt';
+
+export type RecoveryCost = 'heldUnits' | 'priority' | 'remainingNeed';
+
+export interface RecoveryOptions {
+  strategy: RecoveryStrategy;
+  cost: RecoveryCost;
+  mode?: AlgorithmMode;
+  priorities?: number[];
+}
+
+export interface RecoveryPlan {
+  strategy: RecoveryStrategy;
+  cost: RecoveryCost;
+  victims: string[];
+  preempted: number[][];
+  preemptedUnits: number;
+  totalCost: number;
+  isOptimal: boolean;
+  safeSequence: string[];
+  newState: BankersAlgorithmState;
+}
+
 export interface RequestResult {
   canGrant: boolean;
   errorMessage?: string;
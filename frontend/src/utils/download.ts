@@ -0,0 +1,21 @@
+/**
+ * File Download Utility
+ * Saves generated text (scenarios, exports) as a file without a server
+ */
+
+export function downloadFile(
+  fileName: string,
+  contents: BlobPart,
+  type: string,
+): void {
+  const url = URL.createObjectURL(new Blob([contents], {type}));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoked on the next task, once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -2,6 +2,9 @@
  * Matrix and Vector Operations Utility
  * Optimized mathematical operations for the Banker's Algorithm
  * Based on the matrix operations from GreeksforGreeks implementation
+ *
+ * State matrices are never mutated: updates copy only the rows they change,
+ * so unchanged rows keep their identity and compare by reference.
  */
 
 import {ValidationError} from '@/types/bankers-algorithm';
@@ -47,6 +50,52 @@ export function calculateNeedMatrix(
   return need;
 }
 
+/**
+ * Calculates the Total vector: Total[j] = Available[j] + sum of Allocation[i][j]
+ */
+export function calculateTotalResources(
+  allocation: number[][],
+  available: number[],
+): number[] {
+  const allocated = matrixColumnSums(allocation);
+  return available.map((units, j) => units + (allocated[j] || 0));
+}
+
+/**
+ * Calculates the Available vector: Available[j] = Total[j] - sum of Allocation[i][j]
+ */
+export function calculateAvailableResources(
+  total: number[],
+  allocation: number[][],
+): number[] {
+  const allocated = matrixColumnSums(allocation);
+  return total.map((units, j) => units - (allocated[j] || 0));
+}
+
+/**
+ * Available and Total once Allocation has changed. A Total that was set
+ * stays and Available follows it, never below zero, so allocating more than
+ * the system owns fails the conservation check; otherwise Available stays as
+ * entered and Total follows
+ */
+export function updateResourceVectors(
+  previous: {available: number[]; total: number[]; isTotalSet?: boolean},
+  allocation: number[][],
+): {available: number[]; total: number[]} {
+  if (!previous.isTotalSet) {
+    return {
+      available: previous.available,
+      total: calculateTotalResources(allocation, previous.available),
+    };
+  }
+  return {
+    available: calculateAvailableResources(previous.total, allocation).map(
+      (units) => Math.max(0, units),
+    ),
+    total: previous.total,
+  };
+}
+
 /**
  * Checks if vector a is less than or equal to vector b (component-wise)
  */
@@ -100,6 +149,133 @@ export function cloneVector(vector: number[]): number[] {
   return [...vector];
 }
 
+/**
+ * Replaces one row of a matrix, sharing all other rows
+ */
+export function replaceRow(
+  matrix: number[][],
+  rowIndex: number,
+  row: number[],
+): number[][] {
+  const next = [...matrix];
+  next[rowIndex] = row;
+  return next;
+}
+
+/**
+ * Sets one cell of a matrix, sharing all other rows
+ * Returns the matrix itself when the value is unchanged
+ */
+export function setMatrixCell(
+  matrix: number[][],
+  rowIndex: number,
+  colIndex: number,
+  value: number,
+): number[][] {
+  if (matrix[rowIndex][colIndex] === value) {
+    return matrix;
+  }
+
+  const row = [...matrix[rowIndex]];
+  row[colIndex] = value;
+  return replaceRow(matrix, rowIndex, row);
+}
+
+/**
+ * Sets one entry of a vector
+ * Returns the vector itself when the value is unchanged
+ */
+export function setVectorEntry(
+  vector: number[],
+  index: number,
+  value: number,
+): number[] {
+  if (vector[index] === value) {
+    return vector;
+  }
+
+  const next = [...vector];
+  next[index] = value;
+  return next;
+}
+
+/**
+ * Writes a block of values with its top-left corner at one cell; values
+ * past the edge of the matrix are left out
+ * Rows the block leaves unchanged are shared
+ */
+export function setMatrixBlock(
+  matrix: number[][],
+  rowIndex: number,
+  colIndex: number,
+  block: number[][],
+): number[][] {
+  let isChanged = false;
+  const next = matrix.map((row, i) => {
+    const values = block[i - rowIndex];
+    if (!values) return row;
+
+    const nextRow = row.map((value, j) =>
+      j >= colIndex && j - colIndex < values.length
+        ? values[j - colIndex]
+        : value,
+    );
+    if (vectorsEqual(nextRow, row)) return row;
+    isChanged = true;
+    return nextRow;
+  });
+  return isChanged ? next : matrix;
+}
+
+/**
+ * Resizes a matrix, padding with zeros
+ * Rows that already have the right length are shared
+ */
+export function resizeMatrix(
+  matrix: number[][],
+  rows: number,
+  cols: number,
+): number[][] {
+  return Array.from({length: rows}, (_, i) => {
+    const row = matrix[i];
+    return row && row.length === cols
+      ? row
+      : Array.from({length: cols}, (_, j) => row?.[j] || 0);
+  });
+}
+
+/**
+ * Calculates the Need matrix for new Max and Allocation matrices, keeping
+ * the previous Need row of every process whose Max and Allocation rows are
+ * the same rows as before
+ */
+export function updateNeedMatrix(
+  previous: {max: number[][]; allocation: number[][]; need: number[][]},
+  max: number[][],
+  allocation: number[][],
+): number[][] {
+  return max.map((maxRow, i) =>
+    maxRow === previous.max[i] &&
+    allocation[i] === previous.allocation[i] &&
+    previous.need[i]
+      ? previous.need[i]
+      : subtractVectors(maxRow, allocation[i]),
+  );
+}
+
+/**
+ * Reuses every row of `previous` equal to the matching row of `matrix`,
+ * restoring sharing for matrices that arrive as copies (e.g. from a worker)
+ */
+export function shareEqualRows(
+  matrix: number[][],
+  previous: number[][],
+): number[][] {
+  return matrix.map((row, i) =>
+    previous[i] && vectorsEqual(row, previous[i]) ? previous[i] : row,
+  );
+}
+
 /**
  * Validates that all matrix values are non-negative integers
  */
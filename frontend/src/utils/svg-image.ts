@@ -0,0 +1,88 @@
+/**
+ * SVG Image Utilities
+ * Captures SVG drawn on the page as a standalone image and renders SVG to
+ * PNG on a canvas, all in the browser
+ */
+
+import {PNG_FILE_TYPE, SVG_FILE_TYPE, SvgImage} from '@/lib/image-export';
+
+// Presentation properties set by stylesheets (Tailwind classes, dark mode)
+// that a standalone file has to carry inline
+const INLINED_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+];
+
+/**
+ * Copies an SVG element with its computed colors and fonts inlined, on a
+ * solid background, so it looks the same outside the page
+ */
+export function captureSvgElement(
+  svg: SVGSVGElement,
+  background: string,
+): SvgImage {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const sources = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const targets = [copy, ...Array.from(copy.querySelectorAll('*'))];
+
+  sources.forEach((source, index) => {
+    const target = targets[index];
+    const computed = window.getComputedStyle(source);
+    const style = INLINED_PROPERTIES.map(
+      (property) => `${property}:${computed.getPropertyValue(property)}`,
+    ).join(';');
+    target.removeAttribute('class');
+    target.setAttribute('style', style);
+  });
+
+  const {width, height} = svg.viewBox.baseVal;
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+
+  const fill = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  fill.setAttribute('width', '100%');
+  fill.setAttribute('height', '100%');
+  fill.setAttribute('fill', background);
+  copy.insertBefore(fill, copy.firstChild);
+
+  return {
+    markup: new XMLSerializer().serializeToString(copy),
+    width,
+    height,
+  };
+}
+
+/**
+ * Renders an SVG image to PNG at `scale` times its size, for sharp slides
+ */
+export async function svgToPng(image: SvgImage, scale = 2): Promise<Blob> {
+  const source = new Image();
+  source.src = `data:${SVG_FILE_TYPE};charset=utf-8,${encodeURIComponent(image.markup)}`;
+  await source.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(image.width * scale);
+  canvas.height = Math.ceil(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas drawing is not supported');
+  }
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error('PNG could not be encoded')),
+      PNG_FILE_TYPE,
+    ),
+  );
+}